@@ -10,9 +10,12 @@ import {
   View,
 } from "react-native";
 
-export const ScreenContainer: React.FC<{ children: React.ReactNode }> = ({
-  children,
-}) => {
+// Screens that bring their own virtualized list pass scrollable={false}, as
+// nesting one inside a ScrollView would render every row at once
+export const ScreenContainer: React.FC<{
+  children: React.ReactNode;
+  scrollable?: boolean;
+}> = ({ children, scrollable = true }) => {
   const { colors, dark } = useTheme();
 
   return (
@@ -23,12 +26,16 @@ export const ScreenContainer: React.FC<{ children: React.ReactNode }> = ({
         barStyle={dark ? "light-content" : "dark-content"}
         backgroundColor={colors.background}
       />
-      <ScrollView
-        contentContainerStyle={styles.screen}
-        showsVerticalScrollIndicator={false}
-      >
-        {children}
-      </ScrollView>
+      {scrollable ? (
+        <ScrollView
+          contentContainerStyle={styles.screen}
+          showsVerticalScrollIndicator={false}
+        >
+          {children}
+        </ScrollView>
+      ) : (
+        <View style={[styles.screen, styles.fill]}>{children}</View>
+      )}
     </SafeAreaView>
   );
 };
@@ -58,6 +65,10 @@ const styles = StyleSheet.create({
     padding: 16,
     paddingBottom: 24,
   },
+  fill: {
+    flex: 1,
+    paddingBottom: 0,
+  },
   header: {
     marginBottom: 16,
   },
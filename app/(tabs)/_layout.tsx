@@ -1,9 +1,17 @@
 // app/(tabs)/_layout.tsx
 import React from "react";
-import { Tabs } from "expo-router";
+import { Redirect, Tabs } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
+import { useAuth } from "../auth-context";
 
 export default function TabsLayout() {
+  const { isLoggedIn, initializing } = useAuth();
+
+  // e.g. after switching to a server profile we have no session for
+  if (!initializing && !isLoggedIn) {
+    return <Redirect href="/login" />;
+  }
+
   return (
     <Tabs
       screenOptions={({ route }) => ({
@@ -1,43 +1,115 @@
 // app/(tabs)/index.tsx
-import React, { useMemo, useState } from "react";
+import React from "react";
 import {
   View,
   Text,
   TouchableOpacity,
   StyleSheet,
 } from "react-native";
+import { useRouter } from "expo-router";
+import { describeScanProgress } from "@/lib/device-library";
+import { useAuth } from "../auth-context";
+import { useBackup } from "../backup-context";
+import { useDeletionReview } from "../deletion-review-context";
+import { useUploadQueue } from "../upload-queue-context";
 import { ScreenContainer, Header } from "./_components";
 
+function formatLastBackup(iso: string | null) {
+  if (!iso) return "Never";
+  const d = new Date(iso);
+  const isToday = d.toDateString() === new Date().toDateString();
+  const time = d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  return isToday ? `Today, ${time}` : `${d.toLocaleDateString()}, ${time}`;
+}
+
 export default function HomeScreen() {
-  const [progress, setProgress] = useState<number>(40);
-  const backedUp = useMemo(
-    () => Math.round((progress / 100) * 120),
-    [progress]
-  );
+  const router = useRouter();
+  const { user } = useAuth();
+  const backup = useBackup();
+  const { waitingFor } = useUploadQueue();
+  const { candidates: deletionCandidates } = useDeletionReview();
+  const {
+    status,
+    deviceCount,
+    backedUpCount,
+    pending,
+    runTotal,
+    runCompleted,
+  } = backup;
+
+  const uploading = status === "uploading";
+  const busy = status !== "idle";
+
+  // While uploading show the run's progress, otherwise overall coverage
+  const progress = uploading
+    ? runTotal > 0
+      ? (runCompleted / runTotal) * 100
+      : 0
+    : deviceCount > 0
+    ? (backedUpCount / deviceCount) * 100
+    : 0;
+
+  const buttonLabel =
+    status === "scanning"
+      ? backup.scanProgress
+        ? describeScanProgress(backup.scanProgress)
+        : "Checking for new media..."
+      : uploading && waitingFor
+      ? waitingFor
+      : uploading
+      ? `Uploading ${Math.min(runCompleted + 1, runTotal)} of ${runTotal}...`
+      : pending.length > 0
+      ? `Backup now (${pending.length})`
+      : "Backup now";
 
-  const handlePress = () => {
-    setProgress((p) => (p >= 100 ? 0 : Math.min(100, p + 10)));
-  };
+  const serverStatus =
+    backup.serverOnline === null
+      ? { label: "Checking...", color: "#9ca3af" }
+      : backup.serverOnline
+      ? { label: "Online", color: "#16a34a" }
+      : { label: "Offline", color: "#f97373" };
 
   return (
     <ScreenContainer>
-      <Header title="My Private Photos" subtitle="Welcome back, Alex" />
+      <Header
+        title="My Private Photos"
+        subtitle={user ? `Welcome back, ${user.email}` : "Welcome back"}
+      />
 
       <View style={s.card}>
         <Text style={s.cardTitle}>Backup status</Text>
-        <Text style={s.cardSubtitle}>Last backup: Today, 14:23</Text>
+        <Text style={s.cardSubtitle}>
+          Last backup: {formatLastBackup(backup.lastBackupAt)}
+        </Text>
 
         <View style={s.progressBar}>
           <View style={[s.progressBarFill, { width: `${progress}%` }]} />
         </View>
         <Text style={s.progressLabel}>
-          {backedUp} of 120 items backed up
+          {uploading
+            ? `${runCompleted} of ${runTotal} uploaded` +
+              (backup.runFailed ? ` · ${backup.runFailed} failed` : "")
+            : `${backedUpCount} of ${deviceCount} items backed up`}
         </Text>
 
-        <TouchableOpacity style={s.primaryButton} onPress={handlePress}>
-          <Text style={s.primaryButtonText}>
-            {progress >= 100 ? "Reset demo progress" : "Backup now (demo)"}
-          </Text>
+        {backup.lastError ? (
+          <Text style={s.errorText}>{backup.lastError}</Text>
+        ) : null}
+
+        {deletionCandidates.length > 0 && (
+          <TouchableOpacity onPress={() => router.push("/deletion-review")}>
+            <Text style={s.noticeText}>
+              {deletionCandidates.length} deletion(s) to review ›
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity
+          style={[s.primaryButton, busy && s.primaryButtonDisabled]}
+          onPress={backup.backupNow}
+          disabled={busy}
+        >
+          <Text style={s.primaryButtonText}>{buttonLabel}</Text>
         </TouchableOpacity>
       </View>
 
@@ -45,28 +117,44 @@ export default function HomeScreen() {
         <Text style={s.cardTitle}>Details</Text>
         <View style={s.statusRow}>
           <Text style={s.statusLabel}>New photos detected</Text>
-          <Text style={s.statusValue}>72</Text>
+          <Text style={s.statusValue}>{backup.pendingPhotos}</Text>
         </View>
         <View style={s.statusRow}>
           <Text style={s.statusLabel}>New videos</Text>
-          <Text style={s.statusValue}>5</Text>
+          <Text style={s.statusValue}>{backup.pendingVideos}</Text>
         </View>
         <View style={s.statusRow}>
           <Text style={s.statusLabel}>Server status</Text>
-          <Text style={[s.statusValue, { color: "#16a34a" }]}>Online</Text>
+          <Text style={[s.statusValue, { color: serverStatus.color }]}>
+            {serverStatus.label}
+          </Text>
         </View>
       </View>
 
       <View style={s.card}>
         <Text style={s.cardTitle}>Quick actions</Text>
         <View style={s.quickActionsRow}>
-          <TouchableOpacity style={s.chip}>
+          <TouchableOpacity
+            style={s.chip}
+            onPress={() => backup.refresh({ prompt: true })}
+            disabled={busy}
+          >
             <Text style={s.chipEmoji}>📱</Text>
             <Text style={s.chipText}>Scan device</Text>
           </TouchableOpacity>
-          <TouchableOpacity style={s.chip}>
+          <TouchableOpacity
+            style={s.chip}
+            onPress={() => router.push("/upload-queue")}
+          >
             <Text style={s.chipEmoji}>☁️</Text>
-            <Text style={s.chipText}>Recent uploads</Text>
+            <Text style={s.chipText}>Upload queue</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={s.chip}
+            onPress={() => router.push("/free-up-space")}
+          >
+            <Text style={s.chipEmoji}>🧹</Text>
+            <Text style={s.chipText}>Free up space</Text>
           </TouchableOpacity>
           <TouchableOpacity style={s.chip}>
             <Text style={s.chipEmoji}>📍</Text>
@@ -114,6 +202,16 @@ const s = StyleSheet.create({
     color: "#9ca3af",
     marginBottom: 8,
   },
+  errorText: {
+    fontSize: 12,
+    color: "#f97373",
+    marginBottom: 8,
+  },
+  noticeText: {
+    fontSize: 12,
+    color: "#fbbf24",
+    marginBottom: 8,
+  },
   primaryButton: {
     marginTop: 4,
     backgroundColor: "#38bdf8",
@@ -121,6 +219,9 @@ const s = StyleSheet.create({
     borderRadius: 999,
     alignItems: "center",
   },
+  primaryButtonDisabled: {
+    opacity: 0.7,
+  },
   primaryButtonText: {
     color: "#0f172a",
     fontWeight: "600",
@@ -1,5 +1,4 @@
 // app/(tabs)/library.tsx
-import * as MediaLibrary from "expo-media-library";
 import React, {
   useCallback,
   useMemo,
@@ -10,18 +9,18 @@ import React, {
 import {
   Alert,
   FlatList,
-  Image,
   NativeScrollEvent,
   NativeSyntheticEvent,
-  Platform,
   RefreshControl,
   ScrollView,
+  SectionList,
   StyleSheet,
   Text,
   TextInput,
   TouchableOpacity,
   useWindowDimensions,
   View,
+  ViewToken,
 } from "react-native";
 import Animated, {
   useAnimatedStyle,
@@ -29,44 +28,72 @@ import Animated, {
   withTiming,
 } from "react-native-reanimated";
 import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import { useTheme } from "@react-navigation/native";
 
+import {
+  buildServerIndex,
+  dedupeMedia,
+  formatBytes,
+  isBackedUp,
+  ManualAlbum,
+  MediaItem,
+  MediaSource,
+  SERVER_ID_PREFIX,
+} from "@/lib/media";
+import {
+  describeScanProgress,
+  DeviceLibraryError,
+  ensureMediaPermission,
+} from "@/lib/device-library";
+import { describeCamera } from "@/lib/media-metadata";
+import { describeNasError } from "@/lib/nas-api";
+import {
+  buildTimeline,
+  layoutIndexOf,
+  locateItem,
+  monthLabel,
+  rowAtOffset,
+  scrubberMarks,
+  TIMELINE_GROUPINGS,
+  TimelineGrouping,
+  timelineLayout,
+  TimelineMonth,
+  timelineMonths,
+  TimelineRow,
+  TimelineSection,
+} from "@/lib/timeline";
+import { describeThroughput } from "@/lib/upload-queue";
+import {
+  MAX_TIMELINE_COLUMNS,
+  MIN_TIMELINE_COLUMNS,
+} from "@/lib/app-settings";
+import { useRouter } from "expo-router";
+import { JumpToDate } from "@/components/jump-to-date";
+import { MediaImage } from "@/components/media-image";
+import { TimelineScrubber } from "@/components/timeline-scrubber";
+import { VideoPlayer } from "@/components/video-player";
 import { Header, ScreenContainer } from "./_components";
-import { useAuth, NAS_BASE_URL } from "../auth-context";
+import { useAuth } from "../auth-context";
+import { useBackup } from "../backup-context";
+import { useBackupPolicy } from "../backup-policy-context";
+import { useCatalog } from "../catalog-context";
+import { useDeletionReview } from "../deletion-review-context";
+import { useDownloadQueue } from "../download-queue-context";
+import { useServerSync } from "../server-sync-context";
+import { useSettings } from "../settings-context";
+import { useUploadQueue } from "../upload-queue-context";
 
 // -----------------------------------------------------------------------------
 // Types
 // -----------------------------------------------------------------------------
 
-type MediaType = "photo" | "video";
-type MediaSource = "mock" | "device" | "server";
-
-type MediaItem = {
-  id: string;
-  uri: string;
-  createdAt: string;
-  type: MediaType;
-  source: MediaSource;
-  width?: number;
-  height?: number;
-  exif?: Record<string, any>;
-  favorite?: boolean;
-};
-
 type AlbumId = "all" | "device" | "videos" | "favorites";
 
-type ManualAlbum = {
-  id: string;
-  title: string;
-  createdAt: string;
-  mediaIds: string[];
-  coverMediaId?: string;
-};
-
 type AlbumInfo = {
   id: string;
   title: string;
   count: number;
-  coverUri?: string;
+  cover?: MediaItem;
   kind: "smart" | "manual";
 };
 
@@ -79,142 +106,38 @@ type ActiveAlbum =
 // Helpers
 // -----------------------------------------------------------------------------
 
-function daysAgo(n: number) {
-  const d = new Date();
-  d.setDate(d.getDate() - n);
-  return d.toISOString();
-}
-
 function formatDateTime(iso: string) {
   const d = new Date(iso);
   return d.toLocaleString();
 }
 
-function detectTypeFromName(nameOrUrl: string): MediaType {
-  const lower = nameOrUrl.toLowerCase();
-  if (/\.(mp4|mov|m4v|avi|mkv|webm)$/i.test(lower)) return "video";
-  return "photo";
-}
-
-// Used to deduplicate device/server/mock copies of the same photo
-function buildDedupKey(item: MediaItem): string {
-  // Use createdAt (to the second) + resolution.
-  // Device + server copies share this if they represent the same asset.
-  const timePart = item.createdAt.slice(0, 19); // "YYYY-MM-DDTHH:MM:SS"
-  const sizePart =
-    item.width && item.height ? `${item.width}x${item.height}` : "";
-
-  return `${timePart}|${sizePart}`;
-}
-
 // -----------------------------------------------------------------------------
-// Demo data
+// Timeline layout
 // -----------------------------------------------------------------------------
 
-const initialMedia: MediaItem[] = [
-  {
-    id: "1",
-    uri: "https://picsum.photos/400?random=11",
-    createdAt: new Date().toISOString(),
-    type: "photo",
-    source: "mock",
-    width: 400,
-    height: 400,
-  },
-  {
-    id: "2",
-    uri: "https://picsum.photos/400?random=12",
-    createdAt: new Date().toISOString(),
-    type: "photo",
-    source: "mock",
-    width: 400,
-    height: 400,
-  },
-  {
-    id: "3",
-    uri: "https://picsum.photos/400?random=13",
-    createdAt: daysAgo(1),
-    type: "video",
-    source: "mock",
-    width: 1920,
-    height: 1080,
-  },
-  {
-    id: "4",
-    uri: "https://picsum.photos/400?random=14",
-    createdAt: daysAgo(2),
-    type: "photo",
-    source: "mock",
-    width: 400,
-    height: 400,
-  },
-  {
-    id: "5",
-    uri: "https://picsum.photos/400?random=15",
-    createdAt: daysAgo(5),
-    type: "video",
-    source: "mock",
-    width: 1280,
-    height: 720,
-  },
-  {
-    id: "6",
-    uri: "https://picsum.photos/400?random=16",
-    createdAt: daysAgo(12),
-    type: "photo",
-    source: "mock",
-    width: 400,
-    height: 400,
-  },
-];
-
-// -----------------------------------------------------------------------------
-// Grouping helpers
-// -----------------------------------------------------------------------------
-
-type GroupKey = "Today" | "This week" | "Earlier";
-
-type GroupedMedia = {
-  group: GroupKey;
-  items: MediaItem[];
+const GRID_GAP = 4;
+// Pinching this far (relative to the last step) adds or removes a column
+const PINCH_STEP = 1.3;
+// Below this the Device / Server labels would cover the thumbnail
+const BADGE_MIN_CELL_SIZE = 72;
+const SECTION_HEADER_HEIGHT = 40;
+const SCREEN_PADDING = 16; // matches ScreenContainer
+// The scrubber only shows once there's more than a few screens to scroll
+const SCRUBBER_MIN_ITEMS = 60;
+const SCRUBBER_MARK_GAP = 0.06;
+
+const GROUPING_LABELS: Record<TimelineGrouping, string> = {
+  day: "Day",
+  month: "Month",
+  year: "Year",
 };
 
-function groupMedia(items: MediaItem[]): GroupedMedia[] {
-  const now = new Date();
-  const todayStart = new Date(
-    now.getFullYear(),
-    now.getMonth(),
-    now.getDate()
-  );
-  const weekAgo = new Date(todayStart);
-  weekAgo.setDate(weekAgo.getDate() - 7);
-
-  const buckets: Record<GroupKey, MediaItem[]> = {
-    Today: [],
-    "This week": [],
-    Earlier: [],
-  };
-
-  for (const item of items) {
-    const created = new Date(item.createdAt);
-    if (created >= todayStart) buckets["Today"].push(item);
-    else if (created >= weekAgo) buckets["This week"].push(item);
-    else buckets["Earlier"].push(item);
-  }
-
-  const out: GroupedMedia[] = [];
-  (["Today", "This week", "Earlier"] as GroupKey[]).forEach((k) => {
-    if (buckets[k].length) out.push({ group: k, items: buckets[k] });
-  });
-
-  return out;
-}
-
 // -----------------------------------------------------------------------------
 // Zoomable Image
 // -----------------------------------------------------------------------------
 
-const ZoomableImage = ({ uri }: { uri: string }) => {
+// Shows the preview rendition while the original loads
+const ZoomableImage = ({ item }: { item: MediaItem }) => {
   const scale = useSharedValue(1);
   const savedScale = useSharedValue(1);
 
@@ -238,17 +161,21 @@ const ZoomableImage = ({ uri }: { uri: string }) => {
 
   return (
     <GestureDetector gesture={pinch}>
-      <Animated.Image
-        source={{ uri }}
-        resizeMode="contain"
-        style={[styles.viewerImage, animStyle]}
-      />
+      <Animated.View style={[styles.viewerImage, animStyle]}>
+        <MediaImage
+          item={item}
+          size="original"
+          placeholderSize="preview"
+          contentFit="contain"
+          style={styles.viewerImage}
+        />
+      </Animated.View>
     </GestureDetector>
   );
 };
 
 // -----------------------------------------------------------------------------
-// Fullscreen Viewer (swipe + zoom + metadata + favorite + delete)
+// Fullscreen Viewer (swipe + zoom + video + metadata + favorite + delete)
 // -----------------------------------------------------------------------------
 
 type ViewerProps = {
@@ -258,6 +185,7 @@ type ViewerProps = {
   onRequestClose: () => void;
   onToggleFavorite?: (item: MediaItem) => void;
   onDeleteCurrent?: (item: MediaItem) => void;
+  onSaveCurrent?: (item: MediaItem) => void;
 };
 
 const FullscreenViewer: React.FC<ViewerProps> = ({
@@ -267,6 +195,7 @@ const FullscreenViewer: React.FC<ViewerProps> = ({
   onRequestClose,
   onToggleFavorite,
   onDeleteCurrent,
+  onSaveCurrent,
 }) => {
   const listRef = useRef<FlatList<MediaItem>>(null);
   const { width, height } = useWindowDimensions();
@@ -294,6 +223,7 @@ const FullscreenViewer: React.FC<ViewerProps> = ({
   if (!visible || images.length === 0) return null;
 
   const current = images[currentIndex] ?? images[0];
+  const camera = describeCamera(current?.metadata);
 
   const handleToggleFavPress = () => {
     if (!current || !onToggleFavorite) return;
@@ -305,6 +235,11 @@ const FullscreenViewer: React.FC<ViewerProps> = ({
     onDeleteCurrent(current);
   };
 
+  const handleSavePress = () => {
+    if (!current || !onSaveCurrent) return;
+    onSaveCurrent(current);
+  };
+
   return (
     <View style={styles.viewerBackdropOuter}>
       <View style={styles.viewerBackdrop}>
@@ -317,14 +252,27 @@ const FullscreenViewer: React.FC<ViewerProps> = ({
   onMomentumScrollEnd={onMomentumEnd}
   style={{ flex: 1 }}
   keyExtractor={(item) => item.id}
-  renderItem={({ item }) => (
+  extraData={currentIndex}
+  renderItem={({ item, index }) => (
     <View
       style={[
         styles.viewerPage,
         { width, height },
       ]}
     >
-      <ZoomableImage uri={item.uri} />
+      {item.type !== "video" ? (
+        <ZoomableImage item={item} />
+      ) : index === currentIndex ? (
+        // Only the page on screen gets a player; swiping away stops it
+        <VideoPlayer item={item} />
+      ) : (
+        <MediaImage
+          item={item}
+          size="preview"
+          contentFit="contain"
+          style={styles.viewerImage}
+        />
+      )}
     </View>
   )}
   // 👇 Tell FlatList how big each page is
@@ -375,6 +323,18 @@ const FullscreenViewer: React.FC<ViewerProps> = ({
               </TouchableOpacity>
             )}
 
+            {/* Save to phone (only for items not on the phone) */}
+            {current &&
+              current.id.startsWith(SERVER_ID_PREFIX) &&
+              onSaveCurrent && (
+                <TouchableOpacity
+                  onPress={handleSavePress}
+                  style={styles.viewerIconButton}
+                >
+                  <Text style={styles.viewerSaveText}>Save</Text>
+                </TouchableOpacity>
+              )}
+
             {/* Delete from NAS (only for server items) */}
             {current &&
               current.source === "server" &&
@@ -398,6 +358,11 @@ const FullscreenViewer: React.FC<ViewerProps> = ({
         {/* Bottom metadata */}
         {current && (
           <View style={styles.viewerMetaBar}>
+            {current.fileName ? (
+              <Text numberOfLines={1} style={styles.viewerFileName}>
+                {current.fileName}
+              </Text>
+            ) : null}
             <Text numberOfLines={2} style={styles.viewerMetaText}>
               {formatDateTime(current.createdAt)}
               {current.width && current.height
@@ -406,6 +371,11 @@ const FullscreenViewer: React.FC<ViewerProps> = ({
               {current.type === "video" ? " · Video" : " · Photo"}
               {current.source === "server" ? " · On NAS" : ""}
             </Text>
+            {camera ? (
+              <Text numberOfLines={1} style={styles.viewerMetaText}>
+                {camera}
+              </Text>
+            ) : null}
           </View>
         )}
       </View>
@@ -418,19 +388,37 @@ const FullscreenViewer: React.FC<ViewerProps> = ({
 // -----------------------------------------------------------------------------
 
 export default function LibraryScreen() {
-  const { token } = useAuth();
-
-  const [media, setMedia] = useState<MediaItem[]>(initialMedia);
+  const router = useRouter();
+  const { token, api } = useAuth();
+  const { sync, syncing, syncError } = useServerSync();
+  const { reportServerRemovals } = useDeletionReview();
+  const uploadQueue = useUploadQueue();
+  const downloadQueue = useDownloadQueue();
+  const { settings, updateSettings } = useSettings();
+  const columns = settings.timelineColumns;
+  const { block } = useBackupPolicy();
+  const backup = useBackup();
+  const scanningDevice = backup.status === "scanning";
+
+  const { media, setMedia, manualAlbums, setManualAlbums, catalogLoaded } =
+    useCatalog();
   const [filter, setFilter] =
     useState<"all" | "photos" | "videos">("all");
 
-  const [manualAlbums, setManualAlbums] = useState<ManualAlbum[]>([]);
   const [activeAlbum, setActiveAlbum] = useState<ActiveAlbum>(null);
   const [albumEditMode, setAlbumEditMode] = useState(false);
 
   const [refreshing, setRefreshing] = useState(false);
-  const [syncing, setSyncing] = useState(false);
-  const [scanningDevice, setScanningDevice] = useState(false);
+
+  const { width } = useWindowDimensions();
+  const listRef = useRef<SectionList<TimelineRow, TimelineSection>>(null);
+  const [topIndex, setTopIndex] = useState(0);
+  const [pastListHeader, setPastListHeader] = useState(false);
+  const [jumpVisible, setJumpVisible] = useState(false);
+  const { colors } = useTheme();
+  const [grouping, setGrouping] = useState<TimelineGrouping>("day");
+  // Filters, albums and the queue card sit above the first section
+  const [listHeaderHeight, setListHeaderHeight] = useState(0);
 
   const [viewerVisible, setViewerVisible] = useState(false);
   const [viewerIndex, setViewerIndex] = useState(0);
@@ -439,17 +427,32 @@ export default function LibraryScreen() {
   const [renameModalVisible, setRenameModalVisible] = useState(false);
   const [renameText, setRenameText] = useState("");
 
-  // Selection + upload queue
+  // Selection (uploads themselves run in the shared upload queue)
   const [selectMode, setSelectMode] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
-  const [uploading, setUploading] = useState(false);
-  const [uploadTotal, setUploadTotal] = useState(0);
-  const [uploadIndex, setUploadIndex] = useState(0);
 
   // Search (Step 9)
   const [searchQuery, setSearchQuery] = useState("");
 
   const selectedCount = selectedIds.size;
+  // Selected items that only exist on the NAS, for "Save to phone"
+  const selectedServerItems = useMemo(
+    () =>
+      media.filter(
+        (m) => selectedIds.has(m.id) && m.id.startsWith(SERVER_ID_PREFIX)
+      ),
+    [media, selectedIds]
+  );
+
+  const queueCounts = uploadQueue.counts;
+  const queueWaiting = queueCounts.queued + queueCounts.uploading;
+  const queueActive = queueWaiting > 0 || queueCounts.failed > 0;
+  const queueSpeed = uploadQueue.paused
+    ? null
+    : describeThroughput(
+        uploadQueue.throughput.bytesPerSecond,
+        uploadQueue.throughput.etaSeconds
+      );
 
   const activeManualAlbum = useMemo(() => {
     if (!activeAlbum || activeAlbum.kind !== "manual") return null;
@@ -471,7 +474,7 @@ export default function LibraryScreen() {
         id,
         title,
         count: items.length,
-        coverUri: items[0].uri,
+        cover: items[0],
         kind: "smart",
       });
     };
@@ -491,7 +494,7 @@ export default function LibraryScreen() {
         id: album.id,
         title: album.title,
         count,
-        coverUri: coverMedia?.uri,
+        cover: coverMedia,
         kind: "manual",
       });
     });
@@ -543,35 +546,14 @@ export default function LibraryScreen() {
       });
     }
 
-    // 🔥 Dedupe device/server/mock duplicates by key
+    // 🔥 Dedupe device/server duplicates by content hash (or fallback key)
     const priority = (source: MediaSource) => {
-      if (source === "server") return 3;
-      if (source === "device") return 2;
-      if (source === "mock") return 1;
+      if (source === "server") return 2;
+      if (source === "device") return 1;
       return 0;
     };
 
-    // Group items by dedup key
-    const buckets = new Map<string, MediaItem[]>();
-    for (const item of base) {
-      const key = buildDedupKey(item);
-      const arr = buckets.get(key);
-      if (arr) arr.push(item);
-      else buckets.set(key, [item]);
-    }
-
-    const deduped: MediaItem[] = [];
-    for (const items of buckets.values()) {
-      let best = items[0];
-      for (const item of items) {
-        if (priority(item.source) > priority(best.source)) {
-          best = item;
-        }
-      }
-      deduped.push(best);
-    }
-
-    return deduped;
+    return dedupeMedia(base, (item) => priority(item.source));
   }, [
     media,
     filter,
@@ -581,169 +563,192 @@ export default function LibraryScreen() {
     searchQuery,
   ]);
 
-  const groups = useMemo(
-    () => groupMedia(mediaForTimeline),
-    [mediaForTimeline]
+  const timeline = useMemo(
+    () => buildTimeline(mediaForTimeline, grouping, columns),
+    [mediaForTimeline, grouping, columns]
   );
 
-  // Pull-to-refresh (demo)
-  const handleRefresh = useCallback(async () => {
-    setRefreshing(true);
-    await new Promise((res) => setTimeout(res, 700));
-
-    const newItem: MediaItem = {
-      id: String(Date.now()),
-      uri:
-        "https://picsum.photos/400?random=" +
-        Math.floor(Math.random() * 5000),
-      createdAt: new Date().toISOString(),
-      type: Math.random() > 0.7 ? "video" : "photo",
-      source: "mock",
-      width: 400,
-      height: 400,
-    };
-
-    setMedia((prev) => [newItem, ...prev]);
-    setRefreshing(false);
-  }, []);
+  // Every row has the same height, so offsets are known without rendering
+  const cellSize =
+    (width - SCREEN_PADDING * 2 - GRID_GAP * (columns - 1)) / columns;
+  const itemLayouts = useMemo(
+    () =>
+      timelineLayout(timeline.sections, {
+        listHeaderHeight,
+        sectionHeaderHeight: SECTION_HEADER_HEIGHT,
+        rowHeight: cellSize + GRID_GAP,
+      }),
+    [timeline, listHeaderHeight, cellSize]
+  );
+  const getItemLayout = useCallback(
+    (_: unknown, index: number) =>
+      itemLayouts[index] ?? { length: 0, offset: 0, index },
+    [itemLayouts]
+  );
 
-  // Sync from NAS
-  const syncFromServer = useCallback(async () => {
-    if (!token) return;
+  // Scrubber + "Jump to date"; both work on whatever the filters left
+  const months = useMemo(() => timelineMonths(timeline.items), [timeline]);
+  const marks = useMemo(
+    () => scrubberMarks(months, timeline.items.length, SCRUBBER_MARK_GAP),
+    [months, timeline]
+  );
 
-    try {
-      const res = await fetch(`${NAS_BASE_URL}/media`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
+  const scrollToItem = useCallback(
+    (index: number) => {
+      const location = locateItem(timeline.sections, index);
+      if (!location) return;
+      listRef.current?.scrollToLocation({
+        sectionIndex: location.sectionIndex,
+        // itemIndex counts the section header, so row r is r + 1
+        itemIndex: location.rowIndex + 1,
+        viewOffset: 0,
+        animated: false,
       });
+    },
+    [timeline]
+  );
 
-      if (!res.ok) {
-        console.warn("Failed to fetch NAS media:", await res.text());
-        return;
-      }
+  const scrubberLabel = useCallback(
+    (index: number) => monthLabel(timeline.items[index].createdAt),
+    [timeline]
+  );
 
-      const data: any[] = await res.json();
+  const handleJumpToMonth = useCallback(
+    (month: TimelineMonth) => {
+      setJumpVisible(false);
+      scrollToItem(month.firstIndex);
+    },
+    [scrollToItem]
+  );
 
-      const serverItems: MediaItem[] = (data ?? []).map((item: any) => {
-        const url: string = item.url;
-        const baseName: string =
-          typeof item.id === "string" && item.id.length ? item.id : url;
+  // Keeps the scrubber handle level with the top of the screen
+  const handleViewableItemsChanged = useCallback(
+    ({ viewableItems }: { viewableItems: ViewToken<TimelineRow>[] }) => {
+      const first = viewableItems.find(
+        (v) => typeof v.item?.firstIndex === "number"
+      );
+      if (first) setTopIndex(first.item.firstIndex);
+    },
+    []
+  );
 
-        const type = detectTypeFromName(baseName);
+  // Pinch to change the column count. The item under the fingers is noted
+  // before the grid reflows and scrolled back under them afterwards.
+  const scrollY = useRef(0);
+  const pinchBase = useRef(1);
+  const anchor = useRef<{
+    index: number;
+    focalY: number;
+    fraction: number; // how far down its row the fingers were
+  } | null>(null);
+
+  const changeColumns = (delta: number, focalX: number, focalY: number) => {
+    const next = Math.min(
+      Math.max(columns + delta, MIN_TIMELINE_COLUMNS),
+      MAX_TIMELINE_COLUMNS
+    );
+    if (next === columns) return;
 
-        let createdAtIso = new Date().toISOString();
-        if (item.createdAt) {
-          try {
-            createdAtIso = new Date(item.createdAt).toISOString();
-          } catch {
-            // ignore parse error
-          }
-        }
+    const hit = rowAtOffset(itemLayouts, scrollY.current + focalY);
+    if (hit?.row) {
+      const column = Math.min(
+        Math.max(Math.floor(focalX / (cellSize + GRID_GAP)), 0),
+        hit.row.items.length - 1
+      );
+      anchor.current = {
+        index: hit.row.firstIndex + column,
+        focalY,
+        fraction: Math.min(
+          Math.max((scrollY.current + focalY - hit.offset) / hit.length, 0),
+          1
+        ),
+      };
+    }
+    updateSettings({ timelineColumns: next });
+  };
 
-        return {
-          id: `server-${item.id}`,
-          uri: url,
-          createdAt: createdAtIso,
-          type,
-          source: "server",
-          width: item.width,
-          height: item.height,
-        };
-      });
+  useEffect(() => {
+    const pending = anchor.current;
+    if (!pending) return;
+    anchor.current = null;
+
+    const location = locateItem(timeline.sections, pending.index);
+    if (!location) return;
+    const row =
+      itemLayouts[
+        layoutIndexOf(
+          timeline.sections,
+          location.sectionIndex,
+          location.rowIndex
+        )
+      ];
+    if (!row) return;
+    const y = row.offset + pending.fraction * row.length - pending.focalY;
+    // Wait for the list to take its new content height
+    requestAnimationFrame(() => {
+      listRef.current
+        ?.getScrollResponder()
+        ?.scrollTo({ y: Math.max(y, 0), animated: false });
+    });
+  }, [timeline, itemLayouts]);
 
-      setMedia((prev): MediaItem[] => {
-        const existingIds = new Set(prev.map((m) => m.id));
-        const merged = [...prev];
-        for (const item of serverItems) {
-          if (!existingIds.has(item.id)) {
-            merged.push(item);
-          }
-        }
-        return merged;
-      });
+  const pinch = Gesture.Pinch()
+    .runOnJS(true)
+    .onStart(() => {
+      pinchBase.current = 1;
+    })
+    .onUpdate((event) => {
+      const ratio = event.scale / pinchBase.current;
+      if (ratio > PINCH_STEP) {
+        pinchBase.current = event.scale;
+        changeColumns(-1, event.focalX, event.focalY);
+      } else if (ratio < 1 / PINCH_STEP) {
+        pinchBase.current = event.scale;
+        changeColumns(1, event.focalX, event.focalY);
+      }
+    });
+  // Keep one-finger scrolling on the list itself
+  const timelineGesture = Gesture.Simultaneous(pinch, Gesture.Native());
+
+  // Sync from NAS (failures show up as syncError)
+  const syncFromServer = useCallback(async () => {
+    if (!token) return;
+    try {
+      await sync();
     } catch (err) {
-      console.error("Error syncing NAS media", err);
+      console.warn("Failed to fetch NAS media:", err);
     }
-  }, [token]);
+  }, [token, sync]);
 
-  const handleSyncClick = useCallback(async () => {
-    setSyncing(true);
-    await Promise.all([handleRefresh(), syncFromServer()]);
-    setSyncing(false);
-  }, [handleRefresh, syncFromServer]);
+  // Pull-to-refresh
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await syncFromServer();
+    setRefreshing(false);
+  }, [syncFromServer]);
 
-  // Auto-sync once when token appears
+  // Auto-sync once the cached catalog is on screen and we have a token
   useEffect(() => {
-    if (!token) return;
+    if (!token || !catalogLoaded) return;
     syncFromServer();
-  }, [token, syncFromServer]);
+  }, [token, catalogLoaded, syncFromServer]);
 
-  // Scan device
+  // Scan device (incremental; the backup engine keeps the checkpoint)
+  const { refresh: refreshBackup } = backup;
   const handleScanDevice = useCallback(async () => {
-    if (Platform.OS === "web") {
+    const err = await refreshBackup({ prompt: true });
+    if (!err) return;
+    if (err instanceof DeviceLibraryError) {
+      if (err.kind === "cancelled") return;
       Alert.alert(
-        "Not supported",
-        "Device scanning only works on iOS/Android."
+        err.kind === "unsupported" ? "Not supported" : "Permission needed",
+        err.message
       );
       return;
     }
-
-    setScanningDevice(true);
-    try {
-      const { status } = await MediaLibrary.requestPermissionsAsync();
-      if (status !== "granted") {
-        Alert.alert(
-          "Permission needed",
-          "We need access to your photos."
-        );
-        return;
-      }
-
-      const assets = await MediaLibrary.getAssetsAsync({
-        mediaType: [
-          MediaLibrary.MediaType.photo,
-          MediaLibrary.MediaType.video,
-        ],
-        first: 60,
-        sortBy: [MediaLibrary.SortBy.creationTime],
-      });
-
-      const items: MediaItem[] = await Promise.all(
-        assets.assets.map(async (a): Promise<MediaItem> => {
-          const info = await MediaLibrary.getAssetInfoAsync(a);
-          const type: MediaType =
-            a.mediaType === MediaLibrary.MediaType.video
-              ? "video"
-              : "photo";
-
-          return {
-            id: `device-${a.id}`,
-            uri: info.localUri ?? a.uri,
-            createdAt: new Date(
-              a.creationTime ?? Date.now()
-            ).toISOString(),
-            type,
-            source: "device",
-            width: info.width ?? (a as any).width,
-            height: info.height ?? (a as any).height,
-            exif: info.exif ?? undefined,
-          };
-        })
-      );
-
-      setMedia((prev): MediaItem[] => {
-        const ids = new Set(prev.map((m) => m.id));
-        const uniqueNew = items.filter((i) => !ids.has(i.id));
-        return [...prev, ...uniqueNew];
-      });
-    } catch (err) {
-      console.error(err);
-      Alert.alert("Error", "Error scanning device media.");
-    } finally {
-      setScanningDevice(false);
-    }
-  }, []);
+    console.error(err);
+    Alert.alert("Error", "Error scanning device media.");
+  }, [refreshBackup]);
 
   // Selection
   const toggleSelectMode = () => {
@@ -760,77 +765,36 @@ export default function LibraryScreen() {
     });
   };
 
-  // Upload one item to NAS
-  const uploadOneToNas = useCallback(
-    async (item: MediaItem): Promise<boolean> => {
-      try {
-        if (!token) {
-          Alert.alert(
-            "Not logged in",
-            "Please sign in before uploading to NAS."
-          );
-          return false;
-        }
-
-        if (item.source === "device" && Platform.OS !== "web") {
-          const formData = new FormData();
-
-          const file: any = {
-            uri: item.uri,
-            name:
-              (item.type === "video" ? "video-" : "photo-") +
-              item.id +
-              (item.type === "video" ? ".mp4" : ".jpg"),
-            type: item.type === "video" ? "video/mp4" : "image/jpeg",
-          };
-
-          // 👇 send original metadata to server
-          formData.append("takenAt", item.createdAt);
-          if (item.width != null) {
-            formData.append("width", String(item.width));
-          }
-          if (item.height != null) {
-            formData.append("height", String(item.height));
-          }
-
-          formData.append("file", file);
-
-          const res = await fetch(`${NAS_BASE_URL}/upload`, {
-            method: "POST",
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
-            body: formData,
-          });
-
-          if (!res.ok) {
-            console.warn("Upload failed", await res.text());
-            return false;
-          }
-
-          return true;
-        }
-
-        // For mock or web, simulate
-        await new Promise((res) => setTimeout(res, 400));
-        return true;
-      } catch (err) {
-        console.error("Upload error", err);
-        return false;
-      }
-    },
-    [token]
-  );
+  const handleUploadSelected = useCallback(() => {
+    if (!token) {
+      Alert.alert(
+        "Not logged in",
+        "Please sign in before uploading to NAS."
+      );
+      return;
+    }
 
-  const handleUploadSelected = useCallback(async () => {
     if (selectedCount === 0) {
       Alert.alert("Nothing selected", "Select some items first.");
       return;
     }
 
-    const itemsToUpload = media.filter(
+    // Items whose content the NAS already has are marked, not re-sent
+    const serverIndex = buildServerIndex(media);
+    const selected = media.filter(
       (m) => selectedIds.has(m.id) && m.source !== "server"
     );
+    const alreadyThere = selected.filter((m) => isBackedUp(m, serverIndex));
+    const itemsToUpload = selected.filter(
+      (m) => !isBackedUp(m, serverIndex)
+    );
+
+    if (alreadyThere.length) {
+      const ids = new Set(alreadyThere.map((m) => m.id));
+      setMedia((prev) =>
+        prev.map((m) => (ids.has(m.id) ? { ...m, source: "server" } : m))
+      );
+    }
 
     if (itemsToUpload.length === 0) {
       Alert.alert(
@@ -840,37 +804,84 @@ export default function LibraryScreen() {
       return;
     }
 
-    setUploading(true);
-    setUploadTotal(itemsToUpload.length);
-    setUploadIndex(0);
-
-    let successCount = 0;
+    const queueSelected = (overridePolicy: boolean) => {
+      uploadQueue.enqueue(itemsToUpload, { overridePolicy });
+      setSelectedIds(new Set());
+      setSelectMode(false);
+    };
 
-    for (let i = 0; i < itemsToUpload.length; i++) {
-      setUploadIndex(i);
-      const item = itemsToUpload[i];
+    // The backup policy would hold these; let the user push them through
+    if (block) {
+      Alert.alert(
+        block.message,
+        `Upload ${itemsToUpload.length} item(s) now anyway, or queue them ` +
+          "until conditions allow?",
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Queue for later", onPress: () => queueSelected(false) },
+          { text: "Upload now", onPress: () => queueSelected(true) },
+        ]
+      );
+      return;
+    }
 
-      const ok = await uploadOneToNas(item);
+    queueSelected(false);
+  }, [
+    token,
+    media,
+    selectedCount,
+    selectedIds,
+    setMedia,
+    uploadQueue,
+    block,
+  ]);
 
-      if (ok) {
-        successCount++;
-        setMedia((prev) =>
-          prev.map((m) =>
-            m.id === item.id ? { ...m, source: "server" } : m
-          )
+  // Queues NAS items for download into the restore album
+  const saveToPhone = useCallback(
+    async (items: MediaItem[]) => {
+      try {
+        await ensureMediaPermission(true);
+      } catch (err) {
+        Alert.alert(
+          "Can't save to this phone",
+          err instanceof Error ? err.message : String(err)
         );
+        return false;
       }
-    }
 
-    setUploading(false);
-    setSelectedIds(new Set());
-    setSelectMode(false);
+      const added = downloadQueue.enqueue(items);
+      Alert.alert(
+        "Saving to phone",
+        added
+          ? `${added} item(s) will be saved to "${settings.restoreAlbumName}".`
+          : "These items are already being saved.",
+        [
+          { text: "OK" },
+          {
+            text: "View queue",
+            onPress: () => router.push("/download-queue"),
+          },
+        ]
+      );
+      return true;
+    },
+    [downloadQueue, settings.restoreAlbumName, router]
+  );
 
-    Alert.alert(
-      "Upload complete",
-      `Uploaded ${successCount} of ${itemsToUpload.length} item(s) to NAS.`
-    );
-  }, [media, selectedCount, selectedIds, uploadOneToNas]);
+  const handleSaveSelected = useCallback(async () => {
+    if (!selectedServerItems.length) return;
+    if (await saveToPhone(selectedServerItems)) {
+      setSelectedIds(new Set());
+      setSelectMode(false);
+    }
+  }, [selectedServerItems, saveToPhone]);
+
+  const handleSaveCurrent = useCallback(
+    (item: MediaItem) => {
+      saveToPhone([item]);
+    },
+    [saveToPhone]
+  );
 
   // Manual albums
 
@@ -988,7 +999,7 @@ export default function LibraryScreen() {
         m.id === item.id ? { ...m, favorite: !m.favorite } : m
       )
     );
-  }, []);
+  }, [setMedia]);
 
   // Delete from NAS (Step 6)
   const handleDeleteFromNas = useCallback(
@@ -1023,51 +1034,28 @@ export default function LibraryScreen() {
                   ? item.id.slice("server-".length)
                   : item.id;
 
-                const res = await fetch(
-                  `${NAS_BASE_URL}/media/${encodeURIComponent(
-                    serverId
-                  )}`,
-                  {
-                    method: "DELETE",
-                    headers: {
-                      Authorization: `Bearer ${token}`,
-                    },
-                  }
-                );
-
-                if (!res.ok) {
-                  console.warn(
-                    "Delete failed",
-                    await res.text()
-                  );
-                  Alert.alert(
-                    "Error",
-                    "Failed to delete from NAS."
-                  );
-                  return;
-                }
+                await api.deleteMedia(serverId);
 
-                // Remove server version from local state
+                // Remove server version from local state; the phone's copy
+                // follows the deletion policy
                 setMedia((prev) =>
                   prev.filter((m) => m.id !== item.id)
                 );
+                reportServerRemovals([item]);
                 setViewerVisible(false);
               } catch (err) {
                 console.error("Delete error", err);
-                Alert.alert(
-                  "Error",
-                  "Failed to delete from NAS."
-                );
+                Alert.alert("Error", describeNasError(err));
               }
             },
           },
         ]
       );
     },
-    [token]
+    [token, api, setMedia, reportServerRemovals]
   );
 
-  // Opening photos
+  // Opening photos and videos
   const openItem = (allItems: MediaItem[], index: number) => {
     const item = allItems[index];
 
@@ -1081,13 +1069,8 @@ export default function LibraryScreen() {
       return;
     }
 
-    const photos = allItems.filter((i) => i.type === "photo");
-    const clicked = allItems[index];
-    let start = photos.findIndex((p) => p.id === clicked.id);
-    if (start === -1) start = 0;
-
-    setViewerItems(photos);
-    setViewerIndex(start);
+    setViewerItems(allItems);
+    setViewerIndex(index);
     setViewerVisible(true);
   };
 
@@ -1095,353 +1078,486 @@ export default function LibraryScreen() {
   // Render
   // ---------------------------------------------------------------------------
 
-  return (
-    <>
-      <ScreenContainer>
-        <Header title="Library" subtitle="Timeline of backed up media" />
+  const listHeader = (
+    <View
+      onLayout={(e) => setListHeaderHeight(e.nativeEvent.layout.height)}
+    >
+      <Header title="Library" subtitle="Timeline of backed up media" />
+
+      {/* Filters + search + actions + albums */}
+      <View style={styles.card}>
+        <View style={styles.cardHeaderRow}>
+          <Text style={styles.cardTitle}>Filter & sources</Text>
+
+          <TouchableOpacity
+            onPress={toggleSelectMode}
+            style={[
+              styles.selectButton,
+              selectMode && styles.selectButtonActive,
+            ]}
+          >
+            <Text
+              style={[
+                styles.selectButtonText,
+                selectMode && styles.selectButtonTextActive,
+              ]}
+            >
+              {selectMode ? "Cancel" : "Select"}
+            </Text>
+          </TouchableOpacity>
+        </View>
 
-        {/* Filters + search + actions + albums */}
-        <View style={styles.card}>
-          <View style={styles.cardHeaderRow}>
-            <Text style={styles.cardTitle}>Filter & sources</Text>
+        {/* Search (Step 9) */}
+        <View style={styles.searchRow}>
+          <TextInput
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholder="Search by date, time, source, type, favorite..."
+            placeholderTextColor="#6b7280"
+            style={styles.searchInput}
+          />
+        </View>
 
+        <View style={styles.segment}>
+          {(["all", "photos", "videos"] as const).map((key) => (
             <TouchableOpacity
-              onPress={toggleSelectMode}
+              key={key}
+              onPress={() => setFilter(key)}
               style={[
-                styles.selectButton,
-                selectMode && styles.selectButtonActive,
+                styles.segmentItem,
+                filter === key && styles.segmentItemActive,
               ]}
             >
               <Text
                 style={[
-                  styles.selectButtonText,
-                  selectMode && styles.selectButtonTextActive,
+                  styles.segmentItemText,
+                  filter === key && styles.segmentItemTextActive,
                 ]}
               >
-                {selectMode ? "Cancel" : "Select"}
+                {key.toUpperCase()}
               </Text>
             </TouchableOpacity>
-          </View>
+          ))}
+        </View>
+
+        <View style={styles.actionsRow}>
+          <TouchableOpacity
+            onPress={syncFromServer}
+            style={styles.actionButton}
+            disabled={syncing}
+          >
+            <Text style={styles.actionButtonText}>
+              {syncing ? "Syncing..." : "Sync with NAS"}
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            onPress={scanningDevice ? backup.cancelScan : handleScanDevice}
+            style={styles.actionButton}
+          >
+            <Text style={styles.actionButtonText}>
+              {scanningDevice ? "Cancel scan" : "Scan device"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {backup.scanProgress && (
+          <Text style={styles.scanProgressText}>
+            {describeScanProgress(backup.scanProgress)}
+          </Text>
+        )}
+
+        {syncError && (
+          <Text style={styles.syncErrorText}>
+            NAS sync failed: {syncError}
+          </Text>
+        )}
+
+        {/* Albums */}
+        {albums.length > 0 && (
+          <View style={styles.albumsSection}>
+            <View style={styles.albumsHeaderRow}>
+              <Text style={styles.albumsTitle}>Albums</Text>
+              <TouchableOpacity
+                style={styles.albumsNewButton}
+                onPress={handleCreateAlbum}
+              >
+                <Text style={styles.albumsNewButtonText}>+ New album</Text>
+              </TouchableOpacity>
+            </View>
 
-          {/* Search (Step 9) */}
-          <View style={styles.searchRow}>
-            <TextInput
-              value={searchQuery}
-              onChangeText={setSearchQuery}
-              placeholder="Search by date, time, source, type, favorite..."
-              placeholderTextColor="#6b7280"
-              style={styles.searchInput}
-            />
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.albumsScrollContent}
+            >
+              {albums.map((album) => {
+                const isActive =
+                  (activeAlbum?.kind === "smart" &&
+                    album.kind === "smart" &&
+                    activeAlbum.id === album.id) ||
+                  (activeAlbum?.kind === "manual" &&
+                    album.kind === "manual" &&
+                    activeAlbum.id === album.id) ||
+                  (!activeAlbum &&
+                    album.kind === "smart" &&
+                    album.id === "all");
+
+                return (
+                  <TouchableOpacity
+                    key={album.kind + "-" + album.id}
+                    style={[
+                      styles.albumCard,
+                      isActive && styles.albumCardActive,
+                    ]}
+                    onPress={() => handlePressAlbum(album)}
+                    activeOpacity={0.8}
+                  >
+                    {album.cover && (
+                      <MediaImage
+                        item={album.cover}
+                        style={styles.albumCover}
+                      />
+                    )}
+                    <Text style={styles.albumTitle}>{album.title}</Text>
+                    <Text style={styles.albumCount}>
+                      {album.count} item{album.count === 1 ? "" : "s"}
+                    </Text>
+                    {album.kind === "manual" && (
+                      <Text style={styles.albumBadgeManual}>Manual</Text>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
           </View>
+        )}
 
-          <View style={styles.segment}>
-            {(["all", "photos", "videos"] as const).map((key) => (
+        {activeManualAlbum && (
+          <View style={styles.albumEditRow}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.albumEditTitle}>
+                {albumEditMode
+                  ? `Edit "${activeManualAlbum.title}"`
+                  : `Album: ${activeManualAlbum.title}`}
+              </Text>
+              <Text style={styles.albumEditSubtitle}>
+                {albumEditMode
+                  ? "Tap photos to add/remove. Long press one to set cover."
+                  : "Tap Edit to modify album contents."}
+              </Text>
+            </View>
+
+            <View style={styles.albumEditButtonsColumn}>
               <TouchableOpacity
-                key={key}
-                onPress={() => setFilter(key)}
+                onPress={toggleAlbumEditMode}
                 style={[
-                  styles.segmentItem,
-                  filter === key && styles.segmentItemActive,
+                  styles.albumEditButton,
+                  albumEditMode && styles.albumEditButtonActive,
                 ]}
               >
                 <Text
                   style={[
-                    styles.segmentItemText,
-                    filter === key && styles.segmentItemTextActive,
+                    styles.albumEditButtonText,
+                    albumEditMode && styles.albumEditButtonTextActive,
                   ]}
                 >
-                  {key.toUpperCase()}
+                  {albumEditMode ? "Done" : "Edit album"}
                 </Text>
               </TouchableOpacity>
-            ))}
-          </View>
-
-          <View style={styles.actionsRow}>
-            <TouchableOpacity
-              onPress={handleSyncClick}
-              style={styles.actionButton}
-              disabled={syncing}
-            >
-              <Text style={styles.actionButtonText}>
-                {syncing ? "Syncing..." : "Sync (demo + NAS)"}
-              </Text>
-            </TouchableOpacity>
-
-            <TouchableOpacity
-              onPress={handleScanDevice}
-              style={styles.actionButton}
-              disabled={scanningDevice}
-            >
-              <Text style={styles.actionButtonText}>
-                {scanningDevice ? "Scanning..." : "Scan device"}
-              </Text>
-            </TouchableOpacity>
-          </View>
 
-          {/* Albums */}
-          {albums.length > 0 && (
-            <View style={styles.albumsSection}>
-              <View style={styles.albumsHeaderRow}>
-                <Text style={styles.albumsTitle}>Albums</Text>
+              <View style={styles.albumEditSecondaryRow}>
                 <TouchableOpacity
-                  style={styles.albumsNewButton}
-                  onPress={handleCreateAlbum}
+                  onPress={handleStartRenameAlbum}
+                  style={styles.albumEditSecondaryButton}
                 >
-                  <Text style={styles.albumsNewButtonText}>+ New album</Text>
+                  <Text style={styles.albumEditSecondaryText}>Rename</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleDeleteAlbum}
+                  style={styles.albumEditSecondaryButton}
+                >
+                  <Text style={styles.albumEditSecondaryTextDestructive}>
+                    Delete
+                  </Text>
                 </TouchableOpacity>
               </View>
-
-              <ScrollView
-                horizontal
-                showsHorizontalScrollIndicator={false}
-                contentContainerStyle={styles.albumsScrollContent}
-              >
-                {albums.map((album) => {
-                  const isActive =
-                    (activeAlbum?.kind === "smart" &&
-                      album.kind === "smart" &&
-                      activeAlbum.id === album.id) ||
-                    (activeAlbum?.kind === "manual" &&
-                      album.kind === "manual" &&
-                      activeAlbum.id === album.id) ||
-                    (!activeAlbum &&
-                      album.kind === "smart" &&
-                      album.id === "all");
-
-                  return (
-                    <TouchableOpacity
-                      key={album.kind + "-" + album.id}
-                      style={[
-                        styles.albumCard,
-                        isActive && styles.albumCardActive,
-                      ]}
-                      onPress={() => handlePressAlbum(album)}
-                      activeOpacity={0.8}
-                    >
-                      {album.coverUri && (
-                        <Image
-                          source={{ uri: album.coverUri }}
-                          style={styles.albumCover}
-                        />
-                      )}
-                      <Text style={styles.albumTitle}>{album.title}</Text>
-                      <Text style={styles.albumCount}>
-                        {album.count} item{album.count === 1 ? "" : "s"}
-                      </Text>
-                      {album.kind === "manual" && (
-                        <Text style={styles.albumBadgeManual}>Manual</Text>
-                      )}
-                    </TouchableOpacity>
-                  );
-                })}
-              </ScrollView>
             </View>
-          )}
-
-          {activeManualAlbum && (
-            <View style={styles.albumEditRow}>
-              <View style={{ flex: 1 }}>
-                <Text style={styles.albumEditTitle}>
-                  {albumEditMode
-                    ? `Edit "${activeManualAlbum.title}"`
-                    : `Album: ${activeManualAlbum.title}`}
+          </View>
+        )}
+      </View>
+
+      {/* Upload queue */}
+      {(selectMode || queueActive) && (
+        <View style={styles.uploadCard}>
+          <View style={styles.uploadRow}>
+            <View style={{ flex: 1, paddingRight: 8 }}>
+              <Text style={styles.uploadTitle}>Upload to NAS</Text>
+              {selectMode ? (
+                <Text style={styles.uploadSubtitle}>
+                  {selectedCount === 0
+                    ? "Select photos you want to back up."
+                    : `${selectedCount} item(s) selected.`}
                 </Text>
-                <Text style={styles.albumEditSubtitle}>
-                  {albumEditMode
-                    ? "Tap photos to add/remove. Long press one to set cover."
-                    : "Tap Edit to modify album contents."}
+              ) : (
+                <Text style={styles.uploadSubtitle}>
+                  {uploadQueue.paused
+                    ? `Paused · ${queueWaiting} waiting`
+                    : uploadQueue.waitingFor && !queueCounts.uploading
+                    ? `${uploadQueue.waitingFor} · ${queueWaiting} waiting`
+                    : `${queueCounts.done} of ${
+                        queueCounts.done + queueWaiting
+                      } uploaded`}
+                  {queueCounts.bytesTotal
+                    ? ` · ${formatBytes(queueCounts.bytesSent)} of ${formatBytes(
+                        queueCounts.bytesTotal
+                      )}`
+                    : ""}
+                  {queueCounts.failed
+                    ? ` · ${queueCounts.failed} failed`
+                    : ""}
+                  {queueSpeed ? `\n${queueSpeed}` : ""}
                 </Text>
-              </View>
-
-              <View style={styles.albumEditButtonsColumn}>
+              )}
+            </View>
+            {selectMode ? (
+              <View style={styles.uploadActions}>
                 <TouchableOpacity
-                  onPress={toggleAlbumEditMode}
                   style={[
-                    styles.albumEditButton,
-                    albumEditMode && styles.albumEditButtonActive,
+                    styles.uploadButton,
+                    selectedCount === 0 && { opacity: 0.6 },
                   ]}
+                  onPress={handleUploadSelected}
+                  disabled={selectedCount === 0}
                 >
-                  <Text
-                    style={[
-                      styles.albumEditButtonText,
-                      albumEditMode && styles.albumEditButtonTextActive,
-                    ]}
-                  >
-                    {albumEditMode ? "Done" : "Edit album"}
-                  </Text>
+                  <Text style={styles.uploadButtonText}>Upload to NAS</Text>
                 </TouchableOpacity>
-
-                <View style={styles.albumEditSecondaryRow}>
-                  <TouchableOpacity
-                    onPress={handleStartRenameAlbum}
-                    style={styles.albumEditSecondaryButton}
-                  >
-                    <Text style={styles.albumEditSecondaryText}>Rename</Text>
-                  </TouchableOpacity>
+                {selectedServerItems.length > 0 && (
                   <TouchableOpacity
-                    onPress={handleDeleteAlbum}
-                    style={styles.albumEditSecondaryButton}
+                    style={styles.uploadSecondaryButton}
+                    onPress={handleSaveSelected}
                   >
-                    <Text style={styles.albumEditSecondaryTextDestructive}>
-                      Delete
+                    <Text style={styles.uploadSecondaryButtonText}>
+                      Save {selectedServerItems.length} to phone
                     </Text>
                   </TouchableOpacity>
-                </View>
-              </View>
-            </View>
-          )}
-        </View>
-
-        {/* Upload queue */}
-        {(selectMode || uploading) && (
-          <View style={styles.uploadCard}>
-            <View style={styles.uploadRow}>
-              <View style={{ flex: 1, paddingRight: 8 }}>
-                <Text style={styles.uploadTitle}>Upload to NAS</Text>
-                {!uploading ? (
-                  <Text style={styles.uploadSubtitle}>
-                    {selectedCount === 0
-                      ? "Select photos you want to back up."
-                      : `${selectedCount} item(s) selected.`}
-                  </Text>
-                ) : (
-                  <Text style={styles.uploadSubtitle}>
-                    Uploading {uploadIndex + 1} of {uploadTotal}...
-                  </Text>
                 )}
               </View>
+            ) : (
               <TouchableOpacity
-                style={[
-                  styles.uploadButton,
-                  (selectedCount === 0 || uploading) && { opacity: 0.6 },
-                ]}
-                onPress={handleUploadSelected}
-                disabled={selectedCount === 0 || uploading}
+                style={styles.uploadSecondaryButton}
+                onPress={
+                  uploadQueue.paused ? uploadQueue.resume : uploadQueue.pause
+                }
               >
-                <Text style={styles.uploadButtonText}>
-                  {uploading ? "Uploading..." : "Upload to NAS"}
+                <Text style={styles.uploadSecondaryButtonText}>
+                  {uploadQueue.paused ? "Resume" : "Pause"}
                 </Text>
               </TouchableOpacity>
+            )}
+          </View>
+          <TouchableOpacity onPress={() => router.push("/upload-queue")}>
+            <Text style={styles.uploadLink}>View queue ›</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Timeline grouping + jump */}
+      <View style={styles.timelineControls}>
+        <View style={[styles.segment, styles.groupingSegment]}>
+          {TIMELINE_GROUPINGS.map((key) => (
+            <TouchableOpacity
+              key={key}
+              onPress={() => setGrouping(key)}
+              style={[
+                styles.segmentItem,
+                grouping === key && styles.segmentItemActive,
+              ]}
+            >
+              <Text
+                style={[
+                  styles.segmentItemText,
+                  grouping === key && styles.segmentItemTextActive,
+                ]}
+              >
+                {GROUPING_LABELS[key]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TouchableOpacity
+          style={[styles.jumpButton, !months.length && { opacity: 0.6 }]}
+          onPress={() => setJumpVisible(true)}
+          disabled={!months.length}
+        >
+          <Text style={styles.jumpButtonText}>Jump to date</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const showSourceBadges = cellSize >= BADGE_MIN_CELL_SIZE;
+
+  const renderCell = (item: MediaItem, index: number) => {
+    const isInActiveManualAlbum =
+      !!activeManualAlbum && activeManualAlbum.mediaIds.includes(item.id);
+    const isCover =
+      !!activeManualAlbum && activeManualAlbum.coverMediaId === item.id;
+    const isSelectedForUpload = selectedIds.has(item.id);
+
+    return (
+      <TouchableOpacity
+        key={item.id}
+        style={[
+          styles.gridItem,
+          { width: cellSize, height: cellSize },
+          albumEditMode &&
+            activeManualAlbum &&
+            isInActiveManualAlbum &&
+            styles.gridItemSelected,
+          !albumEditMode &&
+            selectMode &&
+            isSelectedForUpload &&
+            styles.gridItemSelected,
+        ]}
+        activeOpacity={0.8}
+        onPress={() => openItem(timeline.items, index)}
+        onLongPress={() => {
+          if (albumEditMode && activeManualAlbum) {
+            handleSetCoverForActiveAlbum(item.id);
+          }
+        }}
+      >
+        <MediaImage item={item} style={styles.gridImage} />
+        {item.type === "video" && (
+          <View style={styles.videoBadge}>
+            <Text style={styles.videoBadgeIcon}>▶</Text>
+          </View>
+        )}
+        {showSourceBadges && item.source === "device" && (
+          <View style={styles.deviceBadge}>
+            <Text style={styles.deviceBadgeText}>Device</Text>
+          </View>
+        )}
+        {showSourceBadges && item.source === "server" && (
+          <View style={styles.serverBadge}>
+            <Text style={styles.serverBadgeText}>Server</Text>
+          </View>
+        )}
+        {item.favorite && (
+          <View style={styles.favoriteBadge}>
+            <Text style={styles.favoriteBadgeText}>♥</Text>
+          </View>
+        )}
+        {albumEditMode && activeManualAlbum && isInActiveManualAlbum && (
+          <View style={styles.selectedOverlay}>
+            <View style={styles.checkbox}>
+              <Text style={styles.checkboxText}>✓</Text>
             </View>
           </View>
         )}
-
-        {/* Content */}
-        {groups.length === 0 ? (
-          <View style={styles.emptyState}>
-            <Text style={styles.emptyTitle}>No media</Text>
-            <Text style={styles.emptySubtitle}>
-              Try another filter, syncing, or scanning your device.
-            </Text>
+        {!albumEditMode && selectMode && isSelectedForUpload && (
+          <View style={styles.selectedOverlay}>
+            <View style={styles.checkbox}>
+              <Text style={styles.checkboxText}>✓</Text>
+            </View>
+          </View>
+        )}
+        {albumEditMode && activeManualAlbum && isCover && (
+          <View style={styles.coverBadge}>
+            <Text style={styles.coverBadgeText}>Cover</Text>
           </View>
-        ) : (
-          <ScrollView
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <>
+      <ScreenContainer scrollable={false}>
+        <GestureDetector gesture={timelineGesture}>
+          <SectionList
+            ref={listRef}
+            sections={timeline.sections}
+            keyExtractor={(row) => row.key}
+            ListHeaderComponent={listHeader}
+            ListEmptyComponent={
+              !catalogLoaded ? (
+                <View style={styles.emptyState}>
+                  <Text style={styles.emptySubtitle}>Loading library…</Text>
+                </View>
+              ) : (
+                <View style={styles.emptyState}>
+                  <Text style={styles.emptyTitle}>No media</Text>
+                  <Text style={styles.emptySubtitle}>
+                    Try another filter, syncing, or scanning your device.
+                  </Text>
+                </View>
+              )
+            }
+            renderSectionHeader={({ section }) => (
+              <View
+                style={[
+                  styles.sectionHeader,
+                  { backgroundColor: colors.background },
+                ]}
+              >
+                <Text style={styles.sectionHeaderTitle}>{section.title}</Text>
+                <Text style={styles.sectionHeaderCount}>
+                  {section.count} item{section.count === 1 ? "" : "s"}
+                </Text>
+              </View>
+            )}
+            renderItem={({ item: row }) => (
+              <View style={styles.gridRow}>
+                {row.items.map((item, i) =>
+                  renderCell(item, row.firstIndex + i)
+                )}
+              </View>
+            )}
+            getItemLayout={getItemLayout}
+            stickySectionHeadersEnabled
+            // Roughly a screen and a half of rows each side; cells outside
+            // the window are unmounted so memory stays flat on huge libraries
+            initialNumToRender={12}
+            maxToRenderPerBatch={8}
+            windowSize={7}
+            removeClippedSubviews
             showsVerticalScrollIndicator={false}
+            onViewableItemsChanged={handleViewableItemsChanged}
+            // The scrubber would sit on top of the filter card's buttons
+            onScroll={(e) => {
+              scrollY.current = e.nativeEvent.contentOffset.y;
+              setPastListHeader(
+                listHeaderHeight > 0 &&
+                  scrollY.current >= listHeaderHeight - 1
+              );
+            }}
+            scrollEventThrottle={100}
             refreshControl={
-              <RefreshControl
-                refreshing={refreshing}
-                onRefresh={handleRefresh}
-              />
+              <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
             }
-          >
-            {groups.map((group) => (
-              <View key={group.group} style={styles.dateGroup}>
-                <Text style={styles.dateGroupTitle}>{group.group}</Text>
-                <FlatList
-                  data={group.items}
-                  keyExtractor={(item) => item.id}
-                  numColumns={3}
-                  scrollEnabled={false}
-                  columnWrapperStyle={styles.gridRow}
-                  renderItem={({ item, index }) => {
-                    const isInActiveManualAlbum =
-                      !!activeManualAlbum &&
-                      activeManualAlbum.mediaIds.includes(item.id);
-                    const isCover =
-                      !!activeManualAlbum &&
-                      activeManualAlbum.coverMediaId === item.id;
-                    const isSelectedForUpload = selectedIds.has(item.id);
-
-                    return (
-                      <TouchableOpacity
-                        style={[
-                          styles.gridItem,
-                          albumEditMode &&
-                            activeManualAlbum &&
-                            isInActiveManualAlbum &&
-                            styles.gridItemSelected,
-                          !albumEditMode &&
-                            selectMode &&
-                            isSelectedForUpload &&
-                            styles.gridItemSelected,
-                        ]}
-                        activeOpacity={0.8}
-                        onPress={() => openItem(group.items, index)}
-                        onLongPress={() => {
-                          if (albumEditMode && activeManualAlbum) {
-                            handleSetCoverForActiveAlbum(item.id);
-                          }
-                        }}
-                      >
-                        <Image
-                          source={{ uri: item.uri }}
-                          style={styles.gridImage}
-                        />
-                        {item.type === "video" && (
-                          <View style={styles.videoBadge}>
-                            <Text style={styles.videoBadgeIcon}>▶</Text>
-                          </View>
-                        )}
-                        {item.source === "device" && (
-                          <View style={styles.deviceBadge}>
-                            <Text style={styles.deviceBadgeText}>Device</Text>
-                          </View>
-                        )}
-                        {item.source === "server" && (
-                          <View style={styles.serverBadge}>
-                            <Text style={styles.serverBadgeText}>Server</Text>
-                          </View>
-                        )}
-                        {item.favorite && (
-                          <View style={styles.favoriteBadge}>
-                            <Text style={styles.favoriteBadgeText}>♥</Text>
-                          </View>
-                        )}
-                        {albumEditMode &&
-                          activeManualAlbum &&
-                          isInActiveManualAlbum && (
-                            <View style={styles.selectedOverlay}>
-                              <View style={styles.checkbox}>
-                                <Text style={styles.checkboxText}>✓</Text>
-                              </View>
-                            </View>
-                          )}
-                        {!albumEditMode &&
-                          selectMode &&
-                          isSelectedForUpload && (
-                            <View style={styles.selectedOverlay}>
-                              <View style={styles.checkbox}>
-                                <Text style={styles.checkboxText}>✓</Text>
-                              </View>
-                            </View>
-                          )}
-                        {albumEditMode &&
-                          activeManualAlbum &&
-                          isCover && (
-                            <View style={styles.coverBadge}>
-                              <Text style={styles.coverBadgeText}>Cover</Text>
-                            </View>
-                          )}
-                      </TouchableOpacity>
-                    );
-                  }}
-                />
-              </View>
-            ))}
-          </ScrollView>
+          />
+        </GestureDetector>
+
+        {pastListHeader && timeline.items.length >= SCRUBBER_MIN_ITEMS && (
+          <TimelineScrubber
+            marks={marks}
+            total={timeline.items.length}
+            topIndex={topIndex}
+            labelFor={scrubberLabel}
+            onScrub={scrollToItem}
+          />
         )}
       </ScreenContainer>
 
+      <JumpToDate
+        visible={jumpVisible}
+        months={months}
+        onSelect={handleJumpToMonth}
+        onClose={() => setJumpVisible(false)}
+      />
+
       {/* Fullscreen viewer */}
       {viewerVisible && (
         <FullscreenViewer
@@ -1451,6 +1567,7 @@ export default function LibraryScreen() {
           onRequestClose={() => setViewerVisible(false)}
           onToggleFavorite={handleToggleFavorite}
           onDeleteCurrent={handleDeleteFromNas}
+          onSaveCurrent={handleSaveCurrent}
         />
       )}
 
@@ -1544,6 +1661,16 @@ const styles = StyleSheet.create({
     color: "#38bdf8",
     fontWeight: "600",
   },
+  scanProgressText: {
+    fontSize: 12,
+    color: "#9ca3af",
+    marginBottom: 8,
+  },
+  syncErrorText: {
+    marginTop: 8,
+    fontSize: 12,
+    color: "#f97373",
+  },
   selectButton: {
     borderRadius: 999,
     borderWidth: 1,
@@ -1596,6 +1723,27 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: "#0f172a",
   },
+  uploadActions: {
+    gap: 6,
+    alignItems: "flex-end",
+  },
+  uploadSecondaryButton: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#38bdf8",
+    paddingVertical: 7,
+    paddingHorizontal: 12,
+  },
+  uploadSecondaryButtonText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#38bdf8",
+  },
+  uploadLink: {
+    fontSize: 12,
+    color: "#38bdf8",
+    marginTop: 10,
+  },
   albumsSection: {
     marginTop: 14,
   },
@@ -1730,23 +1878,48 @@ const styles = StyleSheet.create({
     fontSize: 11,
     color: "#f97373",
   },
-  dateGroup: {
-    marginBottom: 16,
+  timelineControls: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 4,
+  },
+  groupingSegment: {
+    flex: 1,
+  },
+  jumpButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 7,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#38bdf8",
   },
-  dateGroupTitle: {
+  jumpButtonText: {
+    fontSize: 12,
+    color: "#38bdf8",
+    fontWeight: "600",
+  },
+  sectionHeader: {
+    height: SECTION_HEADER_HEIGHT,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  sectionHeaderTitle: {
     color: "#e5e7eb",
     fontSize: 14,
     fontWeight: "600",
-    marginBottom: 8,
+  },
+  sectionHeaderCount: {
+    color: "#6b7280",
+    fontSize: 12,
   },
   gridRow: {
-    justifyContent: "space-between",
+    flexDirection: "row",
+    gap: GRID_GAP,
+    marginBottom: GRID_GAP,
   },
   gridItem: {
-    flex: 1,
-    aspectRatio: 1,
-    marginBottom: 4,
-    marginHorizontal: 1,
     borderRadius: 10,
     overflow: "hidden",
   },
@@ -1918,6 +2091,11 @@ const styles = StyleSheet.create({
   viewerIconTextActive: {
     color: "#f97373",
   },
+  viewerSaveText: {
+    color: "#e5e7eb",
+    fontSize: 13,
+    fontWeight: "600",
+  },
   viewerDeleteButton: {
     paddingHorizontal: 10,
     paddingVertical: 6,
@@ -1949,6 +2127,12 @@ const styles = StyleSheet.create({
     borderRadius: 999,
     backgroundColor: "rgba(0,0,0,0.6)",
   },
+  viewerFileName: {
+    color: "white",
+    fontSize: 13,
+    fontWeight: "600",
+    marginBottom: 2,
+  },
   viewerMetaText: {
     color: "white",
     fontSize: 12,
@@ -1,4 +1,5 @@
 // app/(tabs)/people.tsx
+import { Image } from "expo-image";
 import React, {
   useCallback,
   useMemo,
@@ -6,7 +7,6 @@ import React, {
 } from "react";
 import {
   FlatList,
-  Image,
   Modal,
   Pressable,
   ScrollView,
@@ -21,6 +21,7 @@ import { Header, ScreenContainer } from "./_components";
 type MediaItem = {
   id: string;
   uri: string;
+  thumbnailUri: string; // what the grid loads
 };
 
 type Person = {
@@ -75,6 +76,7 @@ function makeMockMedia(seed: string, count: number): MediaItem[] {
   return Array.from({ length: count }).map((_, idx) => ({
     id: `${seed}-${idx}`,
     uri: `https://picsum.photos/400?random=${seed.length * 10 + idx}`,
+    thumbnailUri: `https://picsum.photos/200?random=${seed.length * 10 + idx}`,
   }));
 }
 
@@ -237,6 +239,8 @@ export default function PeopleScreen() {
                     <Image
                       source={{ uri: p.avatarUri }}
                       style={styles.personImage}
+                      cachePolicy="memory-disk"
+                      recyclingKey={p.id}
                     />
                     {!p.isKnown && (
                       <View style={styles.personBadge}>
@@ -272,6 +276,7 @@ export default function PeopleScreen() {
                   <Image
                     source={{ uri: selectedPerson.avatarUri }}
                     style={styles.modalAvatar}
+                    cachePolicy="memory-disk"
                   />
                   <View style={{ flex: 1 }}>
                     <Text style={styles.modalLabel}>Name</Text>
@@ -319,7 +324,12 @@ export default function PeopleScreen() {
                 contentContainerStyle={{ paddingTop: 6, paddingBottom: 8 }}
                 renderItem={({ item }) => (
                   <View style={styles.gridItem}>
-                    <Image source={{ uri: item.uri }} style={styles.gridImage} />
+                    <Image
+                      source={{ uri: item.thumbnailUri }}
+                      style={styles.gridImage}
+                      cachePolicy="memory-disk"
+                      recyclingKey={item.id}
+                    />
                   </View>
                 )}
               />
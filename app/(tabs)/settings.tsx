@@ -1,32 +1,161 @@
 // app/(tabs)/settings.tsx
 import { useTheme } from "@react-navigation/native";
 import { useRouter } from "expo-router";
-import React, { useContext, useState } from "react";
+import React, { useContext, useEffect, useState } from "react";
 import {
+  Alert,
   StyleSheet,
   Switch,
   Text,
+  TextInput,
   TouchableOpacity,
   View,
 } from "react-native";
+import { DeviceAlbumsPicker } from "@/components/device-albums-picker";
+import { ServerProfilesEditor } from "@/components/server-profiles-editor";
+import {
+  BATTERY_THRESHOLD_OPTIONS,
+  DELETION_POLICIES,
+  DeletionPolicy,
+  MAX_UPLOAD_CONCURRENCY,
+  MIN_UPLOAD_CONCURRENCY,
+} from "@/lib/app-settings";
+import { ensureMediaPermission } from "@/lib/device-library";
+import { missingFromDevice } from "@/lib/download-queue";
+import {
+  configureMockNas,
+  isDemoBaseUrl,
+  MOCK_NAS_CONDITIONS,
+  MOCK_NAS_PRESETS,
+  MockNasConditions,
+  resetMockNas,
+} from "@/lib/mock-nas";
+import { describeNasError } from "@/lib/nas-api";
 import { AuthContext } from "../auth-context";
+import { useBackupPolicy } from "../backup-policy-context";
+import { useCatalog } from "../catalog-context";
+import { useDeletionReview } from "../deletion-review-context";
+import { useDownloadQueue } from "../download-queue-context";
+import { useServer } from "../server-context";
+import { useServerSync } from "../server-sync-context";
+import { useSettings } from "../settings-context";
 import { ThemeModeContext } from "../theme-context";
 import { Header, ScreenContainer } from "./_components";
 
-export default function SettingsScreen() {
-  const [wifiOnly, setWifiOnly] = useState(true);
-  const [backupOnOpen, setBackupOnOpen] = useState(true);
+const DELETION_POLICY_LABELS: Record<DeletionPolicy, string> = {
+  ask: "Ask me",
+  mirror: "Mirror",
+  never: "Never",
+};
+
+const DELETION_POLICY_HINTS: Record<DeletionPolicy, string> = {
+  ask: "Deletions on one side are listed for you to review first.",
+  mirror:
+    "Deleting on the phone deletes from the NAS, and the other way round. " +
+    "Each deletion waits an hour in Review deletions so you can keep it.",
+  never: "Deleting on one side never touches the other copy.",
+};
 
+const DEMO_CONDITION_LABELS: Record<MockNasConditions, string> = {
+  normal: "Normal",
+  slow: "Slow",
+  flaky: "Flaky",
+};
+
+export default function SettingsScreen() {
   const auth = useContext(AuthContext);
   const themeMode = useContext(ThemeModeContext);
+  const { activeProfile } = useServer();
+  const { settings, updateSettings } = useSettings();
+  const { block } = useBackupPolicy();
+  const { sync, syncing } = useServerSync();
+  const { candidates: deletionCandidates } = useDeletionReview();
+  const { media } = useCatalog();
+  const downloads = useDownloadQueue();
   const router = useRouter();
   const { colors } = useTheme();
 
+  // Edited locally and saved when the field loses focus, so a half-typed
+  // name never becomes the album new downloads go into
+  const [albumDraft, setAlbumDraft] = useState(settings.restoreAlbumName);
+  useEffect(() => {
+    setAlbumDraft(settings.restoreAlbumName);
+  }, [settings.restoreAlbumName]);
+
+  const commitAlbumName = () => {
+    const name = albumDraft.trim();
+    if (name) updateSettings({ restoreAlbumName: name });
+    else setAlbumDraft(settings.restoreAlbumName);
+  };
+
   const handleLogout = () => {
     auth?.logout();
     router.replace("/login");
   };
 
+  const handleFullResync = async (reset = false) => {
+    try {
+      const items = await sync({ full: true, reset });
+      Alert.alert("Library resynced", `${items.length} item(s) on the NAS.`);
+    } catch (err) {
+      Alert.alert("Resync failed", describeNasError(err));
+    }
+  };
+
+  const handleResetDemo = () => {
+    Alert.alert(
+      "Reset demo server",
+      "Put the demo library back to its sample photos? Uploads and accounts registered on it are removed.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Reset",
+          style: "destructive",
+          onPress: () => {
+            resetMockNas();
+            configureMockNas(MOCK_NAS_PRESETS[settings.demoConditions]);
+            handleFullResync(true);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRestoreEverything = async () => {
+    try {
+      await ensureMediaPermission(true);
+    } catch (err) {
+      Alert.alert(
+        "Can't save to this phone",
+        err instanceof Error ? err.message : String(err)
+      );
+      return;
+    }
+
+    const missing = missingFromDevice(media);
+    if (!missing.length) {
+      Alert.alert(
+        "Nothing to restore",
+        "Everything on the NAS is already on this phone."
+      );
+      return;
+    }
+    Alert.alert(
+      "Restore everything",
+      `Download ${missing.length} item(s) from the NAS into "${settings.restoreAlbumName}"?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Restore",
+          onPress: () => {
+            downloads.enqueue(missing);
+            router.push("/download-queue");
+          },
+        },
+      ]
+    );
+  };
+
   const isDark = themeMode?.mode === "dark";
 
   return (
@@ -72,13 +201,69 @@ export default function SettingsScreen() {
       >
         <Text style={[styles.cardTitle, { color: colors.text }]}>Server</Text>
         <Text style={styles.settingsLabel}>Server URL</Text>
-        <Text style={styles.settingsValue}>
-          https://photos.my-home-server.local
-        </Text>
+        <Text style={styles.settingsValue}>{activeProfile.baseUrl}</Text>
         <View style={styles.pillStatus}>
           <Text style={styles.pillDot}>●</Text>
-          <Text style={styles.pillText}>Connected</Text>
+          <Text style={styles.pillText}>{activeProfile.name}</Text>
         </View>
+
+        <Text style={styles.settingsLabel}>Saved servers</Text>
+        <Text style={styles.settingsHint}>
+          Each server keeps its own login. Switching may ask you to sign in.
+        </Text>
+        <ServerProfilesEditor />
+
+        <Text style={styles.settingsLabel}>Resync library</Text>
+        <Text style={styles.settingsHint}>
+          Normally only changes are fetched. Download the full media list
+          again if the library looks out of date.
+        </Text>
+        <TouchableOpacity
+          style={styles.outlineButton}
+          onPress={() => handleFullResync()}
+          disabled={syncing}
+        >
+          <Text style={styles.outlineButtonText}>
+            {syncing ? "Syncing..." : "Full resync"}
+          </Text>
+        </TouchableOpacity>
+
+        {isDemoBaseUrl(activeProfile.baseUrl) && (
+          <>
+            <Text style={styles.settingsLabel}>Demo network</Text>
+            <Text style={styles.settingsHint}>
+              Make the demo server slow or have it fail some requests, to see
+              how retries and back-off behave.
+            </Text>
+            <View style={styles.chipRow}>
+              {MOCK_NAS_CONDITIONS.map((conditions) => {
+                const active = settings.demoConditions === conditions;
+                return (
+                  <TouchableOpacity
+                    key={conditions}
+                    style={[styles.chip, active && styles.chipActive]}
+                    onPress={() =>
+                      updateSettings({ demoConditions: conditions })
+                    }
+                  >
+                    <Text
+                      style={[styles.chipText, active && styles.chipTextActive]}
+                    >
+                      {DEMO_CONDITION_LABELS[conditions]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <TouchableOpacity
+              style={styles.outlineButton}
+              onPress={handleResetDemo}
+              disabled={syncing}
+            >
+              <Text style={styles.outlineButtonText}>Reset demo data</Text>
+            </TouchableOpacity>
+          </>
+        )}
       </View>
 
       {/* Backup */}
@@ -94,12 +279,13 @@ export default function SettingsScreen() {
           <View style={{ flex: 1, paddingRight: 8 }}>
             <Text style={styles.settingsLabel}>Backup on app open</Text>
             <Text style={styles.settingsHint}>
-              Scan for new media each time you open the app.
+              Scan for new media each time you open the app and queue it
+              for upload.
             </Text>
           </View>
           <Switch
-            value={backupOnOpen}
-            onValueChange={setBackupOnOpen}
+            value={settings.backupOnOpen}
+            onValueChange={(value) => updateSettings({ backupOnOpen: value })}
           />
         </View>
 
@@ -111,10 +297,189 @@ export default function SettingsScreen() {
             </Text>
           </View>
           <Switch
-            value={wifiOnly}
-            onValueChange={setWifiOnly}
+            value={settings.wifiOnly}
+            onValueChange={(value) => updateSettings({ wifiOnly: value })}
           />
         </View>
+
+        <View style={styles.toggleRow}>
+          <View style={{ flex: 1, paddingRight: 8 }}>
+            <Text style={styles.settingsLabel}>Only while charging</Text>
+            <Text style={styles.settingsHint}>
+              Hold uploads until the phone is plugged in.
+            </Text>
+          </View>
+          <Switch
+            value={settings.chargingOnly}
+            onValueChange={(value) => updateSettings({ chargingOnly: value })}
+          />
+        </View>
+
+        <Text style={styles.settingsLabel}>Minimum battery</Text>
+        <Text style={styles.settingsHint}>
+          Pause uploads on battery power below this level.
+        </Text>
+        <View style={styles.chipRow}>
+          {BATTERY_THRESHOLD_OPTIONS.map((percent) => {
+            const active = settings.minBatteryPercent === percent;
+            return (
+              <TouchableOpacity
+                key={percent}
+                style={[styles.chip, active && styles.chipActive]}
+                onPress={() => updateSettings({ minBatteryPercent: percent })}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                  {percent === 0 ? "No limit" : `${percent}%`}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {block ? (
+          <Text style={styles.policyNotice}>
+            {block.message}. Queued uploads will resume automatically.
+          </Text>
+        ) : null}
+
+        <View style={styles.toggleRow}>
+          <View style={{ flex: 1, paddingRight: 8 }}>
+            <Text style={styles.settingsLabel}>Parallel uploads</Text>
+            <Text style={styles.settingsHint}>
+              More is faster on a good connection. Backs off automatically if
+              the server struggles.
+            </Text>
+          </View>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() =>
+                updateSettings({
+                  uploadConcurrency: settings.uploadConcurrency - 1,
+                })
+              }
+              disabled={settings.uploadConcurrency <= MIN_UPLOAD_CONCURRENCY}
+            >
+              <Text style={styles.stepperButtonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.stepperValue}>
+              {settings.uploadConcurrency}
+            </Text>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() =>
+                updateSettings({
+                  uploadConcurrency: settings.uploadConcurrency + 1,
+                })
+              }
+              disabled={settings.uploadConcurrency >= MAX_UPLOAD_CONCURRENCY}
+            >
+              <Text style={styles.stepperButtonText}>+</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+
+      {/* Deletions */}
+      <View
+        style={[
+          styles.card,
+          { backgroundColor: colors.card, borderColor: colors.border },
+        ]}
+      >
+        <Text style={[styles.cardTitle, { color: colors.text }]}>
+          Deletions
+        </Text>
+        <Text style={styles.settingsHint}>
+          {DELETION_POLICY_HINTS[settings.deletionPolicy]}
+        </Text>
+        <View style={styles.chipRow}>
+          {DELETION_POLICIES.map((policy) => {
+            const active = settings.deletionPolicy === policy;
+            return (
+              <TouchableOpacity
+                key={policy}
+                style={[styles.chip, active && styles.chipActive]}
+                onPress={() => updateSettings({ deletionPolicy: policy })}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                  {DELETION_POLICY_LABELS[policy]}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        {deletionCandidates.length > 0 && (
+          <TouchableOpacity
+            style={styles.outlineButton}
+            onPress={() => router.push("/deletion-review")}
+          >
+            <Text style={styles.outlineButtonText}>
+              Review {deletionCandidates.length} deletion(s)
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Device albums */}
+      <View
+        style={[
+          styles.card,
+          { backgroundColor: colors.card, borderColor: colors.border },
+        ]}
+      >
+        <Text style={[styles.cardTitle, { color: colors.text }]}>
+          Albums to back up
+        </Text>
+        <Text style={styles.settingsHint}>
+          Leave out albums like Screenshots or WhatsApp. Photos in them stay on
+          your phone and aren&apos;t counted on Home.
+        </Text>
+        <DeviceAlbumsPicker />
+      </View>
+
+      {/* Restore */}
+      <View
+        style={[
+          styles.card,
+          { backgroundColor: colors.card, borderColor: colors.border },
+        ]}
+      >
+        <Text style={[styles.cardTitle, { color: colors.text }]}>Restore</Text>
+        <Text style={styles.settingsHint}>
+          Photos saved from the NAS go into this album on your phone, dated
+          when they were taken. Videos and non-JPEG photos with no date of
+          their own show the day they were saved.
+        </Text>
+        <Text style={styles.settingsLabel}>Album name</Text>
+        <TextInput
+          value={albumDraft}
+          onChangeText={setAlbumDraft}
+          onEndEditing={commitAlbumName}
+          placeholder="Restored from NAS"
+          placeholderTextColor="#6b7280"
+          style={styles.input}
+        />
+        <View style={styles.chipRow}>
+          <TouchableOpacity
+            style={styles.outlineButton}
+            onPress={handleRestoreEverything}
+          >
+            <Text style={styles.outlineButtonText}>Restore everything</Text>
+          </TouchableOpacity>
+          {downloads.counts.total > 0 && (
+            <TouchableOpacity
+              style={styles.outlineButton}
+              onPress={() => router.push("/download-queue")}
+            >
+              <Text style={styles.outlineButtonText}>
+                {downloads.counts.queued + downloads.counts.downloading > 0
+                  ? `Saving ${downloads.counts.queued + downloads.counts.downloading} item(s) ›`
+                  : "Download queue ›"}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
       </View>
 
       {/* Account */}
@@ -175,6 +540,84 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginTop: 12,
   },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  chipActive: {
+    borderColor: "#38bdf8",
+    backgroundColor: "#0f172a",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#9ca3af",
+  },
+  chipTextActive: {
+    color: "#38bdf8",
+  },
+  policyNotice: {
+    fontSize: 12,
+    color: "#fbbf24",
+    marginTop: 12,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  stepperButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#374151",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepperButtonText: {
+    fontSize: 16,
+    color: "#e5e7eb",
+  },
+  stepperValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#e5e7eb",
+    minWidth: 16,
+    textAlign: "center",
+  },
+  input: {
+    marginTop: 4,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#1f2933",
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: "#e5e7eb",
+    fontSize: 13,
+  },
+  outlineButton: {
+    alignSelf: "flex-start",
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#38bdf8",
+  },
+  outlineButtonText: {
+    fontSize: 12,
+    color: "#38bdf8",
+    fontWeight: "600",
+  },
   secondaryButton: {
     marginTop: 14,
     paddingVertical: 10,
@@ -10,7 +10,16 @@ import "react-native-gesture-handler"; // 👈 important for gesture-handler
 import { GestureHandlerRootView } from "react-native-gesture-handler"; // 👈 new
 import "react-native-url-polyfill/auto";
 import { AuthProvider } from "./auth-context";
+import { BackupProvider } from "./backup-context";
+import { BackupPolicyProvider } from "./backup-policy-context";
+import { CatalogProvider } from "./catalog-context";
+import { DeletionReviewProvider } from "./deletion-review-context";
+import { DownloadQueueProvider } from "./download-queue-context";
+import { ServerProvider } from "./server-context";
+import { ServerSyncProvider } from "./server-sync-context";
+import { SettingsProvider } from "./settings-context";
 import { ThemeModeContext, ThemeModeProvider } from "./theme-context";
+import { UploadQueueProvider } from "./upload-queue-context";
 
 // Dark + light theme definitions
 const customDarkTheme = {
@@ -42,27 +51,51 @@ const customLightTheme = {
 export default function RootLayout() {
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
-      <AuthProvider>
-        <ThemeModeProvider>
-          <ThemeModeContext.Consumer>
-            {(themeMode) => {
-              const navTheme =
-                themeMode?.mode === "light" ? customLightTheme : customDarkTheme;
+      <SettingsProvider>
+        <BackupPolicyProvider>
+          <ServerProvider>
+            <AuthProvider>
+              <CatalogProvider>
+                <DeletionReviewProvider>
+                  <ServerSyncProvider>
+                    <UploadQueueProvider>
+                      <DownloadQueueProvider>
+                        <BackupProvider>
+                          <ThemeModeProvider>
+                            <ThemeModeContext.Consumer>
+                              {(themeMode) => {
+                                const navTheme =
+                                  themeMode?.mode === "light"
+                                    ? customLightTheme
+                                    : customDarkTheme;
 
-              return (
-                <NavThemeProvider value={navTheme}>
-                  <Stack screenOptions={{ headerShown: false }}>
-                    {/* index decides login vs tabs */}
-                    <Stack.Screen name="index" />
-                    <Stack.Screen name="login" />
-                    <Stack.Screen name="(tabs)" />
-                  </Stack>
-                </NavThemeProvider>
-              );
-            }}
-          </ThemeModeContext.Consumer>
-        </ThemeModeProvider>
-      </AuthProvider>
+                                return (
+                                  <NavThemeProvider value={navTheme}>
+                                    <Stack screenOptions={{ headerShown: false }}>
+                                      {/* index decides login vs tabs */}
+                                      <Stack.Screen name="index" />
+                                      <Stack.Screen name="login" />
+                                      <Stack.Screen name="(tabs)" />
+                                      <Stack.Screen name="upload-queue" />
+                                      <Stack.Screen name="download-queue" />
+                                      <Stack.Screen name="deletion-review" />
+                                      <Stack.Screen name="free-up-space" />
+                                    </Stack>
+                                  </NavThemeProvider>
+                                );
+                              }}
+                            </ThemeModeContext.Consumer>
+                          </ThemeModeProvider>
+                        </BackupProvider>
+                      </DownloadQueueProvider>
+                    </UploadQueueProvider>
+                  </ServerSyncProvider>
+                </DeletionReviewProvider>
+              </CatalogProvider>
+            </AuthProvider>
+          </ServerProvider>
+        </BackupPolicyProvider>
+      </SettingsProvider>
     </GestureHandlerRootView>
   );
 }
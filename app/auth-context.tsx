@@ -4,18 +4,27 @@ import React, {
   useCallback,
   useContext,
   useEffect,
+  useMemo,
+  useRef,
   useState,
 } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  configureMockNas,
+  isDemoBaseUrl,
+  MOCK_NAS_PRESETS,
+  mockNasFetch,
+} from "@/lib/mock-nas";
+import {
+  createNasClient,
+  NasApiError,
+  NasClient,
+  NasUser,
+} from "@/lib/nas-api";
+import { DEFAULT_PROFILE, useServer } from "./server-context";
+import { useSettings } from "./settings-context";
 
-// ⚠️ Make sure this matches your backend IP / port
-// e.g. "http://192.168.0.100:3001"
-export const NAS_BASE_URL = "http://192.168.0.14:3001";
-
-export type User = {
-  id: string;
-  email: string;
-};
+export type User = NasUser;
 
 export type AuthContextValue = {
   user: User | null;
@@ -23,9 +32,11 @@ export type AuthContextValue = {
   isLoggedIn: boolean;      // ✅ keeps your previous API idea
   initializing: boolean;    // loading auth from storage on app startup
   authLoading: boolean;     // login/register in progress
+  sessionMessage: string | null; // e.g. "session expired", shown on login
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
+  api: NasClient; // NAS client for the active server, sends our token
 };
 
 export const AuthContext = createContext<AuthContextValue | undefined>(
@@ -34,101 +45,276 @@ export const AuthContext = createContext<AuthContextValue | undefined>(
 
 const STORAGE_USER_KEY = "pp_auth_user";
 const STORAGE_TOKEN_KEY = "pp_auth_token";
+const STORAGE_REFRESH_TOKEN_KEY = "pp_auth_refresh_token";
+const STORAGE_SESSION_URL_KEY = "pp_auth_base_url";
+
+// Sessions are stored per server profile, so switching servers
+// doesn't send one NAS's token to another.
+const userKeyFor = (profileId: string) => `${STORAGE_USER_KEY}:${profileId}`;
+const tokenKeyFor = (profileId: string) => `${STORAGE_TOKEN_KEY}:${profileId}`;
+const refreshKeyFor = (profileId: string) =>
+  `${STORAGE_REFRESH_TOKEN_KEY}:${profileId}`;
+// Server the session was issued by; editing a profile's URL signs it out
+const sessionUrlKeyFor = (profileId: string) =>
+  `${STORAGE_SESSION_URL_KEY}:${profileId}`;
+
+// Builds from before server profiles kept one session under the bare keys.
+// It belongs to the default profile, which points at that same server;
+// moved there once so those users stay signed in.
+async function migrateLegacySession(): Promise<void> {
+  const legacyKeys = [
+    STORAGE_USER_KEY,
+    STORAGE_TOKEN_KEY,
+    STORAGE_REFRESH_TOKEN_KEY,
+  ];
+  const [[, user], [, token], [, refreshToken]] =
+    await AsyncStorage.multiGet(legacyKeys);
+  if (!user && !token && !refreshToken) return;
+
+  const id = DEFAULT_PROFILE.id;
+  const hasSession = await AsyncStorage.getItem(tokenKeyFor(id));
+  if (user && token && !hasSession) {
+    const moved: [string, string][] = [
+      [userKeyFor(id), user],
+      [tokenKeyFor(id), token],
+    ];
+    if (refreshToken) moved.push([refreshKeyFor(id), refreshToken]);
+    await AsyncStorage.multiSet(moved);
+  }
+  await AsyncStorage.multiRemove(legacyKeys);
+}
+
+const SESSION_EXPIRED_MESSAGE =
+  "Your session expired. Please sign in again.";
+
+type StoredSession = {
+  user: User;
+  token: string;
+  refreshToken?: string;
+};
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
   children,
 }) => {
+  const { activeProfile, loadingProfiles } = useServer();
+  const profileId = activeProfile.id;
+  const baseUrl = activeProfile.baseUrl;
+  const { settings } = useSettings();
+  const { demoConditions } = settings;
+
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [initializing, setInitializing] = useState(true);
   const [authLoading, setAuthLoading] = useState(false);
+  const [sessionMessage, setSessionMessage] = useState<string | null>(null);
 
-  // Load saved auth (auto-login) on app start
+  // The client reads tokens lazily so it doesn't need rebuilding on login.
+  // Kept in sync wherever setToken is called.
+  const tokenRef = useRef<string | null>(null);
+  const refreshTokenRef = useRef<string | null>(null);
+  // Single in-flight refresh shared by every request that hit a 401
+  const refreshPromiseRef = useRef<Promise<boolean> | null>(null);
+
+  // A different server drops the session during this render, before any
+  // request to it can read the old token; the new profile's own session is
+  // loaded below
+  const server = `${profileId}\n${baseUrl}`;
+  const [sessionServer, setSessionServer] = useState(server);
+  if (sessionServer !== server) {
+    setSessionServer(server);
+    setUser(null);
+    setToken(null);
+    setInitializing(true);
+    tokenRef.current = null;
+    refreshTokenRef.current = null;
+  }
+
+  // Load saved auth (auto-login) on app start and whenever the active
+  // server profile changes
   useEffect(() => {
+    if (loadingProfiles) return;
+
+    let cancelled = false;
+    setInitializing(true);
+
     const loadAuth = async () => {
       try {
-        const [storedUser, storedToken] = await Promise.all([
-          AsyncStorage.getItem(STORAGE_USER_KEY),
-          AsyncStorage.getItem(STORAGE_TOKEN_KEY),
-        ]);
+        await migrateLegacySession();
+        const [storedUser, storedToken, storedRefresh, storedUrl] =
+          await Promise.all([
+            AsyncStorage.getItem(userKeyFor(profileId)),
+            AsyncStorage.getItem(tokenKeyFor(profileId)),
+            AsyncStorage.getItem(refreshKeyFor(profileId)),
+            AsyncStorage.getItem(sessionUrlKeyFor(profileId)),
+          ]);
+        if (cancelled) return;
 
-        if (storedUser && storedToken) {
+        // Sessions saved before the URL was recorded are trusted as is
+        const sameServer = !storedUrl || storedUrl === baseUrl;
+        if (storedUser && storedToken && sameServer) {
           setUser(JSON.parse(storedUser));
           setToken(storedToken);
+          tokenRef.current = storedToken;
+          refreshTokenRef.current = storedRefresh;
+        } else {
+          setUser(null);
+          setToken(null);
+          tokenRef.current = null;
+          refreshTokenRef.current = null;
         }
       } catch (e) {
         console.warn("Failed to load auth state", e);
       } finally {
-        setInitializing(false);
+        if (!cancelled) setInitializing(false);
       }
     };
 
     loadAuth();
-  }, []);
-
-  const saveAuth = async (u: User | null, t: string | null) => {
-    setUser(u);
-    setToken(t);
-
-    if (u && t) {
-      await AsyncStorage.setItem(STORAGE_USER_KEY, JSON.stringify(u));
-      await AsyncStorage.setItem(STORAGE_TOKEN_KEY, t);
-    } else {
-      await AsyncStorage.removeItem(STORAGE_USER_KEY);
-      await AsyncStorage.removeItem(STORAGE_TOKEN_KEY);
-    }
-  };
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId, baseUrl, loadingProfiles]);
+
+  // Latency and error injection for the demo server, picked in Settings
+  useEffect(() => {
+    configureMockNas(MOCK_NAS_PRESETS[demoConditions]);
+  }, [demoConditions]);
+
+  const saveAuth = useCallback(
+    async (session: StoredSession | null) => {
+      setUser(session?.user ?? null);
+      setToken(session?.token ?? null);
+      tokenRef.current = session?.token ?? null;
+      refreshTokenRef.current = session?.refreshToken ?? null;
+
+      if (session) {
+        await AsyncStorage.setItem(
+          userKeyFor(profileId),
+          JSON.stringify(session.user)
+        );
+        await AsyncStorage.setItem(tokenKeyFor(profileId), session.token);
+        await AsyncStorage.setItem(sessionUrlKeyFor(profileId), baseUrl);
+        if (session.refreshToken) {
+          await AsyncStorage.setItem(
+            refreshKeyFor(profileId),
+            session.refreshToken
+          );
+        } else {
+          await AsyncStorage.removeItem(refreshKeyFor(profileId));
+        }
+      } else {
+        await AsyncStorage.removeItem(userKeyFor(profileId));
+        await AsyncStorage.removeItem(tokenKeyFor(profileId));
+        await AsyncStorage.removeItem(refreshKeyFor(profileId));
+        await AsyncStorage.removeItem(sessionUrlKeyFor(profileId));
+      }
+    },
+    [profileId, baseUrl]
+  );
+
+  // Latest saveAuth/user for the client callbacks below, which are created
+  // once per server and must not capture stale values
+  const saveAuthRef = useRef(saveAuth);
+  saveAuthRef.current = saveAuth;
+  const userRef = useRef(user);
+  userRef.current = user;
+
+  const api = useMemo(() => {
+    const refreshSession = (rejectedToken: string): Promise<boolean> => {
+      // Another request already refreshed since this one was sent
+      if (tokenRef.current && tokenRef.current !== rejectedToken) {
+        return Promise.resolve(true);
+      }
+
+      if (!refreshPromiseRef.current) {
+        refreshPromiseRef.current = (async () => {
+          const refreshToken = refreshTokenRef.current;
+          const currentUser = userRef.current;
+          if (!refreshToken || !currentUser) return false;
+
+          try {
+            const next = await client.refresh(refreshToken);
+            await saveAuthRef.current({
+              user: currentUser,
+              token: next.token,
+              refreshToken: next.refreshToken ?? refreshToken,
+            });
+            return true;
+          } catch (e) {
+            // Only the server turning the refresh token down ends the
+            // session. A NAS that's briefly unreachable or failing gets
+            // the error passed on, to be retried, and we stay signed in.
+            if (
+              e instanceof NasApiError &&
+              (e.status === 401 || e.status === 403)
+            ) {
+              console.warn("Refresh token rejected", e);
+              return false;
+            }
+            throw e;
+          } finally {
+            refreshPromiseRef.current = null;
+          }
+        })();
+      }
+
+      return refreshPromiseRef.current;
+    };
+
+    const onSessionExpired = () => {
+      // Several requests may fail together; only log out once
+      if (!tokenRef.current) return;
+      setSessionMessage(SESSION_EXPIRED_MESSAGE);
+      saveAuthRef.current(null);
+    };
+
+    const client = createNasClient({
+      baseUrl,
+      // The demo profile talks to the in-process mock backend
+      fetchImpl: isDemoBaseUrl(baseUrl) ? mockNasFetch : undefined,
+      getToken: () => tokenRef.current,
+      refreshSession,
+      onSessionExpired,
+    });
+    return client;
+  }, [baseUrl]);
 
   const callAuthEndpoint = useCallback(
-    async (
-      endpoint: "/auth/login" | "/auth/register",
-      email: string,
-      password: string
-    ) => {
+    async (mode: "login" | "register", email: string, password: string) => {
       setAuthLoading(true);
       try {
-        const res = await fetch(`${NAS_BASE_URL}${endpoint}`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ email, password }),
-        });
-
-        const data = await res.json();
-
-        if (!res.ok) {
-          const msg =
-            data?.error || data?.message || "Authentication failed";
-          throw new Error(msg);
-        }
-
-        const u: User = data.user;
-        const t: string = data.token;
+        const session =
+          mode === "login"
+            ? await api.login(email, password)
+            : await api.register(email, password);
 
-        await saveAuth(u, t);
+        await saveAuth(session);
+        setSessionMessage(null);
       } finally {
         setAuthLoading(false);
       }
     },
-    []
+    [api, saveAuth]
   );
 
   const login = useCallback(
     async (email: string, password: string) => {
-      await callAuthEndpoint("/auth/login", email.trim(), password);
+      await callAuthEndpoint("login", email.trim(), password);
     },
     [callAuthEndpoint]
   );
 
   const register = useCallback(
     async (email: string, password: string) => {
-      await callAuthEndpoint("/auth/register", email.trim(), password);
+      await callAuthEndpoint("register", email.trim(), password);
     },
     [callAuthEndpoint]
   );
 
   const logout = useCallback(async () => {
-    await saveAuth(null, null);
-  }, []);
+    setSessionMessage(null);
+    await saveAuth(null);
+  }, [saveAuth]);
 
   const value: AuthContextValue = {
     user,
@@ -136,9 +322,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     isLoggedIn: !!user, // ✅ replaces your old boolean
     initializing,
     authLoading,
+    sessionMessage,
     login,
     register,
     logout,
+    api,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
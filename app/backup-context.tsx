@@ -0,0 +1,477 @@
+// app/backup-context.tsx
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { AppState } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  DeviceLibraryError,
+  ensureMediaPermission,
+  hashDeviceItems,
+  knownHashes,
+  listDeviceAssetIds,
+  loadScanCheckpoint,
+  mergeDeviceItems,
+  saveScanCheckpoint,
+  scanDeviceLibrary,
+  ScanProgress,
+} from "@/lib/device-library";
+import {
+  buildServerIndex,
+  DEVICE_ID_PREFIX,
+  isBackedUp,
+  MediaItem,
+} from "@/lib/media";
+import { describeNasError } from "@/lib/nas-api";
+import { useAuth } from "./auth-context";
+import { useCatalog } from "./catalog-context";
+import { useDeletionReview } from "./deletion-review-context";
+import { useServer } from "./server-context";
+import { useServerSync } from "./server-sync-context";
+import { useSettings } from "./settings-context";
+import { useUploadQueue } from "./upload-queue-context";
+
+export type BackupStatus = "idle" | "scanning" | "uploading";
+
+export type BackupContextValue = {
+  status: BackupStatus;
+  deviceCount: number; // device items we know about
+  backedUpCount: number; // ...of which are on the NAS
+  pending: MediaItem[]; // device items not on the NAS yet
+  pendingPhotos: number;
+  pendingVideos: number;
+  // Progress of the current (or last) "Backup now" run
+  runTotal: number;
+  runCompleted: number;
+  runFailed: number;
+  lastBackupAt: string | null; // last run that finished without failures
+  lastError: string | null;
+  serverOnline: boolean | null; // null until we've talked to the server
+  scanProgress: ScanProgress | null; // while a device scan is running
+  // Resolves with the error that stopped the scan, or null
+  refresh: (opts?: { prompt?: boolean }) => Promise<unknown>;
+  cancelScan: () => void;
+  backupNow: () => Promise<void>;
+  // Keeps scans from starting until the returned release is called; null
+  // if a scan is already running. Used while originals are being deleted
+  // on purpose, so they aren't mistaken for removals on the phone.
+  holdScanner: () => (() => void) | null;
+};
+
+export const BackupContext = createContext<BackupContextValue | undefined>(
+  undefined
+);
+
+const STORAGE_LAST_BACKUP_KEY = "pp_last_backup";
+
+const lastBackupKeyFor = (profileId: string) =>
+  `${STORAGE_LAST_BACKUP_KEY}:${profileId}`;
+
+// Returning to the app more often than this doesn't trigger another scan
+// (permission dialogs alone bounce the app state on iOS)
+const BACKUP_ON_OPEN_INTERVAL_MS = 60 * 1000;
+
+const isDeviceItem = (m: MediaItem) => m.id.startsWith(DEVICE_ID_PREFIX);
+
+export const BackupProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { token } = useAuth();
+  const { activeProfile } = useServer();
+  const { media, setMedia, catalogLoaded } = useCatalog();
+  const { sync } = useServerSync();
+  const {
+    candidates: deletionCandidates,
+    reportDeviceRemovals,
+    isHeld,
+  } = useDeletionReview();
+  const { jobs, enqueue } = useUploadQueue();
+  const { settings, settingsLoaded } = useSettings();
+  const profileId = activeProfile.id;
+  const { excludedAlbumIds, deletionPolicy } = settings;
+
+  const [scanning, setScanning] = useState(false);
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+  // Catalog ids handed to the upload queue by the current (or last) run
+  const [runIds, setRunIds] = useState<string[]>([]);
+  const [lastBackupAt, setLastBackupAt] = useState<string | null>(null);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [serverOnline, setServerOnline] = useState<boolean | null>(null);
+  // Device items in albums left out of backup, as of the last full scan
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+
+  // Latest catalog for async work that outlives a render
+  const mediaRef = useRef(media);
+  mediaRef.current = media;
+  const busyRef = useRef(false);
+  const holdsRef = useRef(0);
+  const lastOpenScanRef = useRef(0);
+  const scanAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLastBackupAt(null);
+    setServerOnline(null);
+    setLastError(null);
+    setRunIds([]);
+    setExcludedIds(new Set());
+
+    AsyncStorage.getItem(lastBackupKeyFor(profileId))
+      .then((stored) => {
+        if (!cancelled) setLastBackupAt(stored);
+      })
+      .catch((e) => console.warn("Failed to load last backup time", e));
+    loadScanCheckpoint(profileId)
+      .then((checkpoint) => {
+        if (!cancelled && checkpoint) {
+          setExcludedIds(new Set(checkpoint.excludedIds));
+        }
+      })
+      .catch((e) => console.warn("Failed to load scan checkpoint", e));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId]);
+
+  const { pending, backedUpCount, deviceCount } = useMemo(() => {
+    const serverIndex = buildServerIndex(media);
+    // Device copies of photos deleted from the NAS wait for review
+    const held = new Set(deletionCandidates.map((c) => c.id));
+    const deviceItems = media.filter(
+      (m) => isDeviceItem(m) && !excludedIds.has(m.id)
+    );
+    const notBackedUp = deviceItems.filter(
+      (m) => !isBackedUp(m, serverIndex) && !held.has(m.id)
+    );
+    return {
+      pending: notBackedUp,
+      backedUpCount: deviceItems.length - notBackedUp.length,
+      deviceCount: deviceItems.length,
+    };
+  }, [media, excludedIds, deletionCandidates]);
+
+  // Compares the device library with the NAS. Only assets new or modified
+  // since the last complete scan are listed and hashed, and albums the user
+  // left out of backup are skipped. Returns the device
+  // items that still need uploading plus what this scan found, computed
+  // from fresh results rather than waiting for the catalog to re-render.
+  const scanAndCompare = useCallback(
+    async (
+      prompt: boolean
+    ): Promise<{ pending: MediaItem[]; scanned: MediaItem[] }> => {
+      const controller = new AbortController();
+      scanAbortRef.current = controller;
+      const { signal } = controller;
+
+      const scanDevice = async () => {
+        const access = await ensureMediaPermission(prompt);
+        const known = knownHashes(mediaRef.current);
+        const items: MediaItem[] = [];
+        const result = await scanDeviceLibrary({
+          checkpoint: await loadScanCheckpoint(profileId),
+          excludedAlbumIds,
+          signal,
+          // Each page is shown, hashed and merged before the next one, so an
+          // interrupted scan keeps its work and resumes from the checkpoint
+          onPage: async (page) => {
+            setMedia((prev) => mergeDeviceItems(prev, page));
+            const hashed = await hashDeviceItems(page, known, { signal });
+            setMedia((prev) => mergeDeviceItems(prev, hashed));
+            items.push(...hashed);
+          },
+          onCheckpoint: (checkpoint) =>
+            saveScanCheckpoint(profileId, checkpoint),
+          onProgress: setScanProgress,
+        });
+        // Spotting removals needs every asset id, not just the new ones.
+        // With limited access the rest of the library is merely hidden, not
+        // deleted, so removals aren't looked for at all.
+        const present =
+          deletionPolicy === "never" || access === "limited"
+            ? null
+            : await listDeviceAssetIds(signal);
+        return { items, checkpoint: result.checkpoint, present };
+      };
+
+      try {
+        const [deviceResult, serverResult] = await Promise.allSettled([
+          scanDevice(),
+          sync(),
+        ]);
+
+        const serverItems =
+          serverResult.status === "fulfilled" ? serverResult.value : null;
+        setServerOnline(serverItems !== null);
+
+        // Scanned pages are already in the catalog
+        const scanned =
+          deviceResult.status === "fulfilled" ? deviceResult.value.items : [];
+
+        if (deviceResult.status === "rejected") throw deviceResult.reason;
+        // A scan that ran to the end replaces the per-page checkpoint
+        const { checkpoint, present } = deviceResult.value;
+        await saveScanCheckpoint(profileId, checkpoint);
+        if (present) {
+          const gone = mediaRef.current.filter(
+            (m) => isDeviceItem(m) && !present.has(m.id)
+          );
+          if (gone.length) {
+            reportDeviceRemovals(gone);
+            const goneIds = new Set(gone.map((m) => m.id));
+            setMedia((prev) => prev.filter((m) => !goneIds.has(m.id)));
+          }
+        }
+        const excluded = new Set(checkpoint.excludedIds);
+        setExcludedIds(excluded);
+        if (serverResult.status === "rejected") throw serverResult.reason;
+
+        const current = mergeDeviceItems(mediaRef.current, scanned);
+        const serverIndex = buildServerIndex(serverItems ?? current);
+        return {
+          pending: current.filter(
+            (m) =>
+              isDeviceItem(m) &&
+              !excluded.has(m.id) &&
+              (!present || present.has(m.id)) &&
+              !isHeld(m.id) &&
+              !isBackedUp(m, serverIndex)
+          ),
+          scanned,
+        };
+      } finally {
+        scanAbortRef.current = null;
+        setScanProgress(null);
+      }
+    },
+    [
+      sync,
+      profileId,
+      setMedia,
+      excludedAlbumIds,
+      deletionPolicy,
+      reportDeviceRemovals,
+      isHeld,
+    ]
+  );
+
+  const cancelScan = useCallback(() => {
+    scanAbortRef.current?.abort();
+  }, []);
+
+  const holdScanner = useCallback(() => {
+    if (busyRef.current) return null;
+    holdsRef.current++;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      holdsRef.current--;
+    };
+  }, []);
+
+  // A cancelled scan isn't worth an error message
+  const reportError = useCallback((err: unknown) => {
+    if (err instanceof DeviceLibraryError && err.kind === "cancelled") return;
+    setLastError(describeNasError(err));
+  }, []);
+
+  const refresh = useCallback(
+    async ({ prompt = false }: { prompt?: boolean } = {}) => {
+      if (busyRef.current || holdsRef.current) return null;
+      busyRef.current = true;
+      setScanning(true);
+      try {
+        await scanAndCompare(prompt);
+        setLastError(null);
+        return null;
+      } catch (err) {
+        reportError(err);
+        return err;
+      } finally {
+        busyRef.current = false;
+        setScanning(false);
+      }
+    },
+    [scanAndCompare, reportError]
+  );
+
+  // Scans, then hands whatever is missing to the upload queue, which does
+  // the actual uploading (and retrying) in the background
+  const backupNow = useCallback(async () => {
+    if (busyRef.current || holdsRef.current) return;
+    busyRef.current = true;
+    setScanning(true);
+    setLastError(null);
+
+    try {
+      const { pending: toUpload } = await scanAndCompare(true);
+      enqueue(toUpload);
+      setRunIds(toUpload.map((m) => m.id));
+    } catch (err) {
+      reportError(err);
+    } finally {
+      busyRef.current = false;
+      setScanning(false);
+    }
+  }, [scanAndCompare, enqueue, reportError]);
+
+  // Progress of the run, read back from the queue. Jobs cancelled from the
+  // queue screen simply drop out of the run.
+  const run = useMemo(() => {
+    const ids = new Set(runIds);
+    const runJobs = jobs.filter((j) => ids.has(j.id));
+    const failedJobs = runJobs.filter((j) => j.status === "failed");
+    return {
+      total: runJobs.length,
+      completed: runJobs.filter((j) => j.status === "done").length,
+      failed: failedJobs.length,
+      active: runJobs.some(
+        (j) => j.status === "queued" || j.status === "uploading"
+      ),
+      firstError: failedJobs[0]?.error ?? null,
+    };
+  }, [jobs, runIds]);
+
+  // Record the outcome once the run's last job settles
+  const runActiveRef = useRef(false);
+  useEffect(() => {
+    const wasActive = runActiveRef.current;
+    runActiveRef.current = run.active;
+    if (!wasActive || run.active || run.total === 0) return;
+
+    if (run.failed === 0) {
+      const now = new Date().toISOString();
+      setLastBackupAt(now);
+      AsyncStorage.setItem(lastBackupKeyFor(profileId), now).catch((e) =>
+        console.warn("Failed to save last backup time", e)
+      );
+    } else {
+      setLastError(
+        `${run.failed} item(s) failed to upload. ${run.firstError ?? ""}`.trim()
+      );
+    }
+  }, [run, profileId]);
+
+  const status: BackupStatus = scanning
+    ? "scanning"
+    : run.active
+    ? "uploading"
+    : "idle";
+
+  // Backup on open: the incremental scan only looks at assets added or
+  // changed since the last one, and those the NAS doesn't have are queued.
+  // Runs in the background without touching `status`, never prompts, and
+  // leaves the Wi-Fi / battery rules to the upload queue.
+  const backupNewSinceCheckpoint = useCallback(async () => {
+    if (busyRef.current || holdsRef.current) return;
+    busyRef.current = true;
+    lastOpenScanRef.current = Date.now();
+
+    try {
+      const { pending, scanned } = await scanAndCompare(false);
+      const found = new Set(scanned.map((m) => m.id));
+      const toUpload = pending.filter((m) => found.has(m.id));
+      if (toUpload.length) {
+        enqueue(toUpload);
+        // Fold into a run that's still going so Home shows one progress bar
+        setRunIds((prev) =>
+          runActiveRef.current
+            ? [...prev, ...toUpload.map((m) => m.id)]
+            : toUpload.map((m) => m.id)
+        );
+      }
+      // Anything skipped here is still counted as pending on Home and
+      // picked up by "Backup now"
+      setLastError(null);
+    } catch (err) {
+      reportError(err);
+    } finally {
+      busyRef.current = false;
+    }
+  }, [scanAndCompare, enqueue, reportError]);
+
+  // Compare once per session (or back up, if enabled), without prompting
+  // for permissions. Changing the album selection changes the scanner, so
+  // this runs again then too.
+  useEffect(() => {
+    if (!token || !catalogLoaded || !settingsLoaded) return;
+    if (settings.backupOnOpen) backupNewSinceCheckpoint();
+    else refresh();
+  }, [
+    token,
+    catalogLoaded,
+    settingsLoaded,
+    settings.backupOnOpen,
+    backupNewSinceCheckpoint,
+    refresh,
+  ]);
+
+  // ...and again whenever the app comes back to the foreground
+  useEffect(() => {
+    if (!token || !catalogLoaded || !settings.backupOnOpen) return;
+    const sub = AppState.addEventListener("change", (state) => {
+      if (state !== "active") return;
+      if (Date.now() - lastOpenScanRef.current < BACKUP_ON_OPEN_INTERVAL_MS) {
+        return;
+      }
+      backupNewSinceCheckpoint();
+    });
+    return () => sub.remove();
+  }, [token, catalogLoaded, settings.backupOnOpen, backupNewSinceCheckpoint]);
+
+  const value = useMemo<BackupContextValue>(
+    () => ({
+      status,
+      deviceCount,
+      backedUpCount,
+      pending,
+      pendingPhotos: pending.filter((m) => m.type === "photo").length,
+      pendingVideos: pending.filter((m) => m.type === "video").length,
+      runTotal: run.total,
+      runCompleted: run.completed,
+      runFailed: run.failed,
+      lastBackupAt,
+      lastError,
+      serverOnline,
+      scanProgress,
+      refresh,
+      cancelScan,
+      backupNow,
+      holdScanner,
+    }),
+    [
+      status,
+      deviceCount,
+      backedUpCount,
+      pending,
+      run,
+      lastBackupAt,
+      lastError,
+      serverOnline,
+      scanProgress,
+      refresh,
+      cancelScan,
+      backupNow,
+      holdScanner,
+    ]
+  );
+
+  return (
+    <BackupContext.Provider value={value}>{children}</BackupContext.Provider>
+  );
+};
+
+export const useBackup = () => {
+  const ctx = useContext(BackupContext);
+  if (!ctx) {
+    throw new Error("useBackup must be used inside <BackupProvider>");
+  }
+  return ctx;
+};
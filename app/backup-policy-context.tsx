@@ -0,0 +1,128 @@
+// app/backup-policy-context.tsx
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import * as Battery from "expo-battery";
+import * as Network from "expo-network";
+import {
+  DeviceConditions,
+  evaluateBackupPolicy,
+  NetworkKind,
+  PolicyBlock,
+} from "@/lib/backup-policy";
+import { useSettings } from "./settings-context";
+
+export type BackupPolicyContextValue = {
+  conditions: DeviceConditions;
+  block: PolicyBlock | null; // why background uploads are held, if they are
+};
+
+export const BackupPolicyContext = createContext<
+  BackupPolicyContextValue | undefined
+>(undefined);
+
+function toNetworkKind(state: Network.NetworkState): NetworkKind | null {
+  if (state.isConnected === false) return "none";
+  switch (state.type) {
+    case Network.NetworkStateType.WIFI:
+      return "wifi";
+    case Network.NetworkStateType.ETHERNET:
+      return "ethernet";
+    case Network.NetworkStateType.CELLULAR:
+      return "cellular";
+    case Network.NetworkStateType.NONE:
+      return "none";
+    case Network.NetworkStateType.UNKNOWN:
+    case undefined:
+      return null;
+    default:
+      return "other";
+  }
+}
+
+function toCharging(state: Battery.BatteryState): boolean | null {
+  if (state === Battery.BatteryState.UNKNOWN) return null;
+  return state !== Battery.BatteryState.UNPLUGGED;
+}
+
+// Watches network and power state and turns the backup settings into a
+// go / wait decision for the upload queue
+export const BackupPolicyProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { settings } = useSettings();
+  const [conditions, setConditions] = useState<DeviceConditions>({
+    network: null,
+    charging: null,
+    batteryLevel: null,
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    const update = (patch: Partial<DeviceConditions>) => {
+      if (!cancelled) setConditions((prev) => ({ ...prev, ...patch }));
+    };
+
+    Network.getNetworkStateAsync()
+      .then((state) => update({ network: toNetworkKind(state) }))
+      .catch((e) => console.warn("Failed to read network state", e));
+    const networkSub = Network.addNetworkStateListener((state) =>
+      update({ network: toNetworkKind(state) })
+    );
+
+    // Battery APIs are missing on web and some simulators; treat that as
+    // "unknown" so it never blocks uploads
+    const subs: { remove: () => void }[] = [];
+    Battery.isAvailableAsync()
+      .then(async (available) => {
+        if (!available || cancelled) return;
+        const power = await Battery.getPowerStateAsync();
+        if (cancelled) return;
+        update({
+          charging: toCharging(power.batteryState),
+          batteryLevel: power.batteryLevel >= 0 ? power.batteryLevel : null,
+        });
+        subs.push(
+          Battery.addBatteryStateListener(({ batteryState }) =>
+            update({ charging: toCharging(batteryState) })
+          ),
+          Battery.addBatteryLevelListener(({ batteryLevel }) =>
+            update({ batteryLevel: batteryLevel >= 0 ? batteryLevel : null })
+          )
+        );
+      })
+      .catch((e) => console.warn("Failed to read battery state", e));
+
+    return () => {
+      cancelled = true;
+      networkSub.remove();
+      subs.forEach((sub) => sub.remove());
+    };
+  }, []);
+
+  const value = useMemo<BackupPolicyContextValue>(
+    () => ({
+      conditions,
+      block: evaluateBackupPolicy(settings, conditions),
+    }),
+    [settings, conditions]
+  );
+
+  return (
+    <BackupPolicyContext.Provider value={value}>
+      {children}
+    </BackupPolicyContext.Provider>
+  );
+};
+
+export const useBackupPolicy = () => {
+  const ctx = useContext(BackupPolicyContext);
+  if (!ctx) {
+    throw new Error("useBackupPolicy must be used inside <BackupPolicyProvider>");
+  }
+  return ctx;
+};
@@ -0,0 +1,154 @@
+// app/catalog-context.tsx
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { AppState } from "react-native";
+import { ManualAlbum, MediaItem } from "@/lib/media";
+import { loadCatalog, saveCatalog } from "@/lib/media-catalog";
+import { useServer } from "./server-context";
+
+type Updater<T> = T | ((prev: T) => T);
+
+export type CatalogContextValue = {
+  media: MediaItem[];
+  manualAlbums: ManualAlbum[];
+  catalogLoaded: boolean; // false until the stored catalog has been read
+  syncCursor: string | null; // where the last server sync got to
+  setMedia: (update: Updater<MediaItem[]>) => void;
+  setManualAlbums: (update: Updater<ManualAlbum[]>) => void;
+  setSyncCursor: (cursor: string | null) => void;
+};
+
+export const CatalogContext = createContext<CatalogContextValue | undefined>(
+  undefined
+);
+
+// Writes are batched so bursts of updates (scan, upload) hit storage once
+const SAVE_DELAY_MS = 500;
+
+export const CatalogProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { activeProfile, loadingProfiles } = useServer();
+  const profileId = activeProfile.id;
+
+  const [media, setMedia] = useState<MediaItem[]>([]);
+  const [manualAlbums, setManualAlbums] = useState<ManualAlbum[]>([]);
+  const [syncCursor, setSyncCursor] = useState<string | null>(null);
+  // Profile whose catalog is currently in state (null while loading)
+  const [loadedProfileId, setLoadedProfileId] = useState<string | null>(null);
+  // State as it came from storage. A failed load leaves empty state here,
+  // which must not be saved over the catalog it failed to read.
+  const loadedRef = useRef<{
+    media: MediaItem[];
+    manualAlbums: ManualAlbum[];
+    syncCursor: string | null;
+  } | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+
+  const flushPendingSave = () => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    pendingSaveRef.current?.();
+    pendingSaveRef.current = null;
+  };
+
+  // Load the catalog on app start and whenever the server profile changes
+  useEffect(() => {
+    if (loadingProfiles) return;
+
+    let cancelled = false;
+    // Don't lose the previous profile's last edits
+    flushPendingSave();
+    setLoadedProfileId(null);
+
+    const load = async () => {
+      let loaded: NonNullable<typeof loadedRef.current>;
+      try {
+        const snapshot = await loadCatalog(profileId);
+        loaded = {
+          media: snapshot.items,
+          manualAlbums: snapshot.manualAlbums,
+          syncCursor: snapshot.syncCursor,
+        };
+      } catch (e) {
+        console.warn("Failed to load media catalog", e);
+        loaded = { media: [], manualAlbums: [], syncCursor: null };
+      }
+      if (cancelled) return;
+      loadedRef.current = loaded;
+      setMedia(loaded.media);
+      setManualAlbums(loaded.manualAlbums);
+      setSyncCursor(loaded.syncCursor);
+      setLoadedProfileId(profileId);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId, loadingProfiles]);
+
+  // Persist after changes, but never before the catalog was loaded, and not
+  // until something changed since (either would write empty state over the
+  // stored catalog when it couldn't be read)
+  useEffect(() => {
+    if (loadedProfileId === null) return;
+    const loaded = loadedRef.current;
+    if (
+      loaded &&
+      loaded.media === media &&
+      loaded.manualAlbums === manualAlbums &&
+      loaded.syncCursor === syncCursor
+    ) {
+      return;
+    }
+
+    pendingSaveRef.current = () => {
+      saveCatalog(loadedProfileId, media, manualAlbums, syncCursor).catch(
+        (e) => console.warn("Failed to save media catalog", e)
+      );
+    };
+
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(flushPendingSave, SAVE_DELAY_MS);
+  }, [media, manualAlbums, syncCursor, loadedProfileId]);
+
+  // The app may be killed in the background; write out anything pending
+  useEffect(() => {
+    const sub = AppState.addEventListener("change", (state) => {
+      if (state !== "active") flushPendingSave();
+    });
+    return () => sub.remove();
+  }, []);
+
+  const value = useMemo<CatalogContextValue>(
+    () => ({
+      media,
+      manualAlbums,
+      catalogLoaded: loadedProfileId === profileId,
+      syncCursor,
+      setMedia,
+      setManualAlbums,
+      setSyncCursor,
+    }),
+    [media, manualAlbums, syncCursor, loadedProfileId, profileId]
+  );
+
+  return (
+    <CatalogContext.Provider value={value}>{children}</CatalogContext.Provider>
+  );
+};
+
+export const useCatalog = () => {
+  const ctx = useContext(CatalogContext);
+  if (!ctx) {
+    throw new Error("useCatalog must be used inside <CatalogProvider>");
+  }
+  return ctx;
+};
@@ -0,0 +1,230 @@
+// app/deletion-review-context.tsx
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  applyDeletions,
+  DeletionCandidate,
+  dueDeletions,
+  findDeviceRemovals,
+  findServerRemovals,
+  isMassRemoval,
+  loadDeletionReview,
+  mergeCandidates,
+  saveDeletionReview,
+  scheduleDeletions,
+} from "@/lib/deletion-sync";
+import { DEVICE_ID_PREFIX, MediaItem, SERVER_ID_PREFIX } from "@/lib/media";
+import { useAuth } from "./auth-context";
+import { useCatalog } from "./catalog-context";
+import { useServer } from "./server-context";
+import { useSettings } from "./settings-context";
+
+export type DeletionReviewContextValue = {
+  candidates: DeletionCandidate[]; // copies waiting for the user's decision
+  applying: boolean;
+  // Called by the scanner / sync with items that disappeared on one side
+  reportDeviceRemovals: (removed: MediaItem[]) => void;
+  reportServerRemovals: (removed: MediaItem[]) => void;
+  // Delete the other copies; resolves with how many were deleted
+  approve: (ids: string[]) => Promise<number>;
+  keep: (ids: string[]) => void; // leave the other copies alone
+  // True while a copy is waiting for review or being deleted, so the backup
+  // engine doesn't upload it again in the meantime
+  isHeld: (id: string) => boolean;
+};
+
+export const DeletionReviewContext = createContext<
+  DeletionReviewContextValue | undefined
+>(undefined);
+
+// Applies the deletion policy to removals seen on either side, and holds
+// the ones that need the user's say-so
+export const DeletionReviewProvider: React.FC<{
+  children: React.ReactNode;
+}> = ({ children }) => {
+  const { api } = useAuth();
+  const { activeProfile } = useServer();
+  const { media, setMedia } = useCatalog();
+  const { settings } = useSettings();
+  const profileId = activeProfile.id;
+
+  const [candidates, setCandidates] = useState<DeletionCandidate[]>([]);
+  const [loadedProfileId, setLoadedProfileId] = useState<string | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  const mediaRef = useRef(media);
+  mediaRef.current = media;
+  const candidatesRef = useRef(candidates);
+  candidatesRef.current = candidates;
+  // Ids being deleted right now
+  const deletingRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadedProfileId(null);
+    setCandidates([]);
+    loadDeletionReview(profileId)
+      .then((stored) => {
+        if (!cancelled) setCandidates(stored);
+      })
+      .catch((e) => console.warn("Failed to load deletion review", e))
+      .finally(() => {
+        if (!cancelled) setLoadedProfileId(profileId);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId]);
+
+  useEffect(() => {
+    if (loadedProfileId !== profileId) return;
+    saveDeletionReview(profileId, candidates).catch((e) =>
+      console.warn("Failed to save deletion review", e)
+    );
+  }, [candidates, loadedProfileId, profileId]);
+
+  const removeFromCatalog = useCallback(
+    (ids: string[]) => {
+      const gone = new Set(ids);
+      setMedia((prev) => prev.filter((m) => !gone.has(m.id)));
+      setCandidates((prev) => prev.filter((c) => !gone.has(c.id)));
+    },
+    [setMedia]
+  );
+
+  const run = useCallback(
+    async (toDelete: DeletionCandidate[]) => {
+      if (!toDelete.length) return 0;
+      setApplying(true);
+      toDelete.forEach((c) => deletingRef.current.add(c.id));
+      try {
+        const done = await applyDeletions(api, toDelete);
+        removeFromCatalog(done);
+        return done.length;
+      } finally {
+        toDelete.forEach((c) => deletingRef.current.delete(c.id));
+        setApplying(false);
+      }
+    },
+    [api, removeFromCatalog]
+  );
+
+  // Everything is listed first. In mirror mode it's deleted once the undo
+  // window passes, unless the user keeps it from the review screen; a mass
+  // removal always waits for review. `prefix` picks the side the copies
+  // would be deleted from.
+  const report = useCallback(
+    (found: DeletionCandidate[], prefix: string) => {
+      if (!found.length) return;
+      const total = mediaRef.current.filter((m) =>
+        m.id.startsWith(prefix)
+      ).length;
+      const mirror =
+        settings.deletionPolicy === "mirror" &&
+        !isMassRemoval(found.length, total);
+      const listed = mirror ? scheduleDeletions(found) : found;
+      // Updated right away so isHeld sees them before the next render
+      candidatesRef.current = mergeCandidates(candidatesRef.current, listed);
+      setCandidates((prev) => mergeCandidates(prev, listed));
+    },
+    [settings.deletionPolicy]
+  );
+
+  // Runs scheduled deletions as their windows close
+  useEffect(() => {
+    if (loadedProfileId !== profileId) return;
+    const scheduled = candidates
+      .filter((c) => c.deleteAfter && !deletingRef.current.has(c.id))
+      .map((c) => new Date(c.deleteAfter!).getTime());
+    if (!scheduled.length) return;
+
+    const wait = Math.max(Math.min(...scheduled) - Date.now(), 1000);
+    const timer = setTimeout(() => {
+      const due = dueDeletions(candidatesRef.current).filter(
+        (c) => !deletingRef.current.has(c.id)
+      );
+      run(due).catch((e) => console.warn("Failed to mirror deletions", e));
+    }, wait);
+    return () => clearTimeout(timer);
+  }, [candidates, loadedProfileId, profileId, run]);
+
+  const reportDeviceRemovals = useCallback(
+    (removed: MediaItem[]) => {
+      if (settings.deletionPolicy === "never" || !removed.length) return;
+      report(findDeviceRemovals(mediaRef.current, removed), SERVER_ID_PREFIX);
+    },
+    [settings.deletionPolicy, report]
+  );
+
+  const reportServerRemovals = useCallback(
+    (removed: MediaItem[]) => {
+      if (settings.deletionPolicy === "never" || !removed.length) return;
+      report(findServerRemovals(mediaRef.current, removed), DEVICE_ID_PREFIX);
+    },
+    [settings.deletionPolicy, report]
+  );
+
+  const approve = useCallback(
+    (ids: string[]) => {
+      const wanted = new Set(ids);
+      return run(candidatesRef.current.filter((c) => wanted.has(c.id)));
+    },
+    [run]
+  );
+
+  const keep = useCallback((ids: string[]) => {
+    const kept = new Set(ids);
+    setCandidates((prev) => prev.filter((c) => !kept.has(c.id)));
+  }, []);
+
+  const isHeld = useCallback(
+    (id: string) =>
+      deletingRef.current.has(id) ||
+      candidatesRef.current.some((c) => c.id === id),
+    []
+  );
+
+  const value = useMemo<DeletionReviewContextValue>(
+    () => ({
+      candidates,
+      applying,
+      reportDeviceRemovals,
+      reportServerRemovals,
+      approve,
+      keep,
+      isHeld,
+    }),
+    [
+      candidates,
+      applying,
+      reportDeviceRemovals,
+      reportServerRemovals,
+      approve,
+      keep,
+      isHeld,
+    ]
+  );
+
+  return (
+    <DeletionReviewContext.Provider value={value}>
+      {children}
+    </DeletionReviewContext.Provider>
+  );
+};
+
+export const useDeletionReview = () => {
+  const ctx = useContext(DeletionReviewContext);
+  if (!ctx) {
+    throw new Error(
+      "useDeletionReview must be used inside <DeletionReviewProvider>"
+    );
+  }
+  return ctx;
+};
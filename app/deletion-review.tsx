@@ -0,0 +1,216 @@
+// app/deletion-review.tsx
+import React from "react";
+import {
+  Alert,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { MediaImage } from "@/components/media-image";
+import { DeletionCandidate } from "@/lib/deletion-sync";
+import { Header, ScreenContainer } from "./(tabs)/_components";
+import { useDeletionReview } from "./deletion-review-context";
+
+function describeCandidate(c: DeletionCandidate) {
+  const status =
+    c.deletedOn === "device"
+      ? "Deleted on this phone · still on the NAS"
+      : "Deleted on the NAS · still on this phone";
+  if (!c.deleteAfter) return status;
+  const at = new Date(c.deleteAfter).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  return `${status}\nMirrors at ${at} unless kept`;
+}
+
+export default function DeletionReviewScreen() {
+  const router = useRouter();
+  const { candidates, applying, approve, keep } = useDeletionReview();
+
+  const handleApprove = async (ids: string[]) => {
+    try {
+      const deleted = await approve(ids);
+      if (deleted < ids.length) {
+        Alert.alert(
+          "Some items were kept",
+          `${ids.length - deleted} item(s) could not be deleted. They stay in this list.`
+        );
+      }
+    } catch (err) {
+      console.warn("Failed to apply deletions", err);
+      Alert.alert("Error", "Could not delete the selected items.");
+    }
+  };
+
+  const handleDeleteAll = () => {
+    Alert.alert(
+      "Delete all",
+      `Delete the remaining copy of ${candidates.length} item(s)? This cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => handleApprove(candidates.map((c) => c.id)),
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScreenContainer>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <Text style={styles.backButtonText}>‹ Back</Text>
+      </TouchableOpacity>
+
+      <Header
+        title="Review deletions"
+        subtitle={
+          candidates.length
+            ? `${candidates.length} item(s) deleted on one side only`
+            : "Nothing to review."
+        }
+      />
+
+      <Text style={styles.hint}>
+        Delete removes the remaining copy too. Keep leaves it where it is; a
+        photo kept on this phone will be backed up again.
+      </Text>
+
+      {candidates.length > 0 && (
+        <View style={styles.actionsRow}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => keep(candidates.map((c) => c.id))}
+            disabled={applying}
+          >
+            <Text style={styles.actionButtonText}>Keep all</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={handleDeleteAll}
+            disabled={applying}
+          >
+            <Text style={styles.actionButtonTextDestructive}>
+              {applying ? "Deleting..." : "Delete all"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {candidates.map((c) => (
+        <View key={c.id} style={styles.row}>
+          <MediaImage item={c.item} style={styles.thumb} />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.rowTitle} numberOfLines={1}>
+              {c.item.type === "video" ? "Video" : "Photo"} ·{" "}
+              {new Date(c.item.createdAt).toLocaleDateString()}
+            </Text>
+            <Text style={styles.rowStatus}>{describeCandidate(c)}</Text>
+          </View>
+          <TouchableOpacity
+            style={styles.smallButton}
+            onPress={() => keep([c.id])}
+            disabled={applying}
+          >
+            <Text style={styles.smallButtonText}>Keep</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.smallButton}
+            onPress={() => handleApprove([c.id])}
+            disabled={applying}
+          >
+            <Text style={styles.smallButtonTextDestructive}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  backButton: {
+    alignSelf: "flex-start",
+    paddingVertical: 4,
+    marginBottom: 8,
+  },
+  backButtonText: {
+    fontSize: 14,
+    color: "#38bdf8",
+    fontWeight: "500",
+  },
+  hint: {
+    fontSize: 12,
+    color: "#9ca3af",
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  actionsRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#38bdf8",
+  },
+  actionButtonText: {
+    fontSize: 12,
+    color: "#38bdf8",
+    fontWeight: "600",
+  },
+  actionButtonTextDestructive: {
+    fontSize: 12,
+    color: "#f97373",
+    fontWeight: "600",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    padding: 10,
+    marginBottom: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#1f2933",
+    backgroundColor: "#020617",
+  },
+  thumb: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: "#111827",
+  },
+  rowTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#e5e7eb",
+  },
+  rowStatus: {
+    fontSize: 12,
+    color: "#9ca3af",
+    marginTop: 2,
+  },
+  smallButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  smallButtonText: {
+    fontSize: 11,
+    color: "#e5e7eb",
+  },
+  smallButtonTextDestructive: {
+    fontSize: 11,
+    color: "#f97373",
+  },
+});
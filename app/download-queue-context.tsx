@@ -0,0 +1,421 @@
+// app/download-queue-context.tsx
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { AppState } from "react-native";
+import {
+  DeviceLibraryError,
+  mergeDeviceItems,
+} from "@/lib/device-library";
+import {
+  discardPartialDownload,
+  DownloadPausedError,
+  saveToDevice,
+} from "@/lib/download";
+import {
+  DownloadJob,
+  enqueueDownloads,
+  hasDeviceCopy,
+  isActiveDownload,
+  loadDownloadQueue,
+  missingFromDevice,
+  saveDownloadQueue,
+  updateStoredDownload,
+} from "@/lib/download-queue";
+import { MediaItem } from "@/lib/media";
+import { describeNasError } from "@/lib/nas-api";
+import {
+  failJob,
+  isRetryableUploadError,
+  nextRunnableJob,
+  nextWakeTime,
+  retryAfterMs,
+  updateJob,
+} from "@/lib/upload-queue";
+import { useAuth } from "./auth-context";
+import { useCatalog } from "./catalog-context";
+import { useServer } from "./server-context";
+import { useSettings } from "./settings-context";
+
+// Downloads are bound by the phone's link rather than the NAS, so a fixed
+// pair keeps things moving without starving the uploads
+const DOWNLOAD_CONCURRENCY = 2;
+
+// Progress updates arrive many times a second; storage gets at most one
+// write per interval
+const SAVE_INTERVAL_MS = 1000;
+
+export type DownloadQueueCounts = {
+  queued: number;
+  downloading: number;
+  failed: number;
+  done: number;
+  total: number;
+};
+
+export type DownloadQueueContextValue = {
+  jobs: DownloadJob[];
+  counts: DownloadQueueCounts;
+  paused: boolean;
+  queueLoaded: boolean;
+  // Saves NAS items into the restore album; returns how many were added
+  enqueue: (items: MediaItem[]) => number;
+  // Queues every NAS item that has no copy on the phone
+  restoreEverything: () => number;
+  pause: () => void;
+  resume: () => void;
+  cancel: (id: string) => void;
+  retry: (id: string) => void;
+  retryFailed: () => void;
+  clearFinished: () => void;
+};
+
+export const DownloadQueueContext = createContext<
+  DownloadQueueContextValue | undefined
+>(undefined);
+
+export const DownloadQueueProvider: React.FC<{
+  children: React.ReactNode;
+}> = ({ children }) => {
+  const { token, api } = useAuth();
+  const { activeProfile, loadingProfiles } = useServer();
+  const { media, setMedia, catalogLoaded } = useCatalog();
+  const { settings } = useSettings();
+  const profileId = activeProfile.id;
+
+  const [jobs, setJobs] = useState<DownloadJob[]>([]);
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
+  const mediaRef = useRef(media);
+  mediaRef.current = media;
+  const [paused, setPaused] = useState(false);
+  const [loadedProfileId, setLoadedProfileId] = useState<string | null>(null);
+  const [wakeTick, setWakeTick] = useState(0);
+
+  // Running downloads, so pause and cancel can stop them mid-file
+  const runningRef = useRef<Map<string, AbortController>>(new Map());
+  // Running jobs that were cancelled rather than paused; their partial
+  // files are deleted once they stop
+  const cancelledRef = useRef<Set<string>>(new Set());
+  const profileRef = useRef(profileId);
+  profileRef.current = profileId;
+
+  const queueLoaded = loadedProfileId === profileId;
+
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+
+  const flushPendingSave = () => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    pendingSaveRef.current?.();
+    pendingSaveRef.current = null;
+  };
+
+  useEffect(() => {
+    if (loadingProfiles) return;
+
+    let cancelled = false;
+    // Don't lose the previous profile's last changes
+    flushPendingSave();
+    setLoadedProfileId(null);
+
+    loadDownloadQueue(profileId)
+      .catch((e) => {
+        console.warn("Failed to load download queue", e);
+        return { jobs: [] as DownloadJob[], paused: false };
+      })
+      .then((snapshot) => {
+        if (cancelled) return;
+        setJobs(snapshot.jobs);
+        setPaused(snapshot.paused);
+        setLoadedProfileId(profileId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId, loadingProfiles]);
+
+  // Saved at most once per interval, like the upload queue
+  useEffect(() => {
+    if (loadedProfileId === null) return;
+
+    pendingSaveRef.current = () => {
+      saveDownloadQueue(loadedProfileId, jobs, paused).catch((e) =>
+        console.warn("Failed to save download queue", e)
+      );
+    };
+    saveTimerRef.current ??= setTimeout(flushPendingSave, SAVE_INTERVAL_MS);
+  }, [jobs, paused, loadedProfileId]);
+
+  // The app may be killed in the background; write out anything pending
+  useEffect(() => {
+    const sub = AppState.addEventListener("change", (state) => {
+      if (state !== "active") flushPendingSave();
+    });
+    return () => sub.remove();
+  }, []);
+
+  // Switching servers stops the old profile's downloads; they resume from
+  // its stored queue when the user switches back
+  useEffect(() => {
+    const running = runningRef.current;
+    return () => running.forEach((controller) => controller.abort());
+  }, [profileId]);
+
+  const runJob = useCallback(
+    async (job: DownloadJob) => {
+      const jobProfileId = profileRef.current;
+      const controller = new AbortController();
+      runningRef.current.set(job.id, controller);
+      setJobs((prev) => updateJob(prev, job.id, { status: "downloading" }));
+
+      const stillCurrent = () => profileRef.current === jobProfileId;
+      const finish = () =>
+        setJobs((prev) =>
+          updateJob(prev, job.id, {
+            status: "done",
+            error: undefined,
+            nextAttemptAt: undefined,
+            resumeData: undefined,
+            finishedAt: new Date().toISOString(),
+          })
+        );
+
+      try {
+        const item = mediaRef.current.find((m) => m.id === job.id);
+        if (!item) {
+          const message = "This item is no longer on the NAS.";
+          if (stillCurrent()) {
+            setJobs((prev) => failJob(prev, job.id, message, false));
+          }
+          return;
+        }
+        // Saved some other way since it was queued (or by an earlier run)
+        if (hasDeviceCopy(mediaRef.current, item)) {
+          finish();
+          return;
+        }
+
+        const saved = await saveToDevice(item, {
+          headers: api.fileHeaders(item.uri),
+          albumName: job.albumName,
+          resumeData: job.resumeData,
+          signal: controller.signal,
+          // Also arrives after a switch to another profile, when that
+          // switch paused the download; it goes to the profile's stored queue
+          onResumeData: (resumeData) => {
+            if (stillCurrent()) {
+              setJobs((prev) => updateJob(prev, job.id, { resumeData }));
+            } else {
+              updateStoredDownload(jobProfileId, job.id, { resumeData }).catch(
+                (e) => console.warn("Failed to save download progress", e)
+              );
+            }
+          },
+          onProgress: ({ bytesWritten, bytesTotal }) => {
+            if (stillCurrent()) {
+              setJobs((prev) =>
+                updateJob(prev, job.id, { bytesWritten, bytesTotal })
+              );
+            }
+          },
+        });
+        if (!stillCurrent()) return;
+        setMedia((prev) => mergeDeviceItems(prev, [saved]));
+        finish();
+      } catch (err) {
+        if (!stillCurrent()) return;
+        if (err instanceof DownloadPausedError || controller.signal.aborted) {
+          // Paused or cancelled; a cancelled job is already gone
+          setJobs((prev) => updateJob(prev, job.id, { status: "queued" }));
+          return;
+        }
+        console.warn("Download failed", err);
+        const permission =
+          err instanceof DeviceLibraryError && err.kind === "permission";
+        setJobs((prev) => {
+          const failed = failJob(
+            prev,
+            job.id,
+            describeNasError(err),
+            !permission && isRetryableUploadError(err),
+            retryAfterMs(err)
+          );
+          // Resume data that just failed may be stale; start over next time
+          return job.resumeData
+            ? updateJob(failed, job.id, { resumeData: undefined })
+            : failed;
+        });
+      } finally {
+        runningRef.current.delete(job.id);
+        if (cancelledRef.current.delete(job.id)) {
+          discardPartialDownload(job.id).catch(() => undefined);
+        }
+        setWakeTick((n) => n + 1);
+      }
+    },
+    [api, setMedia]
+  );
+
+  useEffect(() => {
+    // Jobs find their items in the catalog, so it has to be loaded first
+    if (!queueLoaded || !catalogLoaded || paused || !token) return;
+
+    const now = Date.now();
+    while (runningRef.current.size < DOWNLOAD_CONCURRENCY) {
+      const claimed = new Set(runningRef.current.keys());
+      const next = nextRunnableJob(jobs, now, claimed);
+      if (!next) break;
+      runJob(next);
+    }
+
+    const wakeAt = nextWakeTime(jobs);
+    if (wakeAt === null) return;
+    const timer = setTimeout(
+      () => setWakeTick((n) => n + 1),
+      Math.max(0, wakeAt - now)
+    );
+    return () => clearTimeout(timer);
+  }, [jobs, paused, token, queueLoaded, catalogLoaded, wakeTick, runJob]);
+
+  const albumName = settings.restoreAlbumName;
+
+  const enqueue = useCallback(
+    (items: MediaItem[]) => {
+      if (!items.length) return 0;
+      const waiting = new Set(
+        jobsRef.current.filter(isActiveDownload).map((j) => j.id)
+      );
+      const added = items.filter((m) => !waiting.has(m.id)).length;
+      setJobs((prev) => enqueueDownloads(prev, items, albumName));
+      return added;
+    },
+    [albumName]
+  );
+
+  const restoreEverything = useCallback(
+    () => enqueue(missingFromDevice(mediaRef.current)),
+    [enqueue]
+  );
+
+  const pause = useCallback(() => {
+    setPaused(true);
+    runningRef.current.forEach((controller) => controller.abort());
+  }, []);
+
+  const resume = useCallback(() => setPaused(false), []);
+
+  const cancel = useCallback((id: string) => {
+    const running = runningRef.current.get(id);
+    if (running) {
+      cancelledRef.current.add(id);
+      running.abort();
+    } else {
+      // A paused job may have a partial file waiting to be resumed
+      discardPartialDownload(id).catch(() => undefined);
+    }
+    setJobs((prev) => prev.filter((j) => j.id !== id));
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    setJobs((prev) =>
+      updateJob(prev, id, {
+        status: "queued",
+        attempts: 0,
+        error: undefined,
+        nextAttemptAt: undefined,
+        finishedAt: undefined,
+      })
+    );
+  }, []);
+
+  const retryFailed = useCallback(() => {
+    setJobs((prev) =>
+      prev.map((j) =>
+        j.status === "failed"
+          ? {
+              ...j,
+              status: "queued",
+              attempts: 0,
+              error: undefined,
+              finishedAt: undefined,
+            }
+          : j
+      )
+    );
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setJobs((prev) => prev.filter((j) => j.status !== "done"));
+  }, []);
+
+  const counts = useMemo<DownloadQueueCounts>(() => {
+    const c: DownloadQueueCounts = {
+      queued: 0,
+      downloading: 0,
+      failed: 0,
+      done: 0,
+      total: 0,
+    };
+    for (const j of jobs) {
+      c[j.status]++;
+      c.total++;
+    }
+    return c;
+  }, [jobs]);
+
+  const value = useMemo<DownloadQueueContextValue>(
+    () => ({
+      jobs,
+      counts,
+      paused,
+      queueLoaded,
+      enqueue,
+      restoreEverything,
+      pause,
+      resume,
+      cancel,
+      retry,
+      retryFailed,
+      clearFinished,
+    }),
+    [
+      jobs,
+      counts,
+      paused,
+      queueLoaded,
+      enqueue,
+      restoreEverything,
+      pause,
+      resume,
+      cancel,
+      retry,
+      retryFailed,
+      clearFinished,
+    ]
+  );
+
+  return (
+    <DownloadQueueContext.Provider value={value}>
+      {children}
+    </DownloadQueueContext.Provider>
+  );
+};
+
+export const useDownloadQueue = () => {
+  const ctx = useContext(DownloadQueueContext);
+  if (!ctx) {
+    throw new Error(
+      "useDownloadQueue must be used inside <DownloadQueueProvider>"
+    );
+  }
+  return ctx;
+};
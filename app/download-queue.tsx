@@ -0,0 +1,291 @@
+// app/download-queue.tsx
+import React, { useMemo } from "react";
+import {
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { MediaImage } from "@/components/media-image";
+import { DownloadJob, DownloadJobStatus } from "@/lib/download-queue";
+import { formatBytes } from "@/lib/media";
+import { Header, ScreenContainer } from "./(tabs)/_components";
+import { useCatalog } from "./catalog-context";
+import { useDownloadQueue } from "./download-queue-context";
+
+const STATUS_LABELS: Record<DownloadJobStatus, string> = {
+  queued: "Waiting",
+  downloading: "Downloading…",
+  failed: "Failed",
+  done: "Saved to phone",
+};
+
+const STATUS_COLORS: Record<DownloadJobStatus, string> = {
+  queued: "#9ca3af",
+  downloading: "#38bdf8",
+  failed: "#f97373",
+  done: "#16a34a",
+};
+
+function statusText(job: DownloadJob) {
+  if (job.status === "queued" && job.nextAttemptAt) {
+    const seconds = Math.max(
+      1,
+      Math.round((job.nextAttemptAt - Date.now()) / 1000)
+    );
+    return `Retrying in ${seconds}s (attempt ${job.attempts + 1})`;
+  }
+  if (job.status === "downloading" && job.bytesTotal) {
+    return `${formatBytes(job.bytesWritten ?? 0)} of ${formatBytes(
+      job.bytesTotal
+    )}`;
+  }
+  if (job.status === "queued" && job.resumeData && job.bytesWritten) {
+    return `Paused · ${formatBytes(job.bytesWritten)} downloaded`;
+  }
+  return STATUS_LABELS[job.status];
+}
+
+export default function DownloadQueueScreen() {
+  const router = useRouter();
+  const {
+    jobs,
+    counts,
+    paused,
+    pause,
+    resume,
+    cancel,
+    retry,
+    retryFailed,
+    clearFinished,
+  } = useDownloadQueue();
+  const { media } = useCatalog();
+
+  // Jobs only hold ids; what they show comes from the catalog
+  const itemsById = useMemo(
+    () => new Map(media.map((m) => [m.id, m])),
+    [media]
+  );
+
+  const waiting = counts.queued + counts.downloading;
+
+  const subtitle =
+    counts.total === 0
+      ? "Nothing to save."
+      : `${counts.done} of ${counts.total} saved to this phone` +
+        (counts.failed ? ` · ${counts.failed} failed` : "") +
+        (paused && waiting ? " · paused" : "");
+
+  return (
+    <ScreenContainer>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <Text style={styles.backButtonText}>‹ Back</Text>
+      </TouchableOpacity>
+
+      <Header title="Saving to phone" subtitle={subtitle} />
+
+      <View style={styles.actionsRow}>
+        {waiting > 0 && (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={paused ? resume : pause}
+          >
+            <Text style={styles.actionButtonText}>
+              {paused ? "Resume" : "Pause"}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {counts.failed > 0 && (
+          <TouchableOpacity style={styles.actionButton} onPress={retryFailed}>
+            <Text style={styles.actionButtonText}>Retry failed</Text>
+          </TouchableOpacity>
+        )}
+        {counts.done > 0 && (
+          <TouchableOpacity style={styles.actionButton} onPress={clearFinished}>
+            <Text style={styles.actionButtonText}>Clear finished</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {jobs.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyTitle}>Queue is empty</Text>
+          <Text style={styles.emptySubtitle}>
+            Use &quot;Save to phone&quot; in the Library, or &quot;Restore
+            everything&quot; in Settings, to copy photos from your NAS.
+          </Text>
+        </View>
+      ) : (
+        jobs.map((job) => {
+          const item = itemsById.get(job.id);
+          return (
+            <View key={job.id} style={styles.jobRow}>
+              {item ? (
+                <MediaImage item={item} style={styles.thumb} />
+              ) : (
+                <View style={styles.thumb} />
+              )}
+              <View style={{ flex: 1 }}>
+                <Text style={styles.jobTitle} numberOfLines={1}>
+                  {item ? (
+                    <>
+                      {item.type === "video" ? "Video" : "Photo"} ·{" "}
+                      {new Date(item.createdAt).toLocaleDateString()}
+                    </>
+                  ) : (
+                    "Removed from the NAS"
+                  )}
+                </Text>
+                <Text
+                  style={[
+                    styles.jobStatus,
+                    { color: STATUS_COLORS[job.status] },
+                  ]}
+                >
+                  {statusText(job)}
+                </Text>
+                {job.status === "downloading" && job.bytesTotal ? (
+                  <View style={styles.jobProgressBar}>
+                    <View
+                      style={[
+                        styles.jobProgressFill,
+                        {
+                          width: `${((job.bytesWritten ?? 0) / job.bytesTotal) * 100}%`,
+                        },
+                      ]}
+                    />
+                  </View>
+                ) : null}
+                {job.error && job.status !== "done" ? (
+                  <Text style={styles.jobError} numberOfLines={2}>
+                    {job.error}
+                  </Text>
+                ) : null}
+              </View>
+              {job.status === "failed" && (
+                <TouchableOpacity
+                  style={styles.smallButton}
+                  onPress={() => retry(job.id)}
+                >
+                  <Text style={styles.smallButtonText}>Retry</Text>
+                </TouchableOpacity>
+              )}
+              {job.status !== "done" && (
+                <TouchableOpacity
+                  style={styles.smallButton}
+                  onPress={() => cancel(job.id)}
+                >
+                  <Text style={styles.smallButtonTextDestructive}>Cancel</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          );
+        })
+      )}
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  backButton: {
+    alignSelf: "flex-start",
+    paddingVertical: 4,
+    marginBottom: 8,
+  },
+  backButtonText: {
+    fontSize: 14,
+    color: "#38bdf8",
+    fontWeight: "500",
+  },
+  actionsRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#38bdf8",
+  },
+  actionButtonText: {
+    fontSize: 12,
+    color: "#38bdf8",
+    fontWeight: "600",
+  },
+  emptyState: {
+    paddingVertical: 40,
+    alignItems: "center",
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#e5e7eb",
+  },
+  emptySubtitle: {
+    fontSize: 13,
+    color: "#9ca3af",
+    marginTop: 6,
+    textAlign: "center",
+  },
+  jobRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    padding: 10,
+    marginBottom: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#1f2933",
+    backgroundColor: "#020617",
+  },
+  thumb: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: "#111827",
+  },
+  jobTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#e5e7eb",
+  },
+  jobStatus: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  jobProgressBar: {
+    height: 4,
+    borderRadius: 999,
+    backgroundColor: "#111827",
+    overflow: "hidden",
+    marginTop: 6,
+  },
+  jobProgressFill: {
+    height: "100%",
+    backgroundColor: "#38bdf8",
+  },
+  jobError: {
+    fontSize: 11,
+    color: "#f97373",
+    marginTop: 2,
+  },
+  smallButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  smallButtonText: {
+    fontSize: 11,
+    color: "#e5e7eb",
+  },
+  smallButtonTextDestructive: {
+    fontSize: 11,
+    color: "#f97373",
+  },
+});
@@ -0,0 +1,290 @@
+// app/free-up-space.tsx
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useRouter } from "expo-router";
+import {
+  AGE_FILTERS,
+  deleteInBatches,
+  findVerifiedBackups,
+  measureItems,
+  totalBytes,
+} from "@/lib/free-up-space";
+import { formatBytes } from "@/lib/media";
+import { Header, ScreenContainer } from "./(tabs)/_components";
+import { useBackup } from "./backup-context";
+import { useCatalog } from "./catalog-context";
+
+const PREVIEW_COUNT = 8;
+
+export default function FreeUpSpaceScreen() {
+  const router = useRouter();
+  const { media, setMedia } = useCatalog();
+  const backup = useBackup();
+  const [minAgeDays, setMinAgeDays] = useState(0);
+  const [measuring, setMeasuring] = useState(false);
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+
+  const items = useMemo(
+    () => findVerifiedBackups(media, minAgeDays),
+    [media, minAgeDays]
+  );
+  const reclaimable = totalBytes(items);
+  // A scan running now could mistake freed items for deletions on the phone
+  const blocked = backup.status === "scanning" || progress !== null;
+
+  // Items hashed before sizes were recorded get measured once. The result
+  // goes into the catalog, so it's kept even if this screen closes first.
+  const attemptedRef = useRef(new Set<string>());
+  useEffect(() => {
+    const todo = items.filter(
+      (m) => m.size == null && !attemptedRef.current.has(m.id)
+    );
+    if (!todo.length) return;
+    todo.forEach((m) => attemptedRef.current.add(m.id));
+
+    setMeasuring(true);
+    measureItems(todo)
+      .then((measured) => {
+        if (!measured.length) return;
+        const sizes = new Map(measured.map((m) => [m.id, m.size]));
+        setMedia((prev) =>
+          prev.map((m) =>
+            sizes.has(m.id) ? { ...m, size: sizes.get(m.id) } : m
+          )
+        );
+      })
+      .catch((e) => console.warn("Failed to measure items", e))
+      .finally(() => setMeasuring(false));
+  }, [items, setMedia]);
+
+  const handleFreeUp = () => {
+    Alert.alert(
+      "Free up space",
+      `Delete ${items.length} item(s) from this phone? They stay on your NAS.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete from phone",
+          style: "destructive",
+          onPress: async () => {
+            // No scan may start while originals disappear: it would take
+            // them for deletions on the phone (and, with the mirror
+            // policy, delete the backups too)
+            const release = backup.holdScanner();
+            if (!release) {
+              Alert.alert(
+                "Scan in progress",
+                "Wait for the device scan to finish, then try again."
+              );
+              return;
+            }
+
+            const gone = new Set<string>();
+            setProgress({ done: 0, total: items.length });
+            try {
+              await deleteInBatches(items, (ids, done, total) => {
+                ids.forEach((id) => gone.add(id));
+                setMedia((prev) => prev.filter((m) => !gone.has(m.id)));
+                setProgress({ done, total });
+              });
+              const freed = totalBytes(items.filter((m) => gone.has(m.id)));
+              Alert.alert(
+                "Done",
+                `Freed ${formatBytes(freed)} (${gone.size} item(s)).`
+              );
+            } catch (err) {
+              console.warn("Failed to free up space", err);
+              Alert.alert(
+                "Error",
+                gone.size
+                  ? `Deleted ${gone.size} item(s), then could not delete the rest from the phone.`
+                  : "Could not delete items from the phone."
+              );
+            } finally {
+              release();
+              setProgress(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScreenContainer>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <Text style={styles.backButtonText}>‹ Back</Text>
+      </TouchableOpacity>
+
+      <Header
+        title="Free up space"
+        subtitle="Remove phone copies of photos that are safely on your NAS"
+      />
+
+      <View style={styles.chipRow}>
+        {AGE_FILTERS.map((filter) => {
+          const active = minAgeDays === filter.days;
+          return (
+            <TouchableOpacity
+              key={filter.days}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => setMinAgeDays(filter.days)}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                {filter.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.bigNumber}>{formatBytes(reclaimable)}</Text>
+        <Text style={styles.cardSubtitle}>
+          {items.length} item(s) verified on the NAS
+          {measuring ? " · measuring sizes…" : ""}
+        </Text>
+
+        {items.length > 0 && (
+          <View style={styles.previewRow}>
+            {items.slice(0, PREVIEW_COUNT).map((m) => (
+              <Image key={m.id} source={{ uri: m.uri }} style={styles.thumb} />
+            ))}
+          </View>
+        )}
+
+        {progress ? (
+          <View style={styles.progressRow}>
+            <ActivityIndicator color="#38bdf8" />
+            <Text style={styles.cardSubtitle}>
+              Deleted {progress.done} of {progress.total}…
+            </Text>
+          </View>
+        ) : (
+          <TouchableOpacity
+            style={[
+              styles.primaryButton,
+              (blocked || !items.length) && styles.primaryButtonDisabled,
+            ]}
+            onPress={handleFreeUp}
+            disabled={blocked || !items.length}
+          >
+            <Text style={styles.primaryButtonText}>
+              {backup.status === "scanning"
+                ? "Waiting for scan to finish..."
+                : `Free up ${formatBytes(reclaimable)}`}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <Text style={styles.hint}>
+        Only items whose content the NAS has confirmed by checksum are
+        offered. Anything not yet verified stays on your phone.
+      </Text>
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  backButton: {
+    alignSelf: "flex-start",
+    paddingVertical: 4,
+    marginBottom: 8,
+  },
+  backButtonText: {
+    fontSize: 14,
+    color: "#38bdf8",
+    fontWeight: "500",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  chipActive: {
+    borderColor: "#38bdf8",
+    backgroundColor: "#0f172a",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#9ca3af",
+  },
+  chipTextActive: {
+    color: "#38bdf8",
+  },
+  card: {
+    backgroundColor: "#020617",
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: "#1f2933",
+  },
+  bigNumber: {
+    fontSize: 28,
+    fontWeight: "700",
+    color: "#e5e7eb",
+  },
+  cardSubtitle: {
+    fontSize: 13,
+    color: "#9ca3af",
+    marginTop: 4,
+  },
+  previewRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginTop: 12,
+  },
+  thumb: {
+    width: 36,
+    height: 36,
+    borderRadius: 6,
+    backgroundColor: "#111827",
+  },
+  progressRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 14,
+  },
+  primaryButton: {
+    marginTop: 14,
+    backgroundColor: "#38bdf8",
+    paddingVertical: 10,
+    borderRadius: 999,
+    alignItems: "center",
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: "#020617",
+    fontWeight: "600",
+    fontSize: 14,
+  },
+  hint: {
+    fontSize: 12,
+    color: "#6b7280",
+  },
+});
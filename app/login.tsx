@@ -11,16 +11,20 @@ import {
   Platform,
 } from "react-native";
 import { useRouter } from "expo-router";
+import { ServerProfilesEditor } from "@/components/server-profiles-editor";
 import { useAuth } from "./auth-context";
+import { useServer } from "./server-context";
 
 export default function LoginScreen() {
   const router = useRouter();
-  const { login, register, authLoading } = useAuth();
+  const { login, register, authLoading, sessionMessage } = useAuth();
+  const { activeProfile } = useServer();
 
   const [mode, setMode] = useState<"login" | "register">("login");
   const [email, setEmail] = useState("alex@example.com");
   const [password, setPassword] = useState("password123");
   const [error, setError] = useState<string | null>(null);
+  const [showServers, setShowServers] = useState(false);
 
   const onSubmit = async () => {
     setError(null);
@@ -65,6 +69,10 @@ export default function LoginScreen() {
             {mode === "login" ? "Sign in" : "Create account"}
           </Text>
 
+          {sessionMessage ? (
+            <Text style={styles.noticeText}>{sessionMessage}</Text>
+          ) : null}
+
           <Text style={styles.label}>Email</Text>
           <TextInput
             value={email}
@@ -130,10 +138,22 @@ export default function LoginScreen() {
           </Text>
         </View>
 
+        {showServers && (
+          <View style={[styles.card, styles.serversCard]}>
+            <Text style={styles.cardTitle}>Servers</Text>
+            <ServerProfilesEditor />
+          </View>
+        )}
+
         <View style={styles.footer}>
           <Text style={styles.footerText}>
-            Server: your Ubuntu NAS ({/* you can inject IP here later */})
+            Server: {activeProfile.name} ({activeProfile.baseUrl})
           </Text>
+          <TouchableOpacity onPress={() => setShowServers((prev) => !prev)}>
+            <Text style={styles.footerLink}>
+              {showServers ? "Done" : "Change server"}
+            </Text>
+          </TouchableOpacity>
         </View>
       </KeyboardAvoidingView>
     </SafeAreaView>
@@ -209,6 +229,11 @@ const styles = StyleSheet.create({
     color: "#e5e7eb",
     backgroundColor: "#020617",
   },
+  noticeText: {
+    marginBottom: 4,
+    fontSize: 12,
+    color: "#fbbf24",
+  },
   errorText: {
     marginTop: 8,
     fontSize: 12,
@@ -265,4 +290,12 @@ const styles = StyleSheet.create({
     fontSize: 11,
     color: "#6b7280",
   },
+  footerLink: {
+    fontSize: 11,
+    color: "#38bdf8",
+    marginTop: 4,
+  },
+  serversCard: {
+    marginTop: 12,
+  },
 });
@@ -0,0 +1,241 @@
+// app/server-context.tsx
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { DEMO_BASE_URL, isDemoBaseUrl } from "@/lib/mock-nas";
+
+export type ServerProfile = {
+  id: string;
+  name: string;
+  baseUrl: string; // e.g. "http://192.168.0.100:3001"
+};
+
+export type ServerProfileInput = {
+  name: string;
+  baseUrl: string;
+};
+
+export type ServerContextValue = {
+  profiles: ServerProfile[];
+  activeProfile: ServerProfile;
+  baseUrl: string; // shortcut for activeProfile.baseUrl
+  loadingProfiles: boolean;
+  addProfile: (input: ServerProfileInput) => Promise<ServerProfile>;
+  addDemoProfile: () => Promise<ServerProfile>;
+  updateProfile: (id: string, input: ServerProfileInput) => Promise<void>;
+  removeProfile: (id: string) => Promise<void>;
+  setActiveProfile: (id: string) => Promise<void>;
+};
+
+export const ServerContext = createContext<ServerContextValue | undefined>(
+  undefined
+);
+
+const STORAGE_PROFILES_KEY = "pp_server_profiles";
+const STORAGE_ACTIVE_PROFILE_KEY = "pp_server_active";
+// Set once the demo profile has been offered, so removing it sticks
+const STORAGE_DEMO_OFFERED_KEY = "pp_server_demo_offered";
+
+// First-run profile, so existing installs keep talking to the same NAS
+export const DEFAULT_PROFILE: ServerProfile = {
+  id: "default",
+  name: "Home NAS",
+  baseUrl: "http://192.168.0.14:3001",
+};
+
+// Built-in profile backed by the in-process mock NAS (lib/mock-nas.ts)
+export const DEMO_PROFILE: ServerProfile = {
+  id: "demo",
+  name: "Demo server",
+  baseUrl: DEMO_BASE_URL,
+};
+
+// Strip trailing slashes so we can safely do `${baseUrl}/media`
+export function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, "");
+}
+
+// Returns an error message, or null if the input is usable
+export function validateProfileInput(input: ServerProfileInput): string | null {
+  if (!input.name.trim()) return "Please give the server a name.";
+  const url = normalizeBaseUrl(input.baseUrl);
+  if (isDemoBaseUrl(url)) return null;
+  if (!/^https?:\/\/[^\s/]+/i.test(url)) {
+    return "Server URL must start with http:// or https://";
+  }
+  return null;
+}
+
+export const ServerProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [profiles, setProfiles] = useState<ServerProfile[]>([
+    DEFAULT_PROFILE,
+    DEMO_PROFILE,
+  ]);
+  const [activeId, setActiveId] = useState<string>(DEFAULT_PROFILE.id);
+  const [loadingProfiles, setLoadingProfiles] = useState(true);
+
+  // Load saved profiles on app start
+  useEffect(() => {
+    const loadProfiles = async () => {
+      try {
+        const [storedProfiles, storedActive, demoOffered] = await Promise.all([
+          AsyncStorage.getItem(STORAGE_PROFILES_KEY),
+          AsyncStorage.getItem(STORAGE_ACTIVE_PROFILE_KEY),
+          AsyncStorage.getItem(STORAGE_DEMO_OFFERED_KEY),
+        ]);
+
+        const parsed: ServerProfile[] = storedProfiles
+          ? JSON.parse(storedProfiles)
+          : [];
+
+        // Lists saved before the demo server existed get it added once
+        if (
+          parsed.length &&
+          !demoOffered &&
+          !parsed.some((p) => isDemoBaseUrl(p.baseUrl))
+        ) {
+          parsed.push(DEMO_PROFILE);
+          await AsyncStorage.setItem(
+            STORAGE_PROFILES_KEY,
+            JSON.stringify(parsed)
+          );
+        }
+        if (!demoOffered) {
+          await AsyncStorage.setItem(STORAGE_DEMO_OFFERED_KEY, "1");
+        }
+
+        if (parsed.length) {
+          setProfiles(parsed);
+          const active = parsed.find((p) => p.id === storedActive);
+          setActiveId(active ? active.id : parsed[0].id);
+        }
+      } catch (e) {
+        console.warn("Failed to load server profiles", e);
+      } finally {
+        setLoadingProfiles(false);
+      }
+    };
+
+    loadProfiles();
+  }, []);
+
+  const saveProfiles = async (next: ServerProfile[], nextActiveId: string) => {
+    setProfiles(next);
+    setActiveId(nextActiveId);
+
+    await AsyncStorage.setItem(STORAGE_PROFILES_KEY, JSON.stringify(next));
+    await AsyncStorage.setItem(STORAGE_ACTIVE_PROFILE_KEY, nextActiveId);
+  };
+
+  const addProfile = useCallback(
+    async (input: ServerProfileInput) => {
+      const error = validateProfileInput(input);
+      if (error) throw new Error(error);
+
+      const profile: ServerProfile = {
+        id: `server-${Date.now()}`,
+        name: input.name.trim(),
+        baseUrl: normalizeBaseUrl(input.baseUrl),
+      };
+      await saveProfiles([...profiles, profile], activeId);
+      return profile;
+    },
+    [profiles, activeId]
+  );
+
+  // Re-adds the demo server if the user removed it earlier
+  const addDemoProfile = useCallback(async () => {
+    const existing = profiles.find((p) => isDemoBaseUrl(p.baseUrl));
+    if (existing) return existing;
+    await saveProfiles([...profiles, DEMO_PROFILE], activeId);
+    return DEMO_PROFILE;
+  }, [profiles, activeId]);
+
+  const updateProfile = useCallback(
+    async (id: string, input: ServerProfileInput) => {
+      const error = validateProfileInput(input);
+      if (error) throw new Error(error);
+
+      const next = profiles.map((p) =>
+        p.id === id
+          ? {
+              ...p,
+              name: input.name.trim(),
+              baseUrl: normalizeBaseUrl(input.baseUrl),
+            }
+          : p
+      );
+      await saveProfiles(next, activeId);
+    },
+    [profiles, activeId]
+  );
+
+  const removeProfile = useCallback(
+    async (id: string) => {
+      if (profiles.length <= 1) {
+        throw new Error("You need at least one server.");
+      }
+
+      const next = profiles.filter((p) => p.id !== id);
+      // Removing the active server falls back to the first remaining one
+      const nextActive = id === activeId ? next[0].id : activeId;
+      await saveProfiles(next, nextActive);
+    },
+    [profiles, activeId]
+  );
+
+  const setActiveProfile = useCallback(
+    async (id: string) => {
+      if (!profiles.some((p) => p.id === id)) return;
+      await saveProfiles(profiles, id);
+    },
+    [profiles]
+  );
+
+  const activeProfile =
+    profiles.find((p) => p.id === activeId) ?? profiles[0];
+
+  const value = useMemo<ServerContextValue>(
+    () => ({
+      profiles,
+      activeProfile,
+      baseUrl: activeProfile.baseUrl,
+      loadingProfiles,
+      addProfile,
+      addDemoProfile,
+      updateProfile,
+      removeProfile,
+      setActiveProfile,
+    }),
+    [
+      profiles,
+      activeProfile,
+      loadingProfiles,
+      addProfile,
+      addDemoProfile,
+      updateProfile,
+      removeProfile,
+      setActiveProfile,
+    ]
+  );
+
+  return (
+    <ServerContext.Provider value={value}>{children}</ServerContext.Provider>
+  );
+};
+
+export const useServer = () => {
+  const ctx = useContext(ServerContext);
+  if (!ctx) {
+    throw new Error("useServer must be used inside <ServerProvider>");
+  }
+  return ctx;
+};
@@ -0,0 +1,152 @@
+// app/server-sync-context.tsx
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  applyServerChanges,
+  MediaItem,
+  reconcileServerItems,
+  SERVER_ID_PREFIX,
+} from "@/lib/media";
+import { describeNasError } from "@/lib/nas-api";
+import { fetchServerChanges } from "@/lib/server-sync";
+import { useAuth } from "./auth-context";
+import { useCatalog } from "./catalog-context";
+import { useDeletionReview } from "./deletion-review-context";
+import { useServer } from "./server-context";
+
+export type SyncOptions = { full?: boolean; reset?: boolean };
+
+export type ServerSyncContextValue = {
+  syncing: boolean;
+  syncError: string | null;
+  lastSyncedAt: string | null; // this session only
+  // Resolves with the server's items after the sync, rejects on failure.
+  // `full` ignores the cursor and lists everything again; `reset` also
+  // takes that listing as the new baseline, without reporting what's
+  // missing from it as deleted (e.g. after wiping the server).
+  sync: (opts?: SyncOptions) => Promise<MediaItem[]>;
+};
+
+export const ServerSyncContext = createContext<
+  ServerSyncContextValue | undefined
+>(undefined);
+
+// Keeps the catalog's copy of the NAS library up to date. Both the Library
+// and the backup engine sync through here, so overlapping requests share
+// one round of network calls.
+export const ServerSyncProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { api } = useAuth();
+  const { activeProfile } = useServer();
+  const { media, setMedia, syncCursor, setSyncCursor } = useCatalog();
+  const { reportServerRemovals } = useDeletionReview();
+  const profileId = activeProfile.id;
+
+  const [syncing, setSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+
+  // Latest catalog state for the async sync to read
+  const mediaRef = useRef(media);
+  mediaRef.current = media;
+  const cursorRef = useRef(syncCursor);
+  cursorRef.current = syncCursor;
+  const inflightRef = useRef<Promise<MediaItem[]> | null>(null);
+  const profileRef = useRef(profileId);
+  profileRef.current = profileId;
+
+  // Errors and timestamps belong to the server profile they came from
+  useEffect(() => {
+    inflightRef.current = null;
+    setSyncError(null);
+    setLastSyncedAt(null);
+  }, [profileId]);
+
+  const runSync = useCallback(
+    async (full: boolean, reset: boolean) => {
+      setSyncing(true);
+      const startedFor = profileRef.current;
+      try {
+        const changes = await fetchServerChanges(
+          api,
+          full ? null : cursorRef.current
+        );
+        // Switched servers meanwhile; this listing isn't for this catalog
+        if (profileRef.current !== startedFor) return [];
+
+        const apply = (prev: MediaItem[]) =>
+          changes.full
+            ? reconcileServerItems(prev, changes.items)
+            : applyServerChanges(prev, changes.items, changes.deletedIds);
+
+        const next = apply(mediaRef.current);
+        const nextIds = new Set(next.map((m) => m.id));
+        const removed = mediaRef.current.filter(
+          (m) => m.id.startsWith(SERVER_ID_PREFIX) && !nextIds.has(m.id)
+        );
+        setMedia(apply);
+        // After a reset the listing may be incomplete, so it only becomes
+        // the baseline for the next sync
+        if (!reset && !changes.reset) reportServerRemovals(removed);
+        setSyncCursor(changes.cursor);
+        setSyncError(null);
+        setLastSyncedAt(new Date().toISOString());
+        return next.filter((m) => m.id.startsWith(SERVER_ID_PREFIX));
+      } catch (err) {
+        if (profileRef.current === startedFor) {
+          setSyncError(describeNasError(err));
+        }
+        throw err;
+      } finally {
+        setSyncing(false);
+      }
+    },
+    [api, setMedia, setSyncCursor, reportServerRemovals]
+  );
+
+  const sync = useCallback(
+    async ({ full = false, reset = false }: SyncOptions = {}) => {
+      const running = inflightRef.current;
+      if (running) {
+        if (!full && !reset) return running;
+        // A full resync must start after the current one, not join it
+        await running.catch(() => undefined);
+      }
+      const promise = runSync(full || reset, reset);
+      inflightRef.current = promise;
+      try {
+        return await promise;
+      } finally {
+        if (inflightRef.current === promise) inflightRef.current = null;
+      }
+    },
+    [runSync]
+  );
+
+  const value = useMemo<ServerSyncContextValue>(
+    () => ({ syncing, syncError, lastSyncedAt, sync }),
+    [syncing, syncError, lastSyncedAt, sync]
+  );
+
+  return (
+    <ServerSyncContext.Provider value={value}>
+      {children}
+    </ServerSyncContext.Provider>
+  );
+};
+
+export const useServerSync = () => {
+  const ctx = useContext(ServerSyncContext);
+  if (!ctx) {
+    throw new Error("useServerSync must be used inside <ServerSyncProvider>");
+  }
+  return ctx;
+};
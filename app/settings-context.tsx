@@ -0,0 +1,85 @@
+// app/settings-context.tsx
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  AppSettings,
+  DEFAULT_SETTINGS,
+  loadSettings,
+  sanitizeSettings,
+  saveSettings,
+} from "@/lib/app-settings";
+
+export type SettingsContextValue = {
+  settings: AppSettings;
+  settingsLoaded: boolean;
+  updateSettings: (patch: Partial<AppSettings>) => void;
+};
+
+export const SettingsContext = createContext<SettingsContextValue | undefined>(
+  undefined
+);
+
+export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  // Last settings read or written, so only the user's changes are saved
+  const savedRef = useRef<AppSettings>(DEFAULT_SETTINGS);
+
+  useEffect(() => {
+    loadSettings()
+      .then((loaded) => {
+        savedRef.current = loaded;
+        setSettings(loaded);
+      })
+      .catch((e) => console.warn("Failed to load settings", e))
+      .finally(() => setSettingsLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!settingsLoaded || settings === savedRef.current) return;
+    savedRef.current = settings;
+    saveSettings(settings).catch((e) =>
+      console.warn("Failed to save settings", e)
+    );
+  }, [settings, settingsLoaded]);
+
+  const updateSettings = useCallback((patch: Partial<AppSettings>) => {
+    setSettings((prev) => {
+      const next = sanitizeSettings({ ...prev, ...patch });
+      // sanitizeSettings copies the list; an equal one keeps its identity so
+      // the scanner (which depends on it) isn't rebuilt by unrelated changes
+      if (
+        next.excludedAlbumIds.join("\n") === prev.excludedAlbumIds.join("\n")
+      ) {
+        next.excludedAlbumIds = prev.excludedAlbumIds;
+      }
+      return next;
+    });
+  }, []);
+
+  const value = useMemo<SettingsContextValue>(
+    () => ({ settings, settingsLoaded, updateSettings }),
+    [settings, settingsLoaded, updateSettings]
+  );
+
+  return (
+    <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>
+  );
+};
+
+export const useSettings = () => {
+  const ctx = useContext(SettingsContext);
+  if (!ctx) {
+    throw new Error("useSettings must be used inside <SettingsProvider>");
+  }
+  return ctx;
+};
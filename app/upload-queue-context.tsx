@@ -0,0 +1,540 @@
+// app/upload-queue-context.tsx
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { AppState } from "react-native";
+import { MediaItem } from "@/lib/media";
+import { describeNasError, NasApiError } from "@/lib/nas-api";
+import { markUploaded, uploadMediaItem } from "@/lib/upload";
+import {
+  bytesPerSecond,
+  enqueueJobs,
+  failJob,
+  initialThrottle,
+  isActiveJob,
+  isRetryableUploadError,
+  loadUploadQueue,
+  nextRunnableJob,
+  nextWakeTime,
+  remainingBytes,
+  retryAfterMs,
+  retryDelayMs,
+  saveUploadQueue,
+  throttleAfterError,
+  throttleAfterSuccess,
+  ThroughputSample,
+  THROUGHPUT_WINDOW_MS,
+  updateJob,
+  UploadJob,
+  UploadThrottle,
+} from "@/lib/upload-queue";
+import { useAuth } from "./auth-context";
+import { useBackupPolicy } from "./backup-policy-context";
+import { useCatalog } from "./catalog-context";
+import { useServer } from "./server-context";
+import { useSettings } from "./settings-context";
+
+export type UploadQueueCounts = {
+  queued: number;
+  uploading: number;
+  failed: number;
+  done: number;
+  total: number;
+  bytesSent: number; // across jobs whose size is known
+  bytesTotal: number;
+};
+
+export type UploadThroughput = {
+  bytesPerSecond: number; // over the last few seconds
+  etaSeconds: number | null; // null until there's a rate to go on
+  workers: number; // uploads allowed to run right now
+};
+
+export type UploadQueueContextValue = {
+  jobs: UploadJob[];
+  counts: UploadQueueCounts;
+  throughput: UploadThroughput;
+  paused: boolean;
+  // Backup policy message ("Waiting for Wi-Fi") while it holds waiting jobs
+  waitingFor: string | null;
+  queueLoaded: boolean;
+  // Returns how many were added. With overridePolicy the items upload even
+  // when the Wi-Fi / battery rules would hold them.
+  enqueue: (items: MediaItem[], opts?: { overridePolicy?: boolean }) => number;
+  pause: () => void;
+  resume: () => void;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  retry: (id: string) => void;
+  retryFailed: () => void;
+  clearFinished: () => void;
+};
+
+// Progress updates arrive many times a second; storage gets at most one
+// write per interval
+const SAVE_INTERVAL_MS = 1000;
+
+export const UploadQueueContext = createContext<
+  UploadQueueContextValue | undefined
+>(undefined);
+
+export const UploadQueueProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { token, api } = useAuth();
+  const { activeProfile, loadingProfiles } = useServer();
+  const { media, setMedia, catalogLoaded } = useCatalog();
+  const { settings } = useSettings();
+  const { block } = useBackupPolicy();
+  const concurrency = settings.uploadConcurrency;
+  const profileId = activeProfile.id;
+
+  const [jobs, setJobs] = useState<UploadJob[]>([]);
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
+  const mediaRef = useRef(media);
+  mediaRef.current = media;
+  const [paused, setPaused] = useState(false);
+  // Profile whose queue is currently in state (null while loading)
+  const [loadedProfileId, setLoadedProfileId] = useState<string | null>(null);
+  // Bumped to re-run the worker when a back-off timer fires
+  const [wakeTick, setWakeTick] = useState(0);
+  const [throttle, setThrottle] = useState<UploadThrottle>(() =>
+    initialThrottle(concurrency)
+  );
+  const [rate, setRate] = useState(0);
+
+  // Ids of jobs a worker is uploading right now
+  const runningRef = useRef<Set<string>>(new Set());
+  // Aborts the running upload of a job that is cancelled, paused or held
+  const abortersRef = useRef<Map<string, AbortController>>(new Map());
+  const profileRef = useRef(profileId);
+  profileRef.current = profileId;
+  const concurrencyRef = useRef(concurrency);
+  concurrencyRef.current = concurrency;
+
+  // Running total of bytes sent this session, sampled for throughput
+  const bytesSentRef = useRef(0);
+  const lastProgressRef = useRef<Map<string, number>>(new Map());
+  const samplesRef = useRef<ThroughputSample[]>([]);
+
+  const queueLoaded = loadedProfileId === profileId;
+
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+
+  const flushPendingSave = () => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    pendingSaveRef.current?.();
+    pendingSaveRef.current = null;
+  };
+
+  // Load the queue on app start and whenever the server profile changes
+  useEffect(() => {
+    if (loadingProfiles) return;
+
+    let cancelled = false;
+    // Don't lose the previous profile's last changes
+    flushPendingSave();
+    setLoadedProfileId(null);
+
+    loadUploadQueue(profileId)
+      .catch((e) => {
+        console.warn("Failed to load upload queue", e);
+        return { jobs: [] as UploadJob[], paused: false };
+      })
+      .then((snapshot) => {
+        if (cancelled) return;
+        setJobs(snapshot.jobs);
+        setPaused(snapshot.paused);
+        setLoadedProfileId(profileId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId, loadingProfiles]);
+
+  // Persist changes so a killed app picks up where it left off. Unlike the
+  // catalog's debounce, the timer isn't pushed back by newer changes, so a
+  // steady stream of progress still gets saved.
+  useEffect(() => {
+    if (loadedProfileId === null) return;
+
+    pendingSaveRef.current = () => {
+      saveUploadQueue(loadedProfileId, jobs, paused).catch((e) =>
+        console.warn("Failed to save upload queue", e)
+      );
+    };
+    saveTimerRef.current ??= setTimeout(flushPendingSave, SAVE_INTERVAL_MS);
+  }, [jobs, paused, loadedProfileId]);
+
+  // The app may be killed in the background; write out anything pending
+  useEffect(() => {
+    const sub = AppState.addEventListener("change", (state) => {
+      if (state !== "active") flushPendingSave();
+    });
+    return () => sub.remove();
+  }, []);
+
+  // Switching servers stops the old profile's uploads, which would otherwise
+  // carry on with the new server's session; they resume from its stored
+  // queue when the user switches back
+  useEffect(() => {
+    const aborters = abortersRef.current;
+    return () => aborters.forEach((controller) => controller.abort());
+  }, [profileId]);
+
+  // A new concurrency setting starts the adaptive limit over
+  useEffect(() => {
+    setThrottle(initialThrottle(concurrency));
+  }, [concurrency]);
+
+  const recordProgress = useCallback((jobId: string, bytesSent: number) => {
+    const last = lastProgressRef.current.get(jobId) ?? 0;
+    lastProgressRef.current.set(jobId, bytesSent);
+    // A restarted chunked session can report fewer bytes than before
+    bytesSentRef.current += Math.max(0, bytesSent - last);
+
+    const now = Date.now();
+    samplesRef.current = [
+      ...samplesRef.current.filter((s) => now - s.at <= THROUGHPUT_WINDOW_MS),
+      { at: now, bytes: bytesSentRef.current },
+    ];
+  }, []);
+
+  const runJob = useCallback(
+    async (job: UploadJob) => {
+      const jobProfileId = profileRef.current;
+      const controller = new AbortController();
+      runningRef.current.add(job.id);
+      abortersRef.current.set(job.id, controller);
+      // A resumed session starts from bytes that were sent earlier
+      lastProgressRef.current.set(
+        job.id,
+        job.session ? job.bytesSent ?? 0 : 0
+      );
+      setJobs((prev) => updateJob(prev, job.id, { status: "uploading" }));
+
+      // Results for a profile we've since switched away from are dropped;
+      // the job is still queued in that profile's stored queue
+      const stillCurrent = () => profileRef.current === jobProfileId;
+
+      // Cancelled jobs are gone from the list; paused ones go back in line
+      // and resume their chunked session later
+      const stopped = () => {
+        if (!controller.signal.aborted) return false;
+        if (stillCurrent()) {
+          setJobs((prev) => updateJob(prev, job.id, { status: "queued" }));
+        }
+        return true;
+      };
+
+      try {
+        const item = mediaRef.current.find((m) => m.id === job.id);
+        if (!item) {
+          const message = "This item is no longer in the library.";
+          if (stillCurrent()) {
+            setJobs((prev) => failJob(prev, job.id, message, false));
+          }
+          return;
+        }
+        await uploadMediaItem(api, item, {
+          signal: controller.signal,
+          resume: job.session,
+          onSession: (session) => {
+            if (stillCurrent()) {
+              setJobs((prev) => updateJob(prev, job.id, { session }));
+            }
+          },
+          onProgress: ({ bytesSent, bytesTotal }) => {
+            recordProgress(job.id, bytesSent);
+            if (stillCurrent()) {
+              setJobs((prev) =>
+                updateJob(prev, job.id, { bytesSent, bytesTotal })
+              );
+            }
+          },
+        });
+        if (stopped() || !stillCurrent()) return;
+        // Keyed by id inside a functional update, so workers finishing out
+        // of order can't overwrite each other's catalog changes
+        setMedia((prev) => markUploaded(prev, job.id));
+        setThrottle((prev) =>
+          throttleAfterSuccess(prev, concurrencyRef.current)
+        );
+        setJobs((prev) =>
+          updateJob(prev, job.id, {
+            status: "done",
+            error: undefined,
+            nextAttemptAt: undefined,
+            session: undefined,
+            finishedAt: new Date().toISOString(),
+          })
+        );
+      } catch (err) {
+        if (stopped()) return;
+        console.warn("Upload failed", err);
+        if (!stillCurrent()) return;
+        const message = describeNasError(err);
+        if (err instanceof NasApiError && err.kind === "unauthorized") {
+          // Not the item's fault; wait for the user to sign back in
+          setJobs((prev) =>
+            updateJob(prev, job.id, {
+              status: "queued",
+              error: message,
+              nextAttemptAt: Date.now() + retryDelayMs(1),
+            })
+          );
+        } else {
+          const retryable = isRetryableUploadError(err);
+          const wait = retryAfterMs(err);
+          // The server (or the link to it) is struggling; ease off
+          if (retryable) setThrottle((t) => throttleAfterError(t, wait));
+          setJobs((prev) => failJob(prev, job.id, message, retryable, wait));
+        }
+      } finally {
+        runningRef.current.delete(job.id);
+        abortersRef.current.delete(job.id);
+        lastProgressRef.current.delete(job.id);
+        setWakeTick((n) => n + 1);
+      }
+    },
+    [api, setMedia, recordProgress]
+  );
+
+  const workers = Math.min(throttle.limit, concurrency);
+
+  // Worker pool: keeps up to `workers` uploads going, oldest runnable
+  // jobs first. Jobs find their items in the catalog, so nothing starts
+  // before it has been read.
+  useEffect(() => {
+    if (!queueLoaded || !catalogLoaded || paused || !token) return;
+
+    const now = Date.now();
+    // While the policy holds uploads, only explicitly overridden jobs run
+    const eligible = (job: UploadJob) => !block || job.overridePolicy === true;
+    if (throttle.coolDownUntil <= now) {
+      while (runningRef.current.size < workers) {
+        const next = nextRunnableJob(jobs, now, runningRef.current, eligible);
+        if (!next) break;
+        runJob(next);
+      }
+    }
+
+    const backedOff = nextWakeTime(jobs);
+    const coolingDown =
+      throttle.coolDownUntil > now ? throttle.coolDownUntil : null;
+    const wakeAt =
+      backedOff !== null && coolingDown !== null
+        ? Math.min(backedOff, coolingDown)
+        : backedOff ?? coolingDown;
+    if (wakeAt === null) return;
+    const timer = setTimeout(
+      () => setWakeTick((n) => n + 1),
+      Math.max(0, wakeAt - now)
+    );
+    return () => clearTimeout(timer);
+  }, [
+    jobs,
+    paused,
+    token,
+    queueLoaded,
+    catalogLoaded,
+    wakeTick,
+    runJob,
+    throttle,
+    workers,
+    block,
+  ]);
+
+  const uploading = jobs.some((j) => j.status === "uploading");
+
+  // Refresh the rate once a second while uploads are running
+  useEffect(() => {
+    if (!uploading) {
+      setRate(0);
+      return;
+    }
+    const timer = setInterval(
+      () => setRate(bytesPerSecond(samplesRef.current, Date.now())),
+      1000
+    );
+    return () => clearInterval(timer);
+  }, [uploading]);
+
+  // Stable, so callers can keep it in effect dependencies
+  const enqueue = useCallback(
+    (items: MediaItem[], { overridePolicy = false } = {}) => {
+      if (!items.length) return 0;
+      const waiting = new Set(
+        jobsRef.current.filter(isActiveJob).map((j) => j.id)
+      );
+      const added = items.filter((m) => !waiting.has(m.id)).length;
+      setJobs((prev) => enqueueJobs(prev, items, overridePolicy));
+      return added;
+    },
+    []
+  );
+
+  const abortUploads = useCallback((ids?: Set<string>) => {
+    abortersRef.current.forEach((controller, id) => {
+      if (!ids || ids.has(id)) controller.abort();
+    });
+  }, []);
+
+  // When the policy starts holding uploads (Wi-Fi lost, battery low), the
+  // running ones stop too and go back in line; overridden jobs keep going
+  useEffect(() => {
+    if (!block) return;
+    const held = new Set(
+      jobsRef.current
+        .filter((j) => j.status === "uploading" && !j.overridePolicy)
+        .map((j) => j.id)
+    );
+    if (held.size) abortUploads(held);
+  }, [block, abortUploads]);
+
+  // Uploads stop where they are; chunked ones resume from their session
+  const pause = useCallback(() => {
+    setPaused(true);
+    abortUploads();
+  }, [abortUploads]);
+  const resume = useCallback(() => setPaused(false), []);
+
+  const cancel = useCallback(
+    (id: string) => {
+      abortUploads(new Set([id]));
+      setJobs((prev) => prev.filter((j) => j.id !== id));
+    },
+    [abortUploads]
+  );
+
+  const cancelAll = useCallback(() => {
+    abortUploads();
+    setJobs((prev) => prev.filter((j) => j.status === "done"));
+  }, [abortUploads]);
+
+  const retry = useCallback((id: string) => {
+    setJobs((prev) =>
+      updateJob(prev, id, {
+        status: "queued",
+        attempts: 0,
+        error: undefined,
+        nextAttemptAt: undefined,
+        finishedAt: undefined,
+      })
+    );
+  }, []);
+
+  const retryFailed = useCallback(() => {
+    setJobs((prev) =>
+      prev.map((j) =>
+        j.status === "failed"
+          ? {
+              ...j,
+              status: "queued",
+              attempts: 0,
+              error: undefined,
+              finishedAt: undefined,
+            }
+          : j
+      )
+    );
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setJobs((prev) => prev.filter((j) => j.status !== "done"));
+  }, []);
+
+  const counts = useMemo<UploadQueueCounts>(() => {
+    const c: UploadQueueCounts = {
+      queued: 0,
+      uploading: 0,
+      failed: 0,
+      done: 0,
+      total: 0,
+      bytesSent: 0,
+      bytesTotal: 0,
+    };
+    for (const j of jobs) {
+      c[j.status]++;
+      c.total++;
+      if (j.status === "failed" || !j.bytesTotal) continue;
+      c.bytesTotal += j.bytesTotal;
+      c.bytesSent += j.status === "done" ? j.bytesTotal : j.bytesSent ?? 0;
+    }
+    return c;
+  }, [jobs]);
+
+  const waitingFor = useMemo(() => {
+    if (!block) return null;
+    const held = jobs.some((j) => isActiveJob(j) && !j.overridePolicy);
+    return held ? block.message : null;
+  }, [jobs, block]);
+
+  const throughput = useMemo<UploadThroughput>(() => {
+    const remaining = remainingBytes(jobs);
+    return {
+      bytesPerSecond: rate,
+      etaSeconds: rate > 0 ? Math.round(remaining / rate) : null,
+      workers,
+    };
+  }, [jobs, rate, workers]);
+
+  const value = useMemo<UploadQueueContextValue>(
+    () => ({
+      jobs,
+      counts,
+      throughput,
+      paused,
+      waitingFor,
+      queueLoaded,
+      enqueue,
+      pause,
+      resume,
+      cancel,
+      cancelAll,
+      retry,
+      retryFailed,
+      clearFinished,
+    }),
+    [
+      jobs,
+      counts,
+      throughput,
+      paused,
+      waitingFor,
+      queueLoaded,
+      enqueue,
+      pause,
+      resume,
+      cancel,
+      cancelAll,
+      retry,
+      retryFailed,
+      clearFinished,
+    ]
+  );
+
+  return (
+    <UploadQueueContext.Provider value={value}>
+      {children}
+    </UploadQueueContext.Provider>
+  );
+};
+
+export const useUploadQueue = () => {
+  const ctx = useContext(UploadQueueContext);
+  if (!ctx) {
+    throw new Error("useUploadQueue must be used inside <UploadQueueProvider>");
+  }
+  return ctx;
+};
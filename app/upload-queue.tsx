@@ -0,0 +1,349 @@
+// app/upload-queue.tsx
+import React, { useMemo } from "react";
+import {
+  Alert,
+  Image,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { formatBytes } from "@/lib/media";
+import {
+  describeThroughput,
+  UploadJob,
+  UploadJobStatus,
+} from "@/lib/upload-queue";
+import { Header, ScreenContainer } from "./(tabs)/_components";
+import { useCatalog } from "./catalog-context";
+import { useUploadQueue } from "./upload-queue-context";
+
+const STATUS_LABELS: Record<UploadJobStatus, string> = {
+  queued: "Waiting",
+  uploading: "Uploading…",
+  failed: "Failed",
+  done: "Uploaded",
+};
+
+const STATUS_COLORS: Record<UploadJobStatus, string> = {
+  queued: "#9ca3af",
+  uploading: "#38bdf8",
+  failed: "#f97373",
+  done: "#16a34a",
+};
+
+function statusText(job: UploadJob) {
+  if (job.status === "queued" && job.nextAttemptAt) {
+    const seconds = Math.max(
+      1,
+      Math.round((job.nextAttemptAt - Date.now()) / 1000)
+    );
+    return `Retrying in ${seconds}s (attempt ${job.attempts + 1})`;
+  }
+  if (job.status === "uploading" && job.bytesTotal) {
+    return `${formatBytes(job.bytesSent ?? 0)} of ${formatBytes(
+      job.bytesTotal
+    )}`;
+  }
+  if (job.status === "queued" && job.session && job.bytesSent) {
+    return `Waiting · ${formatBytes(job.bytesSent)} already sent`;
+  }
+  return STATUS_LABELS[job.status];
+}
+
+export default function UploadQueueScreen() {
+  const router = useRouter();
+  const {
+    jobs,
+    counts,
+    throughput,
+    paused,
+    waitingFor,
+    pause,
+    resume,
+    cancel,
+    cancelAll,
+    retry,
+    retryFailed,
+    clearFinished,
+  } = useUploadQueue();
+  const { media } = useCatalog();
+
+  // Jobs only hold ids; what they show comes from the catalog
+  const itemsById = useMemo(
+    () => new Map(media.map((m) => [m.id, m])),
+    [media]
+  );
+
+  const waiting = counts.queued + counts.uploading;
+
+  const handleCancelAll = () => {
+    Alert.alert(
+      "Cancel uploads",
+      `Remove ${waiting + counts.failed} unfinished item(s) from the queue?`,
+      [
+        { text: "Keep", style: "cancel" },
+        { text: "Cancel uploads", style: "destructive", onPress: cancelAll },
+      ]
+    );
+  };
+
+  const subtitle =
+    counts.total === 0
+      ? "Nothing to upload."
+      : `${counts.done} of ${counts.total} uploaded` +
+        (counts.bytesTotal
+          ? ` · ${formatBytes(counts.bytesSent)} of ${formatBytes(
+              counts.bytesTotal
+            )}`
+          : "") +
+        (counts.failed ? ` · ${counts.failed} failed` : "") +
+        (paused && waiting ? " · paused" : "");
+
+  return (
+    <ScreenContainer>
+      <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+        <Text style={styles.backButtonText}>‹ Back</Text>
+      </TouchableOpacity>
+
+      <Header title="Upload queue" subtitle={subtitle} />
+
+      {waitingFor && !paused ? (
+        <Text style={styles.policyText}>{waitingFor}</Text>
+      ) : null}
+
+      {counts.uploading > 0 && (
+        <Text style={styles.throughputText}>
+          {describeThroughput(throughput.bytesPerSecond, throughput.etaSeconds) ??
+            "Measuring speed…"}
+          {` · ${counts.uploading} of ${throughput.workers} workers busy`}
+        </Text>
+      )}
+
+      <View style={styles.actionsRow}>
+        {waiting > 0 && (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={paused ? resume : pause}
+          >
+            <Text style={styles.actionButtonText}>
+              {paused ? "Resume" : "Pause"}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {counts.failed > 0 && (
+          <TouchableOpacity style={styles.actionButton} onPress={retryFailed}>
+            <Text style={styles.actionButtonText}>Retry failed</Text>
+          </TouchableOpacity>
+        )}
+        {counts.done > 0 && (
+          <TouchableOpacity style={styles.actionButton} onPress={clearFinished}>
+            <Text style={styles.actionButtonText}>Clear finished</Text>
+          </TouchableOpacity>
+        )}
+        {waiting + counts.failed > 0 && (
+          <TouchableOpacity style={styles.actionButton} onPress={handleCancelAll}>
+            <Text style={styles.actionButtonTextDestructive}>Cancel all</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {jobs.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyTitle}>Queue is empty</Text>
+          <Text style={styles.emptySubtitle}>
+            Select items in the Library or tap &quot;Backup now&quot; on Home to
+            upload them to your NAS.
+          </Text>
+        </View>
+      ) : (
+        jobs.map((job) => {
+          const item = itemsById.get(job.id);
+          return (
+            <View key={job.id} style={styles.jobRow}>
+              {item ? (
+                <Image source={{ uri: item.uri }} style={styles.thumb} />
+              ) : (
+                <View style={styles.thumb} />
+              )}
+              <View style={{ flex: 1 }}>
+                <Text style={styles.jobTitle} numberOfLines={1}>
+                  {item ? (
+                    <>
+                      {item.type === "video" ? "Video" : "Photo"} ·{" "}
+                      {new Date(item.createdAt).toLocaleDateString()}
+                    </>
+                  ) : (
+                    "Removed from library"
+                  )}
+                </Text>
+                <Text
+                  style={[
+                    styles.jobStatus,
+                    { color: STATUS_COLORS[job.status] },
+                  ]}
+                >
+                  {statusText(job)}
+                </Text>
+                {job.status === "uploading" && job.bytesTotal ? (
+                  <View style={styles.jobProgressBar}>
+                    <View
+                      style={[
+                        styles.jobProgressFill,
+                        {
+                          width: `${((job.bytesSent ?? 0) / job.bytesTotal) * 100}%`,
+                        },
+                      ]}
+                    />
+                  </View>
+                ) : null}
+                {job.error && job.status !== "done" ? (
+                  <Text style={styles.jobError} numberOfLines={2}>
+                    {job.error}
+                  </Text>
+                ) : null}
+              </View>
+              {job.status === "failed" && (
+                <TouchableOpacity
+                  style={styles.smallButton}
+                  onPress={() => retry(job.id)}
+                >
+                  <Text style={styles.smallButtonText}>Retry</Text>
+                </TouchableOpacity>
+              )}
+              {job.status !== "done" && (
+                <TouchableOpacity
+                  style={styles.smallButton}
+                  onPress={() => cancel(job.id)}
+                >
+                  <Text style={styles.smallButtonTextDestructive}>Cancel</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          );
+        })
+      )}
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  backButton: {
+    alignSelf: "flex-start",
+    paddingVertical: 4,
+    marginBottom: 8,
+  },
+  backButtonText: {
+    fontSize: 14,
+    color: "#38bdf8",
+    fontWeight: "500",
+  },
+  policyText: {
+    fontSize: 12,
+    color: "#fbbf24",
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  throughputText: {
+    fontSize: 12,
+    color: "#9ca3af",
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  actionsRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#38bdf8",
+  },
+  actionButtonText: {
+    fontSize: 12,
+    color: "#38bdf8",
+    fontWeight: "600",
+  },
+  actionButtonTextDestructive: {
+    fontSize: 12,
+    color: "#f97373",
+    fontWeight: "600",
+  },
+  emptyState: {
+    paddingVertical: 40,
+    alignItems: "center",
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#e5e7eb",
+  },
+  emptySubtitle: {
+    fontSize: 13,
+    color: "#9ca3af",
+    marginTop: 6,
+    textAlign: "center",
+  },
+  jobRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    padding: 10,
+    marginBottom: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#1f2933",
+    backgroundColor: "#020617",
+  },
+  thumb: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: "#111827",
+  },
+  jobTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#e5e7eb",
+  },
+  jobStatus: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  jobProgressBar: {
+    height: 4,
+    borderRadius: 999,
+    backgroundColor: "#111827",
+    overflow: "hidden",
+    marginTop: 6,
+  },
+  jobProgressFill: {
+    height: "100%",
+    backgroundColor: "#38bdf8",
+  },
+  jobError: {
+    fontSize: 11,
+    color: "#f97373",
+    marginTop: 2,
+  },
+  smallButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  smallButtonText: {
+    fontSize: 11,
+    color: "#e5e7eb",
+  },
+  smallButtonTextDestructive: {
+    fontSize: 11,
+    color: "#f97373",
+  },
+});
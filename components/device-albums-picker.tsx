@@ -0,0 +1,145 @@
+// components/device-albums-picker.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  StyleSheet,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useSettings } from "@/app/settings-context";
+import {
+  DeviceAlbum,
+  DeviceLibraryError,
+  ensureMediaPermission,
+  listDeviceAlbums,
+} from "@/lib/device-library";
+
+// Device albums with an include / exclude switch each. Backup skips the
+// excluded ones; the next scan picks up the change.
+export const DeviceAlbumsPicker: React.FC = () => {
+  const { settings, updateSettings } = useSettings();
+  const [albums, setAlbums] = useState<DeviceAlbum[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<DeviceLibraryError | null>(null);
+
+  const load = useCallback(async (prompt: boolean) => {
+    setLoading(true);
+    try {
+      await ensureMediaPermission(prompt);
+      setAlbums(await listDeviceAlbums());
+      setError(null);
+    } catch (e) {
+      if (e instanceof DeviceLibraryError) {
+        setError(e);
+      } else {
+        console.warn("Failed to list device albums", e);
+        setError(new DeviceLibraryError("unsupported", "Could not read albums."));
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load(false);
+  }, [load]);
+
+  const excluded = new Set(settings.excludedAlbumIds);
+
+  const setIncluded = (album: DeviceAlbum, included: boolean) => {
+    const next = new Set(excluded);
+    if (included) next.delete(album.id);
+    else next.add(album.id);
+    updateSettings({ excludedAlbumIds: [...next] });
+  };
+
+  if (loading && !albums) {
+    return <ActivityIndicator style={styles.loading} color="#38bdf8" />;
+  }
+
+  if (error) {
+    return (
+      <View>
+        <Text style={styles.hint}>{error.message}</Text>
+        {error.kind === "permission" && (
+          <TouchableOpacity style={styles.button} onPress={() => load(true)}>
+            <Text style={styles.buttonText}>Allow access</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+
+  if (!albums?.length) {
+    return <Text style={styles.hint}>No albums found on this device.</Text>;
+  }
+
+  const includedCount = albums.filter((a) => !excluded.has(a.id)).length;
+
+  return (
+    <View>
+      <Text style={styles.hint}>
+        {includedCount} of {albums.length} albums backed up.
+      </Text>
+      {albums.map((album) => (
+        <View key={album.id} style={styles.row}>
+          <View style={{ flex: 1, paddingRight: 8 }}>
+            <Text style={styles.title} numberOfLines={1}>
+              {album.title}
+            </Text>
+            <Text style={styles.count}>
+              {album.assetCount.toLocaleString()} items
+            </Text>
+          </View>
+          <Switch
+            value={!excluded.has(album.id)}
+            onValueChange={(value) => setIncluded(album, value)}
+          />
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loading: {
+    marginTop: 12,
+  },
+  hint: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 4,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "#1f2933",
+  },
+  title: {
+    fontSize: 13,
+    color: "#e5e7eb",
+  },
+  count: {
+    fontSize: 11,
+    color: "#9ca3af",
+    marginTop: 2,
+  },
+  button: {
+    alignSelf: "flex-start",
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#38bdf8",
+  },
+  buttonText: {
+    fontSize: 12,
+    color: "#38bdf8",
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,166 @@
+// components/jump-to-date.tsx
+import React, { useMemo } from "react";
+import {
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { TimelineMonth } from "@/lib/timeline";
+
+type Props = {
+  visible: boolean;
+  months: TimelineMonth[];
+  onSelect: (month: TimelineMonth) => void;
+  onClose: () => void;
+};
+
+const MONTH_NAMES = Array.from({ length: 12 }, (_, m) =>
+  new Date(2000, m, 1).toLocaleDateString(undefined, { month: "short" })
+);
+
+// Year-by-year month grid; months without items are shown but disabled
+export function JumpToDate({ visible, months, onSelect, onClose }: Props) {
+  const years = useMemo(() => {
+    const byYear = new Map<number, (TimelineMonth | undefined)[]>();
+    for (const m of months) {
+      const row = byYear.get(m.year) ?? new Array(12).fill(undefined);
+      row[m.month] = m;
+      byYear.set(m.year, row);
+    }
+    return Array.from(byYear.entries());
+  }, [months]);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.backdrop}>
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+
+        <View style={styles.content}>
+          <View style={styles.headerRow}>
+            <Text style={styles.title}>Jump to date</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Text style={styles.closeText}>Close</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            {years.map(([year, row]) => (
+              <View key={year} style={styles.year}>
+                <Text style={styles.yearTitle}>{year}</Text>
+                <View style={styles.monthGrid}>
+                  {/* Oldest to newest reads like a calendar */}
+                  {row.map((month, m) => (
+                    <TouchableOpacity
+                      key={m}
+                      disabled={!month}
+                      onPress={() => month && onSelect(month)}
+                      style={[styles.month, !month && styles.monthEmpty]}
+                    >
+                      <Text
+                        style={[
+                          styles.monthText,
+                          !month && styles.monthTextEmpty,
+                        ]}
+                      >
+                        {MONTH_NAMES[m]}
+                      </Text>
+                      {month && (
+                        <Text style={styles.monthCount}>{month.count}</Text>
+                      )}
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.85)",
+    justifyContent: "center",
+  },
+  content: {
+    maxHeight: "80%",
+    marginHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#1f2933",
+    backgroundColor: "#020617",
+    padding: 14,
+  },
+  headerRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#e5e7eb",
+  },
+  closeButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  closeText: {
+    fontSize: 12,
+    color: "#e5e7eb",
+  },
+  year: {
+    marginBottom: 12,
+  },
+  yearTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#e5e7eb",
+    marginBottom: 6,
+  },
+  monthGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  month: {
+    width: "22%",
+    paddingVertical: 6,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#38bdf8",
+    alignItems: "center",
+  },
+  monthEmpty: {
+    borderColor: "#1f2933",
+  },
+  monthText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#38bdf8",
+  },
+  monthTextEmpty: {
+    color: "#4b5563",
+    fontWeight: "400",
+  },
+  monthCount: {
+    fontSize: 10,
+    color: "#9ca3af",
+  },
+});
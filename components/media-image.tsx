@@ -0,0 +1,56 @@
+// components/media-image.tsx
+import { Image, ImageContentFit, ImageSource, ImageStyle } from "expo-image";
+import React from "react";
+import { StyleProp } from "react-native";
+import { useAuth } from "@/app/auth-context";
+import { MediaItem, MediaSize, mediaUri } from "@/lib/media";
+
+type Props = {
+  item: MediaItem;
+  size?: MediaSize;
+  // Shown until `size` has loaded; defaults to the item's blurhash /
+  // thumbhash. The viewer passes a smaller rendition here.
+  placeholderSize?: MediaSize;
+  contentFit?: ImageContentFit;
+  style?: StyleProp<ImageStyle>;
+};
+
+// Loads the requested rendition of a media item, sending our token to the
+// NAS and caching on disk so scrolling back doesn't download it again
+export function MediaImage({
+  item,
+  size = "thumbnail",
+  placeholderSize,
+  contentFit = "cover",
+  style,
+}: Props) {
+  const { api } = useAuth();
+
+  const sourceFor = (s: MediaSize): ImageSource => {
+    const uri = mediaUri(item, s);
+    return { uri, headers: api.fileHeaders(uri) };
+  };
+
+  const source = sourceFor(size);
+  let placeholder: ImageSource | undefined;
+  if (placeholderSize && mediaUri(item, placeholderSize) !== source.uri) {
+    placeholder = sourceFor(placeholderSize);
+  } else if (item.thumbhash) {
+    placeholder = { thumbhash: item.thumbhash };
+  } else if (item.blurhash) {
+    placeholder = { blurhash: item.blurhash };
+  }
+
+  return (
+    <Image
+      source={source}
+      placeholder={placeholder}
+      placeholderContentFit={contentFit}
+      contentFit={contentFit}
+      recyclingKey={item.id}
+      cachePolicy="memory-disk"
+      transition={150}
+      style={style}
+    />
+  );
+}
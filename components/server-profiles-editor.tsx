@@ -0,0 +1,309 @@
+// components/server-profiles-editor.tsx
+import React, { useState } from "react";
+import {
+  Alert,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { ServerProfile, useServer } from "@/app/server-context";
+import { isDemoBaseUrl } from "@/lib/mock-nas";
+
+type EditorState =
+  | { mode: "closed" }
+  | { mode: "add" }
+  | { mode: "edit"; profile: ServerProfile };
+
+// List of NAS endpoints with pick / add / edit / remove.
+// Shared by the login screen and Settings.
+export const ServerProfilesEditor: React.FC = () => {
+  const {
+    profiles,
+    activeProfile,
+    addProfile,
+    addDemoProfile,
+    updateProfile,
+    removeProfile,
+    setActiveProfile,
+  } = useServer();
+
+  const [editor, setEditor] = useState<EditorState>({ mode: "closed" });
+  const [name, setName] = useState("");
+  const [baseUrl, setBaseUrl] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const openAdd = () => {
+    setEditor({ mode: "add" });
+    setName("");
+    setBaseUrl("http://");
+    setError(null);
+  };
+
+  const openEdit = (profile: ServerProfile) => {
+    setEditor({ mode: "edit", profile });
+    setName(profile.name);
+    setBaseUrl(profile.baseUrl);
+    setError(null);
+  };
+
+  const closeEditor = () => {
+    setEditor({ mode: "closed" });
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    try {
+      if (editor.mode === "add") {
+        await addProfile({ name, baseUrl });
+      } else if (editor.mode === "edit") {
+        await updateProfile(editor.profile.id, { name, baseUrl });
+      }
+      closeEditor();
+    } catch (e: any) {
+      setError(e?.message || "Could not save server.");
+    }
+  };
+
+  const handleRemove = (profile: ServerProfile) => {
+    Alert.alert("Remove server", `Remove "${profile.name}" from this app?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await removeProfile(profile.id);
+            if (editor.mode === "edit" && editor.profile.id === profile.id) {
+              closeEditor();
+            }
+          } catch (e: any) {
+            Alert.alert("Error", e?.message || "Could not remove server.");
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View>
+      {profiles.map((profile) => {
+        const isActive = profile.id === activeProfile.id;
+        return (
+          <TouchableOpacity
+            key={profile.id}
+            style={[styles.profileRow, isActive && styles.profileRowActive]}
+            onPress={() => setActiveProfile(profile.id)}
+            activeOpacity={0.8}
+          >
+            <Text style={[styles.radio, isActive && styles.radioActive]}>
+              {isActive ? "●" : "○"}
+            </Text>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.profileName}>{profile.name}</Text>
+              <Text style={styles.profileUrl} numberOfLines={1}>
+                {profile.baseUrl}
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => openEdit(profile)}
+              style={styles.smallButton}
+            >
+              <Text style={styles.smallButtonText}>Edit</Text>
+            </TouchableOpacity>
+            {profiles.length > 1 && (
+              <TouchableOpacity
+                onPress={() => handleRemove(profile)}
+                style={styles.smallButton}
+              >
+                <Text style={styles.smallButtonTextDestructive}>Remove</Text>
+              </TouchableOpacity>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+
+      {editor.mode === "closed" ? (
+        <>
+          <TouchableOpacity style={styles.addButton} onPress={openAdd}>
+            <Text style={styles.addButtonText}>+ Add server</Text>
+          </TouchableOpacity>
+          {!profiles.some((p) => isDemoBaseUrl(p.baseUrl)) && (
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => addDemoProfile()}
+            >
+              <Text style={styles.addButtonText}>+ Add demo server</Text>
+            </TouchableOpacity>
+          )}
+        </>
+      ) : (
+        <View style={styles.form}>
+          <Text style={styles.formTitle}>
+            {editor.mode === "add" ? "New server" : "Edit server"}
+          </Text>
+
+          <Text style={styles.label}>Name</Text>
+          <TextInput
+            value={name}
+            onChangeText={setName}
+            placeholder="Home NAS"
+            placeholderTextColor="#6b7280"
+            style={styles.input}
+          />
+
+          <Text style={styles.label}>Server URL</Text>
+          <TextInput
+            value={baseUrl}
+            onChangeText={setBaseUrl}
+            placeholder="http://192.168.0.100:3001"
+            placeholderTextColor="#6b7280"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            style={styles.input}
+          />
+
+          {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+          <View style={styles.formButtonsRow}>
+            <TouchableOpacity
+              style={styles.formSecondaryButton}
+              onPress={closeEditor}
+            >
+              <Text style={styles.formSecondaryButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.formPrimaryButton}
+              onPress={handleSave}
+            >
+              <Text style={styles.formPrimaryButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  profileRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 8,
+    padding: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#1f2933",
+  },
+  profileRowActive: {
+    borderColor: "#38bdf8",
+  },
+  radio: {
+    fontSize: 14,
+    color: "#6b7280",
+  },
+  radioActive: {
+    color: "#38bdf8",
+  },
+  profileName: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#e5e7eb",
+  },
+  profileUrl: {
+    fontSize: 11,
+    color: "#9ca3af",
+    marginTop: 2,
+  },
+  smallButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#374151",
+  },
+  smallButtonText: {
+    fontSize: 11,
+    color: "#e5e7eb",
+  },
+  smallButtonTextDestructive: {
+    fontSize: 11,
+    color: "#f97373",
+  },
+  addButton: {
+    marginTop: 10,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#38bdf8",
+    alignItems: "center",
+  },
+  addButtonText: {
+    fontSize: 12,
+    color: "#38bdf8",
+    fontWeight: "600",
+  },
+  form: {
+    marginTop: 10,
+    padding: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#1f2933",
+  },
+  formTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#e5e7eb",
+  },
+  label: {
+    fontSize: 12,
+    color: "#9ca3af",
+    marginTop: 8,
+  },
+  input: {
+    marginTop: 4,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#1f2933",
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: "#e5e7eb",
+    fontSize: 13,
+  },
+  errorText: {
+    marginTop: 8,
+    fontSize: 12,
+    color: "#f97373",
+  },
+  formButtonsRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 12,
+  },
+  formSecondaryButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#4b5563",
+  },
+  formSecondaryButtonText: {
+    fontSize: 12,
+    color: "#9ca3af",
+  },
+  formPrimaryButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    backgroundColor: "#38bdf8",
+  },
+  formPrimaryButtonText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#0f172a",
+  },
+});
@@ -0,0 +1,153 @@
+// components/timeline-scrubber.tsx
+import React, { useRef, useState } from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import { ScrubberMark } from "@/lib/timeline";
+
+type Props = {
+  marks: ScrubberMark[];
+  total: number;
+  topIndex: number; // first item on screen, to place the handle
+  labelFor: (index: number) => string;
+  onScrub: (index: number) => void;
+};
+
+const HANDLE_HEIGHT = 36;
+
+// Drag strip along the right edge of the timeline. Positions map to item
+// indices, so dragging moves through the library at a steady rate however
+// the items are spread over time.
+export function TimelineScrubber({
+  marks,
+  total,
+  topIndex,
+  labelFor,
+  onScrub,
+}: Props) {
+  const [height, setHeight] = useState(0);
+  const [drag, setDrag] = useState<{ y: number; label: string } | null>(
+    null
+  );
+  const lastIndex = useRef(-1);
+
+  const scrubTo = (y: number) => {
+    if (!height || !total) return;
+    const clamped = Math.min(Math.max(y, 0), height);
+    const index = Math.min(
+      total - 1,
+      Math.floor((clamped / height) * total)
+    );
+    setDrag({ y: clamped, label: labelFor(index) });
+    if (index === lastIndex.current) return;
+    lastIndex.current = index;
+    onScrub(index);
+  };
+
+  const pan = Gesture.Pan()
+    .runOnJS(true)
+    .minDistance(0)
+    .onBegin((e) => scrubTo(e.y))
+    .onUpdate((e) => scrubTo(e.y))
+    .onFinalize(() => {
+      lastIndex.current = -1;
+      setDrag(null);
+    });
+
+  const handleY = drag
+    ? drag.y
+    : total
+    ? (topIndex / total) * height
+    : 0;
+  const handleTop = Math.min(
+    Math.max(handleY - HANDLE_HEIGHT / 2, 0),
+    Math.max(height - HANDLE_HEIGHT, 0)
+  );
+
+  return (
+    <View
+      style={styles.container}
+      pointerEvents="box-none"
+      onLayout={(e) => setHeight(e.nativeEvent.layout.height)}
+    >
+      {/* Year / month marks while dragging */}
+      {drag &&
+        marks.map((mark) => (
+          <Text
+            key={mark.key}
+            style={[styles.markText, { top: mark.fraction * height - 7 }]}
+          >
+            {mark.label}
+          </Text>
+        ))}
+
+      {drag && (
+        <View style={[styles.bubble, { top: Math.max(drag.y - 16, 0) }]}>
+          <Text style={styles.bubbleText}>{drag.label}</Text>
+        </View>
+      )}
+
+      <GestureDetector gesture={pan}>
+        <View style={styles.track}>
+          <View
+            style={[
+              styles.handle,
+              drag && styles.handleActive,
+              { top: handleTop },
+            ]}
+          />
+        </View>
+      </GestureDetector>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    right: 0,
+    width: 160,
+  },
+  track: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    right: 0,
+    width: 28,
+  },
+  handle: {
+    position: "absolute",
+    right: 4,
+    width: 8,
+    height: HANDLE_HEIGHT,
+    borderRadius: 999,
+    backgroundColor: "rgba(148,163,184,0.6)",
+  },
+  handleActive: {
+    backgroundColor: "#38bdf8",
+  },
+  markText: {
+    position: "absolute",
+    right: 32,
+    fontSize: 10,
+    color: "#e5e7eb",
+    backgroundColor: "rgba(2,6,23,0.8)",
+    paddingHorizontal: 6,
+    borderRadius: 999,
+    overflow: "hidden",
+  },
+  bubble: {
+    position: "absolute",
+    right: 72,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 999,
+    backgroundColor: "#38bdf8",
+  },
+  bubbleText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#0f172a",
+  },
+});
@@ -0,0 +1,252 @@
+// components/video-player.tsx
+import { useEvent, useEventListener } from "expo";
+import { useVideoPlayer, VideoSource, VideoView } from "expo-video";
+import React, { useEffect, useState } from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import { useAuth } from "@/app/auth-context";
+import { assetIdOf, resolveLocalUri } from "@/lib/device-library";
+import { formatDuration, MediaItem } from "@/lib/media";
+import { MediaImage } from "./media-image";
+
+type Props = {
+  item: MediaItem;
+};
+
+// Plays a video page in the fullscreen viewer. NAS items are streamed from
+// their URL with our token; the native players fetch them with range
+// requests, so playback starts early and seeking doesn't download the whole
+// file. Device items play from a local file; their library URIs can be
+// opaque (ph:// on iOS), so the file is looked up first.
+export function VideoPlayer({ item }: Props) {
+  const { api } = useAuth();
+
+  const isDevice = assetIdOf(item) !== null;
+  const [source, setSource] = useState<VideoSource>(null);
+  const [resolveError, setResolveError] = useState<string | null>(null);
+  useEffect(() => {
+    if (!isDevice) {
+      setSource({ uri: item.uri, headers: api.fileHeaders(item.uri) });
+      return;
+    }
+    let cancelled = false;
+    setSource(null);
+    setResolveError(null);
+    resolveLocalUri(item)
+      .then((uri) => {
+        if (!cancelled) setSource({ uri });
+      })
+      .catch((e) => {
+        console.warn("Could not open video", item.id, e);
+        if (!cancelled) setResolveError("The file isn't available.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [item, isDevice, api]);
+
+  const player = useVideoPlayer(source, (p) => {
+    p.timeUpdateEventInterval = 0.25;
+    p.play();
+  });
+
+  const { isPlaying } = useEvent(player, "playingChange", {
+    isPlaying: player.playing,
+  });
+  const { muted } = useEvent(player, "mutedChange", { muted: player.muted });
+  const { status, error } = useEvent(player, "statusChange", {
+    status: player.status,
+  });
+
+  const [currentTime, setCurrentTime] = useState(0);
+  useEventListener(player, "timeUpdate", (e) => setCurrentTime(e.currentTime));
+
+  // Start again from the top when play is pressed after the end
+  const [ended, setEnded] = useState(false);
+  useEventListener(player, "playToEnd", () => setEnded(true));
+  useEventListener(player, "playingChange", (e) => {
+    if (e.isPlaying) setEnded(false);
+  });
+
+  const [duration, setDuration] = useState(0);
+  useEffect(() => {
+    if (status === "readyToPlay" && player.duration > 0) {
+      setDuration(player.duration);
+    }
+  }, [status, player]);
+
+  // Scrubbing: the bar follows the finger and the player seeks on release
+  const [barWidth, setBarWidth] = useState(0);
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+
+  const timeAt = (x: number) =>
+    barWidth && duration
+      ? (Math.min(Math.max(x, 0), barWidth) / barWidth) * duration
+      : 0;
+
+  const seek = Gesture.Pan()
+    .runOnJS(true)
+    .minDistance(0)
+    .onBegin((e) => setScrubTime(timeAt(e.x)))
+    .onUpdate((e) => setScrubTime(timeAt(e.x)))
+    .onEnd((e) => {
+      const time = timeAt(e.x);
+      player.currentTime = time;
+      setCurrentTime(time);
+      setEnded(false);
+    })
+    .onFinalize(() => setScrubTime(null));
+
+  const togglePlay = () => {
+    if (isPlaying) {
+      player.pause();
+      return;
+    }
+    if (ended) player.currentTime = 0;
+    player.play();
+  };
+
+  const failure =
+    resolveError ?? (status === "error" ? error?.message ?? "" : null);
+  const shownTime = scrubTime ?? currentTime;
+  const progress = duration ? Math.min(shownTime / duration, 1) : 0;
+
+  return (
+    <View style={styles.container}>
+      <VideoView
+        player={player}
+        style={styles.video}
+        contentFit="contain"
+        nativeControls={false}
+      />
+
+      {/* Poster until the first frame is ready */}
+      {(status !== "readyToPlay" || failure !== null) && (
+        <View style={styles.overlay} pointerEvents="none">
+          <MediaImage
+            item={item}
+            size="preview"
+            contentFit="contain"
+            style={styles.video}
+          />
+          <Text style={styles.statusText}>
+            {failure !== null
+              ? `Couldn't play this video${failure ? `\n${failure}` : ""}`
+              : "Loading…"}
+          </Text>
+        </View>
+      )}
+
+      <View style={styles.controls}>
+        <TouchableOpacity onPress={togglePlay} style={styles.controlButton}>
+          <Text style={styles.controlText}>{isPlaying ? "❚❚" : "▶"}</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.timeText}>{formatDuration(shownTime)}</Text>
+
+        <GestureDetector gesture={seek}>
+          <View
+            style={styles.bar}
+            onLayout={(e) => setBarWidth(e.nativeEvent.layout.width)}
+          >
+            <View style={styles.barTrack}>
+              <View
+                style={[styles.barFill, { width: `${progress * 100}%` }]}
+              />
+            </View>
+            <View
+              style={[styles.barThumb, { left: progress * barWidth - 6 }]}
+            />
+          </View>
+        </GestureDetector>
+
+        <Text style={styles.timeText}>{formatDuration(duration)}</Text>
+
+        <TouchableOpacity
+          onPress={() => {
+            player.muted = !muted;
+          }}
+          style={styles.controlButton}
+        >
+          <Text style={styles.controlText}>{muted ? "Unmute" : "Mute"}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+    height: "100%",
+  },
+  video: {
+    width: "100%",
+    height: "100%",
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  statusText: {
+    position: "absolute",
+    color: "white",
+    fontSize: 13,
+    textAlign: "center",
+    backgroundColor: "rgba(0,0,0,0.6)",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 999,
+    overflow: "hidden",
+  },
+  controls: {
+    position: "absolute",
+    left: 16,
+    right: 16,
+    bottom: 100,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 999,
+    backgroundColor: "rgba(0,0,0,0.6)",
+  },
+  controlButton: {
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+  },
+  controlText: {
+    color: "white",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  timeText: {
+    color: "white",
+    fontSize: 12,
+    fontVariant: ["tabular-nums"],
+  },
+  bar: {
+    flex: 1,
+    height: 28,
+    justifyContent: "center",
+  },
+  barTrack: {
+    height: 4,
+    borderRadius: 999,
+    backgroundColor: "rgba(255,255,255,0.3)",
+    overflow: "hidden",
+  },
+  barFill: {
+    height: "100%",
+    backgroundColor: "#38bdf8",
+  },
+  barThumb: {
+    position: "absolute",
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: "white",
+  },
+});
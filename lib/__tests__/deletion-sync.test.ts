@@ -0,0 +1,164 @@
+import {
+  DeletionCandidate,
+  dueDeletions,
+  findDeviceRemovals,
+  findServerRemovals,
+  isMassRemoval,
+  mergeCandidates,
+  MIRROR_UNDO_WINDOW_MS,
+  scheduleDeletions,
+} from "../deletion-sync";
+import { DEVICE_ID_PREFIX, MediaItem, SERVER_ID_PREFIX } from "../media";
+
+function item(id: string, patch: Partial<MediaItem> = {}): MediaItem {
+  return {
+    id,
+    uri: `file:///${id}.jpg`,
+    createdAt: "2024-05-01T10:00:00.000Z",
+    type: "photo",
+    source: id.startsWith(SERVER_ID_PREFIX) ? "server" : "device",
+    width: 4032,
+    height: 3024,
+    ...patch,
+  };
+}
+
+const device = (name: string, patch?: Partial<MediaItem>) =>
+  item(`${DEVICE_ID_PREFIX}${name}`, patch);
+const server = (name: string, patch?: Partial<MediaItem>) =>
+  item(`${SERVER_ID_PREFIX}${name}`, patch);
+
+const now = new Date("2024-06-01T12:00:00.000Z");
+
+describe("findDeviceRemovals", () => {
+  it("lists the server copy of a photo deleted on the phone", () => {
+    const catalog = [server("x", { hash: "h1" }), server("y", { hash: "h2" })];
+    const found = findDeviceRemovals(
+      catalog,
+      [device("a", { hash: "h1" })],
+      now
+    );
+    expect(found).toEqual([
+      {
+        id: `${SERVER_ID_PREFIX}x`,
+        item: catalog[0],
+        deletedOn: "device",
+        detectedAt: now.toISOString(),
+      },
+    ]);
+  });
+
+  it("never matches on date and size alone", () => {
+    // Same timestamp and resolution, like shots from a burst
+    const catalog = [server("x"), server("y", { hash: "h2" })];
+    expect(findDeviceRemovals(catalog, [device("a")], now)).toEqual([]);
+    expect(
+      findDeviceRemovals(catalog, [device("a", { hash: "h1" })], now)
+    ).toEqual([]);
+  });
+
+  it("only looks at server items", () => {
+    const catalog = [device("b", { hash: "h1" })];
+    expect(
+      findDeviceRemovals(catalog, [device("a", { hash: "h1" })], now)
+    ).toEqual([]);
+  });
+});
+
+describe("findServerRemovals", () => {
+  it("lists every device copy with the deleted hash", () => {
+    const catalog = [
+      device("a", { hash: "h1" }),
+      device("b", { hash: "h1" }),
+      device("c", { hash: "h2" }),
+      server("x", { hash: "h1" }),
+    ];
+    const found = findServerRemovals(
+      catalog,
+      [server("x", { hash: "h1" })],
+      now
+    );
+    expect(found.map((c) => c.id)).toEqual([
+      `${DEVICE_ID_PREFIX}a`,
+      `${DEVICE_ID_PREFIX}b`,
+    ]);
+    expect(found.every((c) => c.deletedOn === "server")).toBe(true);
+  });
+
+  it("skips device items that haven't been hashed yet", () => {
+    const catalog = [device("a")];
+    expect(
+      findServerRemovals(catalog, [server("x", { hash: "h1" })], now)
+    ).toEqual([]);
+  });
+});
+
+describe("mirror scheduling", () => {
+  const candidate = (id: string): DeletionCandidate => ({
+    id,
+    item: device(id, { hash: id }),
+    deletedOn: "server",
+    detectedAt: now.toISOString(),
+  });
+
+  it("schedules deletions one undo window ahead", () => {
+    const [scheduled] = scheduleDeletions([candidate("a")], now.getTime());
+    expect(new Date(scheduled.deleteAfter!).getTime()).toBe(
+      now.getTime() + MIRROR_UNDO_WINDOW_MS
+    );
+  });
+
+  it("only returns scheduled candidates whose window has passed", () => {
+    const scheduled = scheduleDeletions([candidate("a")], now.getTime());
+    const listed = [...scheduled, candidate("b")];
+
+    expect(dueDeletions(listed, now.getTime())).toEqual([]);
+    expect(
+      dueDeletions(listed, now.getTime() + MIRROR_UNDO_WINDOW_MS).map(
+        (c) => c.id
+      )
+    ).toEqual(["a"]);
+  });
+});
+
+describe("isMassRemoval", () => {
+  it("flags more than the absolute limit whatever the library size", () => {
+    expect(isMassRemoval(51, 100_000)).toBe(true);
+    expect(isMassRemoval(50, 100_000)).toBe(false);
+  });
+
+  it("flags a large share of a small library", () => {
+    expect(isMassRemoval(6, 100)).toBe(true);
+    expect(isMassRemoval(5, 100)).toBe(false);
+  });
+
+  it("lets a single deletion through", () => {
+    expect(isMassRemoval(1, 3)).toBe(false);
+  });
+});
+
+describe("mergeCandidates", () => {
+  const candidate = (id: string, detectedAt: string): DeletionCandidate => ({
+    id,
+    item: device(id),
+    deletedOn: "server",
+    detectedAt,
+  });
+
+  it("keeps the first report of a candidate", () => {
+    const prev = [candidate("a", "first")];
+    const merged = mergeCandidates(prev, [
+      candidate("a", "second"),
+      candidate("b", "second"),
+    ]);
+    expect(merged.map((c) => [c.id, c.detectedAt])).toEqual([
+      ["a", "first"],
+      ["b", "second"],
+    ]);
+  });
+
+  it("returns the same list when nothing is new", () => {
+    const prev = [candidate("a", "first")];
+    expect(mergeCandidates(prev, [candidate("a", "second")])).toBe(prev);
+  });
+});
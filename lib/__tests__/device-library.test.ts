@@ -0,0 +1,170 @@
+import * as MediaLibrary from "expo-media-library";
+import {
+  mergeDeviceItems,
+  ScanCheckpoint,
+  scanDeviceLibrary,
+} from "../device-library";
+import { DEVICE_ID_PREFIX, MediaItem } from "../media";
+
+jest.mock("expo-media-library", () => ({
+  MediaType: { photo: "photo", video: "video" },
+  SortBy: { modificationTime: "modificationTime" },
+  getAssetsAsync: jest.fn(),
+  getAlbumsAsync: jest.fn(async () => []),
+}));
+
+type FakeAsset = Pick<
+  MediaLibrary.Asset,
+  "id" | "uri" | "filename" | "mediaType" | "creationTime" | "modificationTime"
+> & { width: number; height: number };
+
+// Asset n was last modified at time n
+const asset = (n: number): FakeAsset => ({
+  id: `a${n}`,
+  uri: `ph://a${n}`,
+  filename: `IMG_${n}.JPG`,
+  mediaType: "photo",
+  creationTime: n,
+  modificationTime: n,
+  width: 4032,
+  height: 3024,
+});
+
+let library: FakeAsset[] = [];
+
+// Pages newest-modified first, with the index of the next asset as cursor
+(MediaLibrary.getAssetsAsync as jest.Mock).mockImplementation(
+  async ({
+    first,
+    after,
+    album,
+  }: {
+    first: number;
+    after?: string;
+    album?: string;
+  }) => {
+    // No albums hold anything, so exclusions don't hide assets
+    if (album) {
+      return { assets: [], endCursor: "", hasNextPage: false, totalCount: 0 };
+    }
+    const sorted = [...library].sort(
+      (a, b) => b.modificationTime - a.modificationTime
+    );
+    const start = after ? Number(after) : 0;
+    const end = start + first;
+    return {
+      assets: sorted.slice(start, end),
+      endCursor: String(end),
+      hasNextPage: end < sorted.length,
+      totalCount: sorted.length,
+    };
+  }
+);
+
+const times = (items: MediaItem[]) =>
+  items.map((m) => Number(m.id.slice(DEVICE_ID_PREFIX.length + 1)));
+
+const range = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+beforeEach(() => {
+  library = range(1, 450).map(asset);
+});
+
+describe("scanDeviceLibrary", () => {
+  it("lists everything on a first scan", async () => {
+    const { items, checkpoint } = await scanDeviceLibrary();
+    expect(items).toHaveLength(450);
+    expect(checkpoint.newestModifiedAt).toBe(450);
+    expect(checkpoint.partial).toBeUndefined();
+  });
+
+  it("only lists assets modified since the checkpoint", async () => {
+    const first = await scanDeviceLibrary();
+    library.push(asset(451), asset(452));
+
+    const { items, checkpoint } = await scanDeviceLibrary({
+      checkpoint: first.checkpoint,
+    });
+    expect(times(items).sort()).toEqual([451, 452]);
+    expect(checkpoint.newestModifiedAt).toBe(452);
+  });
+
+  it("resumes an interrupted scan without redoing finished pages", async () => {
+    const saved: ScanCheckpoint[] = [];
+    let pages = 0;
+    await expect(
+      scanDeviceLibrary({
+        onPage: () => {
+          if (++pages === 2) throw new Error("app closed");
+        },
+        onCheckpoint: (checkpoint) => {
+          saved.push(checkpoint);
+        },
+      })
+    ).rejects.toThrow("app closed");
+
+    // Only the first page (assets 450..251) was finished
+    const interrupted = saved[saved.length - 1];
+    expect(interrupted.newestModifiedAt).toBe(0);
+    expect(interrupted.partial).toEqual({ newest: 450, downTo: 251 });
+
+    library.push(asset(451));
+    const { items, checkpoint } = await scanDeviceLibrary({
+      checkpoint: interrupted,
+    });
+    // 251 is listed again: assets sharing its time may not have been
+    // reached before the scan stopped
+    expect(times(items).sort((a, b) => a - b)).toEqual([
+      ...range(1, 251),
+      451,
+    ]);
+    expect(checkpoint.newestModifiedAt).toBe(451);
+    expect(checkpoint.partial).toBeUndefined();
+  });
+
+  it("rescans everything when the excluded albums change", async () => {
+    const first = await scanDeviceLibrary();
+    const { items } = await scanDeviceLibrary({
+      checkpoint: first.checkpoint,
+      excludedAlbumIds: ["screenshots"],
+    });
+    expect(items).toHaveLength(450);
+  });
+});
+
+describe("mergeDeviceItems", () => {
+  const stored: MediaItem = {
+    id: `${DEVICE_ID_PREFIX}a1`,
+    uri: "ph://a1",
+    createdAt: "2024-05-01T10:00:00.000Z",
+    modifiedAt: "2024-05-01T10:00:00.000Z",
+    type: "photo",
+    source: "server", // uploaded from this phone
+    hash: "h1",
+    favorite: true,
+  };
+  const edited = (hash?: string): MediaItem => ({
+    ...stored,
+    modifiedAt: "2024-06-01T10:00:00.000Z",
+    source: "device",
+    hash,
+    favorite: undefined,
+  });
+
+  it("queues an asset edited since its upload again", () => {
+    const [merged] = mergeDeviceItems([stored], [edited("h2")]);
+    expect(merged).toMatchObject({ source: "device", hash: "h2" });
+    expect(merged.favorite).toBe(true);
+  });
+
+  it("counts an edit as not uploaded until the new file is hashed", () => {
+    const [merged] = mergeDeviceItems([stored], [edited()]);
+    expect(merged.source).toBe("device");
+  });
+
+  it("keeps the backup state when the content didn't change", () => {
+    const [merged] = mergeDeviceItems([stored], [edited("h1")]);
+    expect(merged.source).toBe("server");
+  });
+});
@@ -0,0 +1,46 @@
+import { CATALOG_VERSION, migrateCatalog } from "../media-catalog";
+
+const stored = {
+  id: "device:a",
+  uri: "ph://a",
+  createdAt: "2024-05-01T10:00:00.000Z",
+  type: "photo",
+  source: "device",
+};
+
+describe("migrateCatalog", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it("drops the raw EXIF kept by version 1 catalogs", () => {
+    const snapshot = migrateCatalog({
+      version: 1,
+      items: [{ ...stored, exif: { Make: "Apple" } }],
+      manualAlbums: [],
+      syncCursor: "c1",
+    });
+    expect(snapshot.version).toBe(CATALOG_VERSION);
+    expect(snapshot.items).toEqual([stored]);
+    expect(snapshot.syncCursor).toBe("c1");
+  });
+
+  it("drops items and albums that don't have the expected shape", () => {
+    const snapshot = migrateCatalog({
+      version: CATALOG_VERSION,
+      items: [stored, { id: "device:b" }, null],
+      manualAlbums: [
+        { id: "x", title: "Trip", createdAt: "", mediaIds: ["device:a"] },
+        { id: "y", title: "Broken", createdAt: "", mediaIds: [1] },
+      ],
+    });
+    expect(snapshot.items).toEqual([stored]);
+    expect(snapshot.manualAlbums.map((a) => a.id)).toEqual(["x"]);
+  });
+
+  it("starts fresh from unknown or newer snapshots", () => {
+    expect(migrateCatalog("garbage").items).toEqual([]);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    expect(
+      migrateCatalog({ version: CATALOG_VERSION + 1, items: [stored] }).items
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  buildServerIndex,
+  dedupeMedia,
+  DEVICE_ID_PREFIX,
+  isBackedUp,
+  isSameAsset,
+  MediaItem,
+  SERVER_ID_PREFIX,
+} from "../media";
+
+function item(id: string, patch: Partial<MediaItem> = {}): MediaItem {
+  const server = id.startsWith(SERVER_ID_PREFIX);
+  return {
+    id,
+    uri: `file:///${id}.jpg`,
+    createdAt: "2024-05-01T10:00:00.000Z",
+    type: "photo",
+    source: server ? "server" : "device",
+    width: 4032,
+    height: 3024,
+    ...patch,
+  };
+}
+
+const device = (name: string, patch?: Partial<MediaItem>) =>
+  item(`${DEVICE_ID_PREFIX}${name}`, patch);
+const server = (name: string, patch?: Partial<MediaItem>) =>
+  item(`${SERVER_ID_PREFIX}${name}`, patch);
+
+describe("isSameAsset", () => {
+  it("matches on the hash when both sides have one", () => {
+    const a = device("a", { hash: "h1" });
+    expect(isSameAsset(a, server("a", { hash: "h1" }))).toBe(true);
+  });
+
+  it("keeps burst shots with the same date and size apart by hash", () => {
+    const a = device("a", { hash: "h1" });
+    expect(isSameAsset(a, server("b", { hash: "h2" }))).toBe(false);
+  });
+
+  it("falls back to date and size when a hash is missing", () => {
+    expect(isSameAsset(device("a"), server("b", { hash: "h2" }))).toBe(true);
+    expect(
+      isSameAsset(
+        device("a"),
+        server("b", { createdAt: "2024-05-01T10:00:01.000Z" })
+      )
+    ).toBe(false);
+  });
+
+  it("ignores sub-second differences in the fallback", () => {
+    expect(
+      isSameAsset(
+        device("a", { createdAt: "2024-05-01T10:00:00.000Z" }),
+        server("b", { createdAt: "2024-05-01T10:00:00.750Z" })
+      )
+    ).toBe(true);
+  });
+});
+
+describe("dedupeMedia", () => {
+  const preferServer = (m: MediaItem) => (m.source === "server" ? 1 : 0);
+
+  it("collapses copies with the same hash into the preferred one", () => {
+    const result = dedupeMedia(
+      [device("a", { hash: "h1" }), server("a", { hash: "h1" })],
+      preferServer
+    );
+    expect(result.map((m) => m.id)).toEqual([`${SERVER_ID_PREFIX}a`]);
+  });
+
+  it("keeps hashed burst shots apart", () => {
+    const result = dedupeMedia(
+      [device("a", { hash: "h1" }), device("b", { hash: "h2" })],
+      preferServer
+    );
+    expect(result).toHaveLength(2);
+  });
+
+  it("joins an unhashed copy to the hashed item with the same key", () => {
+    const result = dedupeMedia(
+      [device("a", { hash: "h1" }), server("a")],
+      preferServer
+    );
+    expect(result.map((m) => m.id)).toEqual([`${SERVER_ID_PREFIX}a`]);
+  });
+
+  it("keeps the position of each group's first item", () => {
+    const result = dedupeMedia(
+      [
+        device("a", { hash: "h1" }),
+        device("b", { hash: "h2" }),
+        server("a", { hash: "h1" }),
+      ],
+      preferServer
+    );
+    expect(result.map((m) => m.id)).toEqual([
+      `${SERVER_ID_PREFIX}a`,
+      `${DEVICE_ID_PREFIX}b`,
+    ]);
+  });
+});
+
+describe("isBackedUp", () => {
+  it("counts items uploaded from this phone", () => {
+    const index = buildServerIndex([]);
+    expect(isBackedUp(device("a", { source: "server" }), index)).toBe(true);
+  });
+
+  it("finds a server copy by hash", () => {
+    const index = buildServerIndex([server("x", { hash: "h1" })]);
+    expect(isBackedUp(device("a", { hash: "h1" }), index)).toBe(true);
+    expect(isBackedUp(device("b", { hash: "h2" }), index)).toBe(false);
+  });
+
+  it("uses the date and size key only against unhashed server copies", () => {
+    const hashed = buildServerIndex([server("x", { hash: "h1" })]);
+    expect(isBackedUp(device("a", { hash: "h2" }), hashed)).toBe(false);
+
+    const unhashed = buildServerIndex([server("x")]);
+    expect(isBackedUp(device("a", { hash: "h2" }), unhashed)).toBe(true);
+  });
+
+  it("ignores device items when building the server index", () => {
+    const index = buildServerIndex([device("x", { hash: "h1" })]);
+    expect(isBackedUp(device("a", { hash: "h1" }), index)).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+import {
+  createNasClient,
+  NasApiError,
+  retryAfterMsFrom,
+} from "../nas-api";
+
+describe("fileHeaders", () => {
+  const api = createNasClient({
+    baseUrl: "http://nas.local",
+    getToken: () => "secret",
+  });
+  const auth = { Authorization: "Bearer secret" };
+
+  it("sends the token to the server's own files", () => {
+    expect(api.fileHeaders("http://nas.local/files/1.jpg")).toEqual(auth);
+  });
+
+  it("keeps the token from look-alike hosts and other ports", () => {
+    expect(api.fileHeaders("http://nas.local.evil.com/1.jpg")).toEqual({});
+    expect(api.fileHeaders("http://nas.local:9999/1.jpg")).toEqual({});
+    expect(api.fileHeaders("https://nas.local/1.jpg")).toEqual({});
+  });
+
+  it("sends nothing for local or unparsable URIs", () => {
+    expect(api.fileHeaders("file:///cache/1.jpg")).toEqual({});
+    expect(api.fileHeaders("not a url")).toEqual({});
+  });
+});
+
+describe("Retry-After", () => {
+  const now = Date.parse("2024-05-01T10:00:00.000Z");
+
+  it("reads seconds and HTTP dates", () => {
+    expect(retryAfterMsFrom("120", now)).toBe(120000);
+    const date = "Wed, 01 May 2024 10:00:30 GMT";
+    expect(retryAfterMsFrom(date, now)).toBe(30000);
+  });
+
+  it("ignores missing or unreadable values", () => {
+    expect(retryAfterMsFrom(null, now)).toBeUndefined();
+    expect(retryAfterMsFrom("soon", now)).toBeUndefined();
+  });
+
+  it("is attached to errors from rate-limited requests", async () => {
+    const api = createNasClient({
+      baseUrl: "http://nas.local",
+      getToken: () => "secret",
+      fetchImpl: async () =>
+        new Response(JSON.stringify({ error: "Slow down" }), {
+          status: 429,
+          headers: { "Retry-After": "5" },
+        }),
+    });
+    const err = await api.listMedia().catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(NasApiError);
+    expect(err).toMatchObject({ status: 429, retryAfterMs: 5000 });
+  });
+});
@@ -0,0 +1,130 @@
+import { MediaItem } from "../media";
+import {
+  buildTimeline,
+  layoutIndexOf,
+  locateItem,
+  rowAtOffset,
+  scrubberMarks,
+  timelineLayout,
+  timelineMonths,
+} from "../timeline";
+
+// Local dates, so sections line up whatever the test machine's time zone
+const at = (y: number, m: number, d: number, h = 12) =>
+  new Date(y, m, d, h).toISOString();
+
+const item = (id: string, createdAt: string): MediaItem => ({
+  id,
+  uri: `file:///${id}.jpg`,
+  createdAt,
+  type: "photo",
+  source: "device",
+});
+
+const now = new Date(2024, 5, 15, 18);
+
+const library = [
+  item("old", at(2023, 11, 31)),
+  item("today-1", at(2024, 5, 15, 9)),
+  item("june-1", at(2024, 5, 2)),
+  item("today-2", at(2024, 5, 15, 10)),
+  item("yesterday", at(2024, 5, 14)),
+  item("may", at(2024, 4, 20)),
+];
+
+describe("buildTimeline", () => {
+  it("sorts newest first and groups by day", () => {
+    const { items, sections } = buildTimeline(library, "day", 3, now);
+    expect(items.map((m) => m.id)).toEqual([
+      "today-2",
+      "today-1",
+      "yesterday",
+      "june-1",
+      "may",
+      "old",
+    ]);
+    expect(sections.map((s) => [s.title, s.count])).toEqual([
+      ["Today", 2],
+      ["Yesterday", 1],
+      [expect.any(String), 1],
+      [expect.any(String), 1],
+      [expect.any(String), 1],
+    ]);
+  });
+
+  it("splits sections into rows of `columns` items", () => {
+    const { sections } = buildTimeline(library, "year", 4, now);
+    expect(sections.map((s) => s.title)).toEqual(["2024", "2023"]);
+    expect(sections[0].data.map((r) => r.items.length)).toEqual([4, 1]);
+    expect(sections[0].data.map((r) => r.firstIndex)).toEqual([0, 4]);
+    expect(sections[1].data[0].firstIndex).toBe(5);
+  });
+});
+
+describe("layout", () => {
+  const metrics = {
+    listHeaderHeight: 100,
+    sectionHeaderHeight: 40,
+    rowHeight: 120,
+  };
+  const { sections } = buildTimeline(library, "month", 2, now);
+  const layout = timelineLayout(sections, metrics);
+
+  it("lays out a header, the rows and a footer per section", () => {
+    // June: 4 items in 2 rows; May: 1 row; December: 1 row
+    expect(layout.map((l) => l.length)).toEqual([
+      40, 120, 120, 0, 40, 120, 0, 40, 120, 0,
+    ]);
+    expect(layout[0].offset).toBe(100);
+    expect(layout[4].offset).toBe(100 + 40 + 240);
+  });
+
+  it("finds a row's flattened index", () => {
+    expect(layoutIndexOf(sections, 0, 1)).toBe(2);
+    expect(layoutIndexOf(sections, 1, 0)).toBe(5);
+    expect(layout[layoutIndexOf(sections, 2, 0)].row).toBe(
+      sections[2].data[0]
+    );
+  });
+
+  it("maps an offset to the row there, or the one below a header", () => {
+    expect(rowAtOffset(layout, 100 + 40 + 130)?.row).toBe(sections[0].data[1]);
+    expect(rowAtOffset(layout, 100 + 40 + 240 + 10)?.row).toBe(
+      sections[1].data[0]
+    );
+    expect(rowAtOffset(layout, 10_000)).toBeNull();
+  });
+});
+
+describe("navigation", () => {
+  const { items, sections } = buildTimeline(library, "day", 3, now);
+
+  it("locates the section and row of an item", () => {
+    expect(locateItem(sections, 0)).toEqual({ sectionIndex: 0, rowIndex: 0 });
+    expect(locateItem(sections, 1)).toEqual({ sectionIndex: 0, rowIndex: 0 });
+    expect(locateItem(sections, 4)).toEqual({ sectionIndex: 3, rowIndex: 0 });
+    expect(locateItem([], 0)).toBeNull();
+  });
+
+  it("lists months newest first with their first item", () => {
+    expect(
+      timelineMonths(items).map((m) => [m.key, m.count, m.firstIndex])
+    ).toEqual([
+      ["2024-06", 4, 0],
+      ["2024-05", 1, 4],
+      ["2023-12", 1, 5],
+    ]);
+  });
+
+  it("drops scrubber marks that would crowd the previous one", () => {
+    const months = timelineMonths(items);
+    expect(scrubberMarks(months, items.length, 0).map((m) => m.key)).toEqual([
+      "2024-06",
+      "2024-05",
+      "2023-12",
+    ]);
+    expect(
+      scrubberMarks(months, items.length, 0.2).map((m) => m.key)
+    ).toEqual(["2024-06", "2024-05"]);
+  });
+});
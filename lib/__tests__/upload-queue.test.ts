@@ -0,0 +1,103 @@
+import { DEVICE_ID_PREFIX, MediaItem } from "../media";
+import { NasApiError } from "../nas-api";
+import {
+  enqueueJobs,
+  failJob,
+  isRetryableUploadError,
+  MAX_UPLOAD_ATTEMPTS,
+  nextRunnableJob,
+  retryDelayMs,
+  UploadJob,
+} from "../upload-queue";
+
+const item = (name: string): MediaItem => ({
+  id: `${DEVICE_ID_PREFIX}${name}`,
+  uri: `ph://${name}`,
+  createdAt: "2024-05-01T10:00:00.000Z",
+  type: "photo",
+  source: "device",
+});
+
+describe("enqueueJobs", () => {
+  it("doesn't queue an item twice while it's waiting", () => {
+    const once = enqueueJobs([], [item("a")]);
+    expect(enqueueJobs(once, [item("a")])).toBe(once);
+  });
+
+  it("replaces a failed job with a fresh one", () => {
+    const [job] = enqueueJobs([], [item("a")]);
+    const failed: UploadJob = { ...job, status: "failed", attempts: 5 };
+    const [fresh] = enqueueJobs([failed], [item("a")]);
+    expect(fresh).toMatchObject({ status: "queued", attempts: 0 });
+  });
+
+  it("applies an override to jobs that are already waiting", () => {
+    const jobs = enqueueJobs([], [item("a")]);
+    const [job] = enqueueJobs(jobs, [item("a")], true);
+    expect(job.overridePolicy).toBe(true);
+  });
+});
+
+describe("retries", () => {
+  const queued = (): UploadJob[] => enqueueJobs([], [item("a")]);
+  const id = item("a").id;
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("backs off exponentially up to a cap", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0);
+    expect(retryDelayMs(1)).toBe(2000);
+    expect(retryDelayMs(3)).toBe(8000);
+    expect(retryDelayMs(20)).toBe(5 * 60 * 1000);
+  });
+
+  it("requeues a retryable failure until the attempts run out", () => {
+    let jobs = queued();
+    for (let i = 1; i < MAX_UPLOAD_ATTEMPTS; i++) {
+      jobs = failJob(jobs, id, "timeout", true);
+      expect(jobs[0]).toMatchObject({ status: "queued", attempts: i });
+      expect(jobs[0].nextAttemptAt).toBeGreaterThan(Date.now());
+    }
+    jobs = failJob(jobs, id, "timeout", true);
+    expect(jobs[0]).toMatchObject({
+      status: "failed",
+      attempts: MAX_UPLOAD_ATTEMPTS,
+    });
+  });
+
+  it("fails a permanent error straight away", () => {
+    const [job] = failJob(queued(), id, "bad request", false);
+    expect(job.status).toBe("failed");
+  });
+
+  it("waits at least as long as the server asked", () => {
+    const hour = 60 * 60 * 1000;
+    const [job] = failJob(queued(), id, "busy", true, hour);
+    expect(job.nextAttemptAt).toBeGreaterThanOrEqual(Date.now() + hour - 10);
+  });
+
+  it("waits for a backed-off job", () => {
+    const jobs = failJob(queued(), id, "timeout", true);
+    const wake = jobs[0].nextAttemptAt!;
+    expect(nextRunnableJob(jobs, wake - 1)).toBeUndefined();
+    expect(nextRunnableJob(jobs, wake)?.id).toBe(id);
+  });
+
+  it("retries network and server errors but not client ones", () => {
+    expect(isRetryableUploadError(new NasApiError("network", "down"))).toBe(
+      true
+    );
+    expect(isRetryableUploadError(new NasApiError("http", "oops", 503))).toBe(
+      true
+    );
+    expect(isRetryableUploadError(new NasApiError("http", "busy", 429))).toBe(
+      true
+    );
+    expect(isRetryableUploadError(new NasApiError("http", "no", 413))).toBe(
+      false
+    );
+    expect(
+      isRetryableUploadError(new NasApiError("cancelled", "stopped"))
+    ).toBe(false);
+  });
+});
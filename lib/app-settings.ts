@@ -0,0 +1,106 @@
+// lib/app-settings.ts
+// Device-wide preferences (backup behaviour, upload tuning), persisted in
+// AsyncStorage. Unknown or missing fields fall back to DEFAULT_SETTINGS, so
+// adding a setting doesn't need a migration.
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { MOCK_NAS_CONDITIONS, MockNasConditions } from "./mock-nas";
+
+// What to do with the other copy when a photo is deleted on the phone or
+// on the NAS
+export type DeletionPolicy = "ask" | "mirror" | "never";
+
+export type AppSettings = {
+  uploadConcurrency: number; // parallel upload workers
+  backupOnOpen: boolean;
+  wifiOnly: boolean; // no uploads over cellular or other metered links
+  chargingOnly: boolean;
+  minBatteryPercent: number; // 0 = no limit; ignored while charging
+  // Device albums left out of backup. Albums are included unless listed
+  // here, so new ones are backed up by default.
+  excludedAlbumIds: string[];
+  deletionPolicy: DeletionPolicy;
+  restoreAlbumName: string; // device album that saved NAS items go into
+  timelineColumns: number; // library grid density, changed by pinching
+  demoConditions: MockNasConditions; // latency and errors of the demo server
+};
+
+export const MIN_UPLOAD_CONCURRENCY = 1;
+export const MAX_UPLOAD_CONCURRENCY = 6;
+
+export const MIN_TIMELINE_COLUMNS = 2;
+export const MAX_TIMELINE_COLUMNS = 7;
+
+export const BATTERY_THRESHOLD_OPTIONS = [0, 20, 35, 50];
+
+export const DELETION_POLICIES: DeletionPolicy[] = ["ask", "mirror", "never"];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  uploadConcurrency: 3,
+  backupOnOpen: true,
+  wifiOnly: true,
+  chargingOnly: false,
+  minBatteryPercent: 20,
+  excludedAlbumIds: [],
+  deletionPolicy: "ask",
+  restoreAlbumName: "Restored from NAS",
+  timelineColumns: 3,
+  demoConditions: "normal",
+};
+
+const STORAGE_SETTINGS_KEY = "pp_settings";
+
+function clamp(n: number, min: number, max: number) {
+  return Math.min(Math.max(n, min), max);
+}
+
+// Drops anything malformed rather than trusting stored JSON
+export function sanitizeSettings(raw: any): AppSettings {
+  const settings = { ...DEFAULT_SETTINGS };
+  if (!raw || typeof raw !== "object") return settings;
+
+  if (Number.isInteger(raw.uploadConcurrency)) {
+    settings.uploadConcurrency = clamp(
+      raw.uploadConcurrency,
+      MIN_UPLOAD_CONCURRENCY,
+      MAX_UPLOAD_CONCURRENCY
+    );
+  }
+  for (const key of ["backupOnOpen", "wifiOnly", "chargingOnly"] as const) {
+    if (typeof raw[key] === "boolean") settings[key] = raw[key];
+  }
+  if (Number.isInteger(raw.timelineColumns)) {
+    settings.timelineColumns = clamp(
+      raw.timelineColumns,
+      MIN_TIMELINE_COLUMNS,
+      MAX_TIMELINE_COLUMNS
+    );
+  }
+  if (BATTERY_THRESHOLD_OPTIONS.includes(raw.minBatteryPercent)) {
+    settings.minBatteryPercent = raw.minBatteryPercent;
+  }
+  if (DELETION_POLICIES.includes(raw.deletionPolicy)) {
+    settings.deletionPolicy = raw.deletionPolicy;
+  }
+  if (MOCK_NAS_CONDITIONS.includes(raw.demoConditions)) {
+    settings.demoConditions = raw.demoConditions;
+  }
+  if (typeof raw.restoreAlbumName === "string" && raw.restoreAlbumName.trim()) {
+    settings.restoreAlbumName = raw.restoreAlbumName.trim();
+  }
+  if (Array.isArray(raw.excludedAlbumIds)) {
+    settings.excludedAlbumIds = raw.excludedAlbumIds.filter(
+      (id: unknown): id is string => typeof id === "string"
+    );
+  }
+  return settings;
+}
+
+export async function loadSettings(): Promise<AppSettings> {
+  const stored = await AsyncStorage.getItem(STORAGE_SETTINGS_KEY);
+  return sanitizeSettings(stored ? JSON.parse(stored) : null);
+}
+
+export async function saveSettings(settings: AppSettings): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,59 @@
+// lib/backup-policy.ts
+// Decides whether background uploads may run under the current network and
+// power conditions. The conditions themselves are tracked by
+// app/backup-policy-context.tsx; this file only holds the rules.
+
+import { AppSettings } from "./app-settings";
+
+export type NetworkKind = "wifi" | "ethernet" | "cellular" | "other" | "none";
+
+export type DeviceConditions = {
+  network: NetworkKind | null; // null until first reported
+  charging: boolean | null; // null when the platform can't tell
+  batteryLevel: number | null; // 0..1, null when unknown
+};
+
+export type PolicyBlockReason = "offline" | "metered" | "charging" | "battery";
+
+export type PolicyBlock = {
+  reason: PolicyBlockReason;
+  message: string; // short, for status lines ("Waiting for Wi-Fi")
+};
+
+// Cellular and anything else we can't identify as a home network is
+// treated as metered
+export function isMeteredNetwork(network: NetworkKind | null) {
+  return network !== null && network !== "wifi" && network !== "ethernet";
+}
+
+// Returns why uploads must wait, or null if they may run
+export function evaluateBackupPolicy(
+  settings: AppSettings,
+  conditions: DeviceConditions
+): PolicyBlock | null {
+  const { network, charging, batteryLevel } = conditions;
+
+  if (network === "none") {
+    return { reason: "offline", message: "Waiting for a network connection" };
+  }
+  // Until the network is first reported it may well be cellular, so Wi-Fi
+  // only waits for it
+  if (settings.wifiOnly && (network === null || isMeteredNetwork(network))) {
+    return { reason: "metered", message: "Waiting for Wi-Fi" };
+  }
+  if (settings.chargingOnly && charging === false) {
+    return { reason: "charging", message: "Waiting for charger" };
+  }
+  if (
+    settings.minBatteryPercent > 0 &&
+    charging === false &&
+    batteryLevel !== null &&
+    batteryLevel * 100 < settings.minBatteryPercent
+  ) {
+    return {
+      reason: "battery",
+      message: `Waiting for battery above ${settings.minBatteryPercent}%`,
+    };
+  }
+  return null;
+}
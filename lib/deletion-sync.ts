@@ -0,0 +1,171 @@
+// lib/deletion-sync.ts
+// Two-way deletion handling. When a photo disappears from the phone (seen
+// during a scan) or from the NAS (seen during sync), the copy left on the
+// other side becomes a DeletionCandidate. Depending on the deletion policy
+// candidates are held for review, deleted after an undo window, or never
+// created.
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { deleteDeviceAssets } from "./device-library";
+import { DEVICE_ID_PREFIX, MediaItem, SERVER_ID_PREFIX } from "./media";
+import { NasApiError, NasClient } from "./nas-api";
+
+export type DeletionCandidate = {
+  id: string; // catalog id of the copy that would be deleted
+  item: MediaItem; // snapshot of that copy
+  // Where the original was deleted; the candidate lives on the other side
+  deletedOn: "device" | "server";
+  detectedAt: string;
+  // Mirror mode: deleted automatically from then on unless the user keeps
+  // it first. Unset means it waits for review.
+  deleteAfter?: string;
+};
+
+// How long a mirrored deletion stays listed (and can be kept) before it runs
+export const MIRROR_UNDO_WINDOW_MS = 60 * 60 * 1000;
+
+// More removals than this at once look like a lost listing (a wiped server,
+// a library that went missing) rather than the user tidying up, so mirror
+// mode sends them to review instead of deleting them
+export const MASS_REMOVAL_COUNT = 50;
+export const MASS_REMOVAL_FRACTION = 0.05;
+
+const STORAGE_DELETION_REVIEW_KEY = "pp_deletion_review";
+
+const deletionReviewKeyFor = (profileId: string) =>
+  `${STORAGE_DELETION_REVIEW_KEY}:${profileId}`;
+
+// -----------------------------------------------------------------------------
+// Detection
+// -----------------------------------------------------------------------------
+
+// Only a content hash on both sides counts as a match. The date + size
+// heuristic that dedupes the library can't tell burst shots apart, and one
+// deletion must never take several different photos with it; items without
+// a hash are skipped.
+function candidatesFor(
+  removed: MediaItem[],
+  others: MediaItem[],
+  deletedOn: DeletionCandidate["deletedOn"],
+  now: Date
+): DeletionCandidate[] {
+  const goneHashes = new Set(
+    removed.map((m) => m.hash).filter((h): h is string => !!h)
+  );
+  const detectedAt = now.toISOString();
+  return others
+    .filter((other) => !!other.hash && goneHashes.has(other.hash))
+    .map((other) => ({ id: other.id, item: other, deletedOn, detectedAt }));
+}
+
+// Server copies of device items that are gone from the phone
+export function findDeviceRemovals(
+  catalog: MediaItem[],
+  removed: MediaItem[],
+  now = new Date()
+): DeletionCandidate[] {
+  const serverItems = catalog.filter((m) => m.id.startsWith(SERVER_ID_PREFIX));
+  return candidatesFor(removed, serverItems, "device", now);
+}
+
+// Device copies of items that were deleted from the NAS
+export function findServerRemovals(
+  catalog: MediaItem[],
+  removed: MediaItem[],
+  now = new Date()
+): DeletionCandidate[] {
+  const deviceItems = catalog.filter((m) => m.id.startsWith(DEVICE_ID_PREFIX));
+  return candidatesFor(removed, deviceItems, "server", now);
+}
+
+// `count` copies about to go out of `total` on that side
+export function isMassRemoval(count: number, total: number): boolean {
+  return (
+    count > MASS_REMOVAL_COUNT ||
+    (count > 1 && count > total * MASS_REMOVAL_FRACTION)
+  );
+}
+
+// Starts the undo window on candidates found in mirror mode
+export function scheduleDeletions(
+  found: DeletionCandidate[],
+  now = Date.now()
+): DeletionCandidate[] {
+  const deleteAfter = new Date(now + MIRROR_UNDO_WINDOW_MS).toISOString();
+  return found.map((c) => ({ ...c, deleteAfter }));
+}
+
+// Scheduled candidates whose undo window has passed
+export function dueDeletions(
+  candidates: DeletionCandidate[],
+  now = Date.now()
+): DeletionCandidate[] {
+  return candidates.filter(
+    (c) => c.deleteAfter && new Date(c.deleteAfter).getTime() <= now
+  );
+}
+
+export function mergeCandidates(
+  prev: DeletionCandidate[],
+  found: DeletionCandidate[]
+): DeletionCandidate[] {
+  const known = new Set(prev.map((c) => c.id));
+  const fresh = found.filter((c) => !known.has(c.id));
+  return fresh.length ? [...prev, ...fresh] : prev;
+}
+
+// -----------------------------------------------------------------------------
+// Applying
+// -----------------------------------------------------------------------------
+
+// Deletes the given copies. Resolves with the catalog ids that are gone
+// (including ones that already were); anything else is left for later.
+export async function applyDeletions(
+  api: NasClient,
+  candidates: DeletionCandidate[]
+): Promise<string[]> {
+  const done: string[] = [];
+
+  const onDevice = candidates.filter((c) => c.deletedOn === "server");
+  if (onDevice.length && (await deleteDeviceAssets(onDevice.map((c) => c.item)))) {
+    done.push(...onDevice.map((c) => c.id));
+  }
+
+  for (const c of candidates.filter((c) => c.deletedOn === "device")) {
+    try {
+      await api.deleteMedia(c.id.slice(SERVER_ID_PREFIX.length));
+      done.push(c.id);
+    } catch (err) {
+      if (err instanceof NasApiError && err.status === 404) {
+        done.push(c.id);
+      } else {
+        console.warn("Failed to delete from NAS", c.id, err);
+      }
+    }
+  }
+
+  return done;
+}
+
+// -----------------------------------------------------------------------------
+// Persistence
+// -----------------------------------------------------------------------------
+
+export async function loadDeletionReview(
+  profileId: string
+): Promise<DeletionCandidate[]> {
+  const stored = await AsyncStorage.getItem(deletionReviewKeyFor(profileId));
+  if (!stored) return [];
+  const parsed = JSON.parse(stored);
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+export async function saveDeletionReview(
+  profileId: string,
+  candidates: DeletionCandidate[]
+): Promise<void> {
+  await AsyncStorage.setItem(
+    deletionReviewKeyFor(profileId),
+    JSON.stringify(candidates)
+  );
+}
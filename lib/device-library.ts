@@ -0,0 +1,525 @@
+// lib/device-library.ts
+// Reads the phone's photo library (expo-media-library) into MediaItems.
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as LegacyFileSystem from "expo-file-system/legacy";
+import * as MediaLibrary from "expo-media-library";
+import { Platform } from "react-native";
+import {
+  DEVICE_ID_PREFIX,
+  MediaItem,
+  MediaType,
+  mimeTypeFromName,
+} from "./media";
+import { extractMetadata, MediaMetadata } from "./media-metadata";
+
+export type DeviceLibraryErrorKind = "unsupported" | "permission" | "cancelled";
+
+export class DeviceLibraryError extends Error {
+  kind: DeviceLibraryErrorKind;
+
+  constructor(kind: DeviceLibraryErrorKind, message: string) {
+    super(message);
+    this.name = "DeviceLibraryError";
+    this.kind = kind;
+  }
+}
+
+// "limited": the user only shared some photos (iOS 14+, Android 14+), so
+// the library we can see is not the whole library
+export type MediaAccess = "all" | "limited";
+
+// Throws DeviceLibraryError when the library can't be read. With
+// prompt = false we only check, so background work never pops a dialog.
+export async function ensureMediaPermission(
+  prompt: boolean
+): Promise<MediaAccess> {
+  if (Platform.OS === "web") {
+    throw new DeviceLibraryError(
+      "unsupported",
+      "Device scanning only works on iOS/Android."
+    );
+  }
+
+  const { status, accessPrivileges } = prompt
+    ? await MediaLibrary.requestPermissionsAsync()
+    : await MediaLibrary.getPermissionsAsync();
+
+  if (status !== "granted") {
+    throw new DeviceLibraryError(
+      "permission",
+      "We need access to your photos."
+    );
+  }
+  return accessPrivileges === "limited" ? "limited" : "all";
+}
+
+export const assetIdOf = (item: MediaItem) =>
+  item.id.startsWith(DEVICE_ID_PREFIX)
+    ? item.id.slice(DEVICE_ID_PREFIX.length)
+    : null;
+
+// Built from the listing alone; the (slow) per-asset info call is left to
+// loadAssetDetails, made only when the file itself is needed
+export function assetToMediaItem(asset: MediaLibrary.Asset): MediaItem {
+  const type: MediaType =
+    asset.mediaType === MediaLibrary.MediaType.video ? "video" : "photo";
+
+  return {
+    id: `${DEVICE_ID_PREFIX}${asset.id}`,
+    uri: asset.uri,
+    createdAt: new Date(asset.creationTime ?? Date.now()).toISOString(),
+    modifiedAt: asset.modificationTime
+      ? new Date(asset.modificationTime).toISOString()
+      : undefined,
+    type,
+    source: "device",
+    width: asset.width,
+    height: asset.height,
+    fileName: asset.filename || undefined,
+    mimeType: mimeTypeFromName(asset.filename ?? "") ?? undefined,
+  };
+}
+
+export type AssetDetails = {
+  localUri: string; // file:// URI that can be read, hashed and uploaded
+  metadata?: MediaMetadata;
+};
+
+// Asset URIs can be opaque (ph:// on iOS); this resolves a readable file
+export async function loadAssetDetails(item: MediaItem): Promise<AssetDetails> {
+  const assetId = assetIdOf(item);
+  if (!assetId) {
+    return { localUri: item.uri, metadata: item.metadata };
+  }
+
+  // Only the fields we show are kept; the raw EXIF is too big to store for
+  // every item in the catalog
+  const info = await MediaLibrary.getAssetInfoAsync(assetId);
+  return {
+    localUri: info.localUri ?? item.uri,
+    metadata: extractMetadata(info.exif, info.location) ?? item.metadata,
+  };
+}
+
+export async function resolveLocalUri(item: MediaItem): Promise<string> {
+  if (item.uri.startsWith("file://")) return item.uri;
+  return (await loadAssetDetails(item)).localUri;
+}
+
+const SCAN_PAGE_SIZE = 200;
+
+function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new DeviceLibraryError("cancelled", "Scan cancelled.");
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Albums
+// -----------------------------------------------------------------------------
+
+export type DeviceAlbum = {
+  id: string;
+  title: string;
+  assetCount: number;
+};
+
+// Albums on the device, largest first. Smart albums are included so iOS
+// users can leave out things like Screenshots.
+export async function listDeviceAlbums(): Promise<DeviceAlbum[]> {
+  const albums = await MediaLibrary.getAlbumsAsync({ includeSmartAlbums: true });
+  return albums
+    .filter((a) => a.assetCount > 0)
+    .map((a) => ({ id: a.id, title: a.title, assetCount: a.assetCount }))
+    .sort((a, b) => b.assetCount - a.assetCount);
+}
+
+// Current asset count of each given album, a cheap way to tell whether an
+// album's contents may have changed since it was last listed
+async function albumAssetCounts(
+  albumIds: string[]
+): Promise<Record<string, number>> {
+  if (!albumIds.length) return {};
+  const wanted = new Set(albumIds);
+  const albums = await MediaLibrary.getAlbumsAsync({ includeSmartAlbums: true });
+  const counts: Record<string, number> = {};
+  for (const a of albums) {
+    if (wanted.has(a.id)) counts[a.id] = a.assetCount;
+  }
+  return counts;
+}
+
+const sameCounts = (a: Record<string, number>, b: Record<string, number>) =>
+  Object.keys(a).length === Object.keys(b).length &&
+  Object.keys(a).every((id) => a[id] === b[id]);
+
+// Catalog ids of every photo and video in the given albums
+async function listAlbumAssetIds(
+  albumIds: string[],
+  signal?: AbortSignal
+): Promise<Set<string>> {
+  const ids = new Set<string>();
+  for (const album of albumIds) {
+    let after: string | undefined;
+    while (true) {
+      throwIfCancelled(signal);
+      const page = await MediaLibrary.getAssetsAsync({
+        album,
+        mediaType: [MediaLibrary.MediaType.photo, MediaLibrary.MediaType.video],
+        first: SCAN_PAGE_SIZE,
+        after,
+      });
+      for (const asset of page.assets) ids.add(`${DEVICE_ID_PREFIX}${asset.id}`);
+      if (!page.hasNextPage) break;
+      after = page.endCursor;
+    }
+  }
+  return ids;
+}
+
+// -----------------------------------------------------------------------------
+// Paged scanning
+// -----------------------------------------------------------------------------
+
+// Where the last complete scan got to. Assets are listed newest-modified
+// first, so the next scan can stop as soon as it reaches older ones.
+export type ScanCheckpoint = {
+  newestModifiedAt: number; // epoch ms
+  // Saved after each page of an unfinished scan: assets modified in
+  // (downTo, newest] were already processed, so the next scan skips them
+  partial?: { newest: number; downTo: number };
+  completedAt: string;
+  // Album selection the scan ran with; a different one means a full rescan
+  excludedAlbumIds: string[];
+  excludedIds: string[]; // catalog ids of assets in those albums
+  // Album sizes when excludedIds was listed; unchanged sizes let the next
+  // scan reuse it instead of paging through every excluded album again
+  excludedAlbumCounts: Record<string, number>;
+};
+
+export type ScanProgress = {
+  phase: "listing" | "hashing";
+  done: number;
+  total: number;
+};
+
+// "Scanning 1,200 of 40,000…"
+export function describeScanProgress(progress: ScanProgress): string {
+  const done = progress.done.toLocaleString();
+  const total = progress.total.toLocaleString();
+  return progress.phase === "listing"
+    ? `Scanning ${done} of ${total}…`
+    : `Checking ${done} of ${total} new items…`;
+}
+
+export type ScanOptions = {
+  checkpoint?: ScanCheckpoint | null; // null / missing = full scan
+  excludedAlbumIds?: string[]; // albums left out of backup
+  signal?: AbortSignal;
+  // Awaited for each page of new or modified items, so a page is processed
+  // (e.g. hashed) before the checkpoint moves past it
+  onPage?: (items: MediaItem[]) => Promise<void> | void;
+  // Checkpoint after each page but the last, for resuming an interrupted scan
+  onCheckpoint?: (checkpoint: ScanCheckpoint) => Promise<void> | void;
+  onProgress?: (progress: ScanProgress) => void;
+};
+
+export type ScanResult = {
+  items: MediaItem[]; // new or modified since the checkpoint
+  checkpoint: ScanCheckpoint; // to save once the items are processed
+};
+
+const modifiedAt = (asset: MediaLibrary.Asset) =>
+  asset.modificationTime || asset.creationTime;
+
+const sameIds = (a: string[], b: string[]) =>
+  a.length === b.length && [...a].sort().join() === [...b].sort().join();
+
+// Pages through the library with endCursor / hasNextPage. Assets that are
+// in an excluded album are skipped.
+export async function scanDeviceLibrary({
+  checkpoint,
+  excludedAlbumIds = [],
+  signal,
+  onPage,
+  onCheckpoint,
+  onProgress,
+}: ScanOptions = {}): Promise<ScanResult> {
+  // Assets skipped last time may be wanted now (and vice versa)
+  const sameAlbums =
+    !!checkpoint && sameIds(checkpoint.excludedAlbumIds, excludedAlbumIds);
+  const since = sameAlbums ? checkpoint.newestModifiedAt : 0;
+  const resumed = sameAlbums ? checkpoint.partial : undefined;
+  const excludedAlbumCounts = await albumAssetCounts(excludedAlbumIds);
+  const reuseExcluded =
+    !!since &&
+    !!checkpoint &&
+    sameCounts(checkpoint.excludedAlbumCounts, excludedAlbumCounts);
+  const excludedIds = reuseExcluded
+    ? new Set(checkpoint.excludedIds)
+    : await listAlbumAssetIds(excludedAlbumIds, signal);
+  const items: MediaItem[] = [];
+  let newest = Math.max(since, resumed?.newest ?? 0);
+  let oldest = Infinity; // oldest modification time processed so far
+  let looked = 0;
+  let after: string | undefined;
+
+  const checkpointWith = (
+    partial?: ScanCheckpoint["partial"]
+  ): ScanCheckpoint => ({
+    newestModifiedAt: partial ? since : newest,
+    partial,
+    completedAt: new Date().toISOString(),
+    excludedAlbumIds,
+    excludedIds: [...excludedIds],
+    excludedAlbumCounts,
+  });
+
+  // This scan covers (oldest, newest] so far. Once it reaches the range an
+  // interrupted scan covered the two join up; until then that older range
+  // is kept as it was.
+  const covered = (): ScanCheckpoint["partial"] => {
+    if (!resumed) return { newest, downTo: oldest };
+    if (oldest > resumed.newest) return resumed;
+    return { newest, downTo: Math.min(oldest, resumed.downTo) };
+  };
+
+  while (true) {
+    throwIfCancelled(signal);
+    const page = await MediaLibrary.getAssetsAsync({
+      mediaType: [MediaLibrary.MediaType.photo, MediaLibrary.MediaType.video],
+      first: SCAN_PAGE_SIZE,
+      after,
+      sortBy: [[MediaLibrary.SortBy.modificationTime, false]],
+    });
+
+    const changed = page.assets.filter((a) => modifiedAt(a) > since);
+    for (const asset of changed) {
+      newest = Math.max(newest, modifiedAt(asset));
+    }
+    const mapped = changed
+      .filter(
+        (a) =>
+          !resumed ||
+          modifiedAt(a) <= resumed.downTo ||
+          modifiedAt(a) > resumed.newest
+      )
+      .map(assetToMediaItem)
+      .filter((m) => !excludedIds.has(m.id));
+    items.push(...mapped);
+    if (mapped.length) await onPage?.(mapped);
+    for (const asset of changed) {
+      oldest = Math.min(oldest, modifiedAt(asset));
+    }
+
+    looked += page.assets.length;
+    // Everything past an unchanged asset was seen by an earlier scan
+    const reachedCheckpoint = changed.length < page.assets.length;
+    const finished = reachedCheckpoint || !page.hasNextPage;
+    onProgress?.({
+      phase: "listing",
+      done: finished ? page.totalCount : looked,
+      total: page.totalCount,
+    });
+    if (finished) break;
+    if (oldest < Infinity) await onCheckpoint?.(checkpointWith(covered()));
+    after = page.endCursor;
+  }
+
+  return { items, checkpoint: checkpointWith() };
+}
+
+// Ids of every photo and video on the device. Unlike a scan this can't stop
+// at the checkpoint, so it's only run when deletions are being tracked.
+// Under limited access it only sees the shared photos, so don't call it then.
+export async function listDeviceAssetIds(
+  signal?: AbortSignal
+): Promise<Set<string>> {
+  const ids = new Set<string>();
+  let after: string | undefined;
+  while (true) {
+    throwIfCancelled(signal);
+    const page = await MediaLibrary.getAssetsAsync({
+      mediaType: [MediaLibrary.MediaType.photo, MediaLibrary.MediaType.video],
+      first: 1000,
+      after,
+    });
+    for (const asset of page.assets) ids.add(`${DEVICE_ID_PREFIX}${asset.id}`);
+    if (!page.hasNextPage) break;
+    after = page.endCursor;
+  }
+  return ids;
+}
+
+// Removes assets from the phone. The OS asks the user to confirm; false
+// means they declined.
+export async function deleteDeviceAssets(items: MediaItem[]): Promise<boolean> {
+  const assetIds = items
+    .map(assetIdOf)
+    .filter((id): id is string => id !== null);
+  if (!assetIds.length) return true;
+  return MediaLibrary.deleteAssetsAsync(assetIds);
+}
+
+const STORAGE_SCAN_CHECKPOINT_KEY = "pp_scan_checkpoint";
+
+// Per server profile, since each profile has its own catalog to fill
+const scanCheckpointKeyFor = (profileId: string) =>
+  `${STORAGE_SCAN_CHECKPOINT_KEY}:${profileId}`;
+
+export async function loadScanCheckpoint(
+  profileId: string
+): Promise<ScanCheckpoint | null> {
+  const stored = await AsyncStorage.getItem(scanCheckpointKeyFor(profileId));
+  if (!stored) return null;
+  const parsed = JSON.parse(stored);
+  if (typeof parsed?.newestModifiedAt !== "number") return null;
+  return {
+    newestModifiedAt: parsed.newestModifiedAt,
+    completedAt: String(parsed.completedAt ?? ""),
+    excludedAlbumIds: Array.isArray(parsed.excludedAlbumIds)
+      ? parsed.excludedAlbumIds
+      : [],
+    excludedIds: Array.isArray(parsed.excludedIds) ? parsed.excludedIds : [],
+    excludedAlbumCounts:
+      parsed.excludedAlbumCounts && typeof parsed.excludedAlbumCounts === "object"
+        ? parsed.excludedAlbumCounts
+        : {},
+    partial:
+      typeof parsed.partial?.newest === "number" &&
+      typeof parsed.partial?.downTo === "number"
+        ? { newest: parsed.partial.newest, downTo: parsed.partial.downTo }
+        : undefined,
+  };
+}
+
+export async function saveScanCheckpoint(
+  profileId: string,
+  checkpoint: ScanCheckpoint
+): Promise<void> {
+  await AsyncStorage.setItem(
+    scanCheckpointKeyFor(profileId),
+    JSON.stringify(checkpoint)
+  );
+}
+
+// MD5 of the file's bytes and its size, computed natively in one call.
+// Both undefined if the file can't be read (e.g. an iCloud original that
+// isn't downloaded).
+export async function readFileDigest(
+  uri: string
+): Promise<{ hash?: string; size?: number }> {
+  try {
+    const info = await LegacyFileSystem.getInfoAsync(uri, { md5: true });
+    if (!info.exists) return {};
+    return { hash: info.md5?.toLowerCase(), size: info.size };
+  } catch (e) {
+    console.warn("Could not hash", uri, e);
+    return {};
+  }
+}
+
+const HASH_CONCURRENCY = 4;
+
+type KnownHash = { hash?: string; modifiedAt?: string };
+
+// Fills in `hash` (and metadata, from the same asset info call) for
+// device items. `known` holds hashes computed by earlier scans; they're
+// reused unless the file was modified since.
+export async function hashDeviceItems(
+  items: MediaItem[],
+  known: Map<string, KnownHash> = new Map(),
+  { signal, onProgress }: Pick<ScanOptions, "signal" | "onProgress"> = {}
+): Promise<MediaItem[]> {
+  const out = [...items];
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < out.length) {
+      throwIfCancelled(signal);
+      const i = next++;
+      const item = out[i];
+      const prev = known.get(item.id);
+      if (!item.hash) {
+        if (prev?.hash && prev.modifiedAt === item.modifiedAt) {
+          out[i] = { ...item, hash: prev.hash };
+        } else {
+          try {
+            const details = await loadAssetDetails(item);
+            const { hash, size } = await readFileDigest(details.localUri);
+            out[i] = {
+              ...item,
+              metadata: details.metadata,
+              hash,
+              size,
+            };
+          } catch (e) {
+            console.warn("Could not read asset", item.id, e);
+          }
+        }
+      }
+      done++;
+      onProgress?.({ phase: "hashing", done, total: out.length });
+    }
+  };
+
+  await Promise.all(Array.from({ length: HASH_CONCURRENCY }, worker));
+  return out;
+}
+
+export function knownHashes(items: MediaItem[]): Map<string, KnownHash> {
+  return new Map(
+    items.map((m) => [m.id, { hash: m.hash, modifiedAt: m.modifiedAt }])
+  );
+}
+
+// Adds scanned items the catalog doesn't know yet, fills in hashes for ones
+// it has without, and refreshes ones modified on the device since. An item
+// uploaded before it was edited needs uploading again, unless its content
+// hash shows the edit didn't touch the file.
+export function mergeDeviceItems(
+  prev: MediaItem[],
+  items: MediaItem[]
+): MediaItem[] {
+  const scanned = new Map(items.map((i) => [i.id, i]));
+  let changed = false;
+
+  const next = prev.map((m) => {
+    const s = scanned.get(m.id);
+    if (!s) return m;
+    if (s.modifiedAt && s.modifiedAt !== m.modifiedAt) {
+      changed = true;
+      const sameContent = !!s.hash && s.hash === m.hash;
+      // Keep what the catalog added (favorite, and backup state while the
+      // content is the same)
+      return {
+        ...m,
+        source: sameContent ? m.source : s.source,
+        uri: s.uri,
+        modifiedAt: s.modifiedAt,
+        width: s.width,
+        height: s.height,
+        hash: s.hash,
+        size: s.size,
+        metadata: s.metadata ?? m.metadata,
+        fileName: s.fileName ?? m.fileName,
+        mimeType: s.mimeType ?? m.mimeType,
+      };
+    }
+    if (m.hash || !s.hash) return m;
+    changed = true;
+    return {
+      ...m,
+      hash: s.hash,
+      size: s.size,
+      metadata: s.metadata ?? m.metadata,
+    };
+  });
+
+  const ids = new Set(prev.map((m) => m.id));
+  const uniqueNew = items.filter((i) => !ids.has(i.id));
+  if (!uniqueNew.length && !changed) return prev;
+  return [...next, ...uniqueNew];
+}
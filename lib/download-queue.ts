@@ -0,0 +1,166 @@
+// lib/download-queue.ts
+// Persistent queue of NAS items being saved back to the phone. Stored per
+// server profile like the upload queue, whose retry helpers it shares; the
+// worker lives in app/download-queue-context.tsx.
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  buildDeviceIndex,
+  isInIndex,
+  MediaItem,
+  SERVER_ID_PREFIX,
+} from "./media";
+
+export type DownloadJobStatus = "queued" | "downloading" | "failed" | "done";
+
+export type DownloadJob = {
+  // Catalog id of the NAS item being saved. The item itself is read from
+  // the catalog when the download starts, so jobs stay small to store.
+  id: string;
+  status: DownloadJobStatus;
+  attempts: number;
+  error?: string;
+  nextAttemptAt?: number;
+  queuedAt: string;
+  finishedAt?: string;
+  albumName?: string; // device album to restore into
+  bytesWritten?: number; // progress of the current attempt; not stored
+  bytesTotal?: number;
+  resumeData?: string; // from a paused or interrupted download
+};
+
+export type DownloadQueueSnapshot = {
+  version: number;
+  jobs: DownloadJob[];
+  paused: boolean;
+};
+
+export const DOWNLOAD_QUEUE_VERSION = 2;
+
+const STORAGE_DOWNLOAD_QUEUE_KEY = "pp_download_queue";
+
+const downloadQueueKeyFor = (profileId: string) =>
+  `${STORAGE_DOWNLOAD_QUEUE_KEY}:${profileId}`;
+
+export function isActiveDownload(job: DownloadJob) {
+  return job.status === "queued" || job.status === "downloading";
+}
+
+// Adds jobs for items not already waiting; failed and finished jobs for the
+// same item are replaced by a fresh one
+export function enqueueDownloads(
+  jobs: DownloadJob[],
+  items: MediaItem[],
+  albumName?: string
+): DownloadJob[] {
+  const active = new Set(jobs.filter(isActiveDownload).map((j) => j.id));
+  const fresh = items.filter((m) => !active.has(m.id));
+  if (!fresh.length) return jobs;
+
+  const replaced = new Set(fresh.map((m) => m.id));
+  const now = new Date().toISOString();
+  return [
+    ...jobs.filter((j) => !replaced.has(j.id)),
+    ...fresh.map<DownloadJob>((item) => ({
+      id: item.id,
+      status: "queued",
+      attempts: 0,
+      queuedAt: now,
+      albumName,
+    })),
+  ];
+}
+
+// Whether the phone already holds a copy of this NAS item
+export function hasDeviceCopy(catalog: MediaItem[], item: MediaItem) {
+  return isInIndex(item, buildDeviceIndex(catalog));
+}
+
+// NAS items with no copy on the phone, oldest first
+export function missingFromDevice(catalog: MediaItem[]): MediaItem[] {
+  const deviceIndex = buildDeviceIndex(catalog);
+  return catalog
+    .filter(
+      (m) => m.id.startsWith(SERVER_ID_PREFIX) && !isInIndex(m, deviceIndex)
+    )
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// -----------------------------------------------------------------------------
+// Persistence
+// -----------------------------------------------------------------------------
+
+export function emptyDownloadQueue(): DownloadQueueSnapshot {
+  return { version: DOWNLOAD_QUEUE_VERSION, jobs: [], paused: false };
+}
+
+export async function loadDownloadQueue(
+  profileId: string
+): Promise<DownloadQueueSnapshot> {
+  const stored = await AsyncStorage.getItem(downloadQueueKeyFor(profileId));
+  if (!stored) return emptyDownloadQueue();
+
+  const raw = JSON.parse(stored);
+  // Version 1 also stored a snapshot of each job's item and its progress
+  if (
+    !raw ||
+    (raw.version !== 1 && raw.version !== DOWNLOAD_QUEUE_VERSION) ||
+    !Array.isArray(raw.jobs)
+  ) {
+    return emptyDownloadQueue();
+  }
+
+  return {
+    version: DOWNLOAD_QUEUE_VERSION,
+    // An interrupted download goes back in line and resumes from its last
+    // saved resume data; finished jobs are dropped
+    jobs: (raw.jobs as (DownloadJob & { item?: unknown })[])
+      .filter((j) => j.status !== "done")
+      .map(({ item, bytesWritten, bytesTotal, ...j }) =>
+        j.status === "downloading" ? { ...j, status: "queued" } : j
+      ),
+    paused: raw.paused === true,
+  };
+}
+
+export async function saveDownloadQueue(
+  profileId: string,
+  jobs: DownloadJob[],
+  paused: boolean
+): Promise<void> {
+  const snapshot: DownloadQueueSnapshot = {
+    version: DOWNLOAD_QUEUE_VERSION,
+    // Progress changes many times a second and is reported again on resume
+    jobs: jobs.map(({ bytesWritten, bytesTotal, ...j }) => j),
+    paused,
+  };
+  await AsyncStorage.setItem(
+    downloadQueueKeyFor(profileId),
+    JSON.stringify(snapshot)
+  );
+}
+
+let storedUpdates: Promise<void> = Promise.resolve();
+
+// Patches one job in a profile's stored queue. Used for downloads that
+// finish stopping after the user switched to another profile, so their
+// resume data isn't lost. Updates run one at a time so none overwrites
+// another.
+export function updateStoredDownload(
+  profileId: string,
+  id: string,
+  patch: Partial<DownloadJob>
+): Promise<void> {
+  storedUpdates = storedUpdates
+    .catch(() => undefined)
+    .then(async () => {
+      const snapshot = await loadDownloadQueue(profileId);
+      if (!snapshot.jobs.some((j) => j.id === id)) return;
+      await saveDownloadQueue(
+        profileId,
+        snapshot.jobs.map((j) => (j.id === id ? { ...j, ...patch } : j)),
+        snapshot.paused
+      );
+    });
+  return storedUpdates;
+}
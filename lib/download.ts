@@ -0,0 +1,207 @@
+// lib/download.ts
+// Saves NAS media back into the phone's photo library. The original file is
+// downloaded, never a resized copy, so the EXIF and location embedded in it
+// travel with it. The photo library dates the new asset from that EXIF, so
+// a JPEG without a capture date gets the NAS item's date written into it
+// first. Other formats can't be given one: a HEIC, PNG or video without an
+// embedded date shows up as taken on the day it was restored.
+
+import * as LegacyFileSystem from "expo-file-system/legacy";
+import * as MediaLibrary from "expo-media-library";
+import piexif from "piexifjs";
+import { assetToMediaItem } from "./device-library";
+import { extensionOf, MediaItem } from "./media";
+
+export type DownloadProgress = {
+  bytesWritten: number;
+  bytesTotal: number;
+};
+
+export type SaveToDeviceOptions = {
+  headers?: Record<string, string>; // auth for files served by the NAS
+  albumName?: string; // device album to add the asset to
+  resumeData?: string; // from an interrupted attempt
+  onResumeData?: (resumeData: string) => void;
+  onProgress?: (progress: DownloadProgress) => void;
+  signal?: AbortSignal; // pauses the download, keeping its resume data
+};
+
+export class DownloadPausedError extends Error {
+  constructor() {
+    super("Download paused.");
+    this.name = "DownloadPausedError";
+  }
+}
+
+const RESTORE_DIR = `${LegacyFileSystem.cacheDirectory}restore/`;
+
+// One folder per item, so two originals with the same name can't clash
+const restoreDirFor = (id: string) =>
+  `${RESTORE_DIR}${id.replace(/[^a-z0-9_.-]/gi, "_")}/`;
+
+// How often resume data is handed out while a download runs
+const RESUME_SAVE_INTERVAL_MS = 3000;
+
+// Restored files keep the name they were uploaded with, which is also the
+// name the phone shows for the new asset
+function restoreFileName(item: MediaItem): string {
+  if (item.fileName && extensionOf(item.fileName)) {
+    return item.fileName.replace(/[/\\:]/g, "_");
+  }
+  const ext = extensionOf(item.uri) ?? (item.type === "video" ? "mp4" : "jpg");
+  return `${item.type}-${item.id.replace(/[^a-z0-9_-]/gi, "_")}.${ext}`;
+}
+
+// Fetches the original into `dest`. Local and inline (data:) URIs, which
+// the demo server hands out, are copied rather than downloaded.
+async function fetchOriginal(
+  item: MediaItem,
+  dest: string,
+  {
+    headers,
+    resumeData,
+    onResumeData,
+    onProgress,
+    signal,
+  }: SaveToDeviceOptions
+): Promise<void> {
+  if (item.uri.startsWith("file://")) {
+    await LegacyFileSystem.copyAsync({ from: item.uri, to: dest });
+    return;
+  }
+  if (item.uri.startsWith("data:")) {
+    await LegacyFileSystem.writeAsStringAsync(
+      dest,
+      item.uri.slice(item.uri.indexOf(",") + 1),
+      { encoding: LegacyFileSystem.EncodingType.Base64 }
+    );
+    return;
+  }
+
+  let lastSaved = 0;
+  const download = LegacyFileSystem.createDownloadResumable(
+    item.uri,
+    dest,
+    { headers },
+    ({ totalBytesWritten, totalBytesExpectedToWrite }) => {
+      onProgress?.({
+        bytesWritten: totalBytesWritten,
+        bytesTotal: totalBytesExpectedToWrite,
+      });
+      const now = Date.now();
+      if (onResumeData && now - lastSaved > RESUME_SAVE_INTERVAL_MS) {
+        lastSaved = now;
+        const saved = download.savable().resumeData;
+        if (saved) onResumeData(saved);
+      }
+    },
+    resumeData
+  );
+
+  const pause = async () => {
+    const paused = await download.pauseAsync();
+    if (paused.resumeData) onResumeData?.(paused.resumeData);
+  };
+  signal?.addEventListener("abort", pause);
+  try {
+    const result = resumeData
+      ? await download.resumeAsync()
+      : await download.downloadAsync();
+    // Both resolve without a result when paused
+    if (!result) throw new DownloadPausedError();
+    if (result.status >= 400) {
+      throw new Error(`Download failed (${result.status}).`);
+    }
+  } finally {
+    signal?.removeEventListener("abort", pause);
+  }
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// EXIF dates are the phone's local wall-clock time, "YYYY:MM:DD HH:MM:SS"
+function exifDate(iso: string): string | null {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return null;
+  return (
+    `${d.getFullYear()}:${pad(d.getMonth() + 1)}:${pad(d.getDate())} ` +
+    `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`
+  );
+}
+
+const isJpeg = (item: MediaItem, path: string) =>
+  item.mimeType === "image/jpeg" ||
+  ["jpg", "jpeg"].includes(extensionOf(item.fileName ?? path) ?? "");
+
+// Writes the item's date into a JPEG that has no capture date of its own,
+// so the photo library files it under the day it was taken. Files that
+// can't be parsed are saved as they are.
+async function stampCaptureDate(item: MediaItem, path: string) {
+  if (item.type !== "photo" || !isJpeg(item, path)) return;
+  const date = exifDate(item.createdAt);
+  if (!date) return;
+
+  try {
+    const base64 = await LegacyFileSystem.readAsStringAsync(path, {
+      encoding: LegacyFileSystem.EncodingType.Base64,
+    });
+    const jpeg = `data:image/jpeg;base64,${base64}`;
+    const exif = piexif.load(jpeg);
+    if (exif.Exif?.[piexif.ExifIFD.DateTimeOriginal]) return;
+
+    exif.Exif = {
+      ...exif.Exif,
+      [piexif.ExifIFD.DateTimeOriginal]: date,
+      [piexif.ExifIFD.DateTimeDigitized]: date,
+    };
+    const stamped = piexif.insert(piexif.dump(exif), jpeg);
+    await LegacyFileSystem.writeAsStringAsync(
+      path,
+      stamped.slice(stamped.indexOf(",") + 1),
+      { encoding: LegacyFileSystem.EncodingType.Base64 }
+    );
+  } catch (e) {
+    console.warn("Couldn't write the capture date into", item.id, e);
+  }
+}
+
+// Downloads a NAS item and adds it to the photo library. Resolves with the
+// new device item, carrying the NAS hash so it counts as backed up.
+export async function saveToDevice(
+  item: MediaItem,
+  options: SaveToDeviceOptions = {}
+): Promise<MediaItem> {
+  const dir = restoreDirFor(item.id);
+  await LegacyFileSystem.makeDirectoryAsync(dir, { intermediates: true });
+  const dest = `${dir}${encodeURIComponent(restoreFileName(item))}`;
+
+  try {
+    await fetchOriginal(item, dest, options);
+    await stampCaptureDate(item, dest);
+    const asset = await MediaLibrary.createAssetAsync(dest);
+
+    if (options.albumName) {
+      const album = await MediaLibrary.getAlbumAsync(options.albumName);
+      if (album) {
+        await MediaLibrary.addAssetsToAlbumAsync([asset], album, false);
+      } else {
+        await MediaLibrary.createAlbumAsync(options.albumName, asset, false);
+      }
+    }
+
+    return { ...assetToMediaItem(asset), hash: item.hash };
+  } finally {
+    // A paused download keeps its partial file for resumeAsync
+    if (!options.signal?.aborted) {
+      await LegacyFileSystem.deleteAsync(dir, { idempotent: true }).catch(
+        () => undefined
+      );
+    }
+  }
+}
+
+// Deletes what a paused or interrupted download of the item with this
+// catalog id left behind, for a job that's cancelled instead of resumed
+export async function discardPartialDownload(id: string): Promise<void> {
+  await LegacyFileSystem.deleteAsync(restoreDirFor(id), { idempotent: true });
+}
@@ -0,0 +1,99 @@
+// lib/free-up-space.ts
+// Finds device originals that are safely on the NAS so they can be removed
+// from the phone. "Safely" means the NAS reported the same content hash;
+// matching by date and size alone is never enough to delete anything.
+
+import * as LegacyFileSystem from "expo-file-system/legacy";
+import { deleteDeviceAssets, resolveLocalUri } from "./device-library";
+import { DEVICE_ID_PREFIX, MediaItem, SERVER_ID_PREFIX } from "./media";
+
+export type AgeFilter = {
+  label: string;
+  days: number; // only items at least this old; 0 = any
+};
+
+export const AGE_FILTERS: AgeFilter[] = [
+  { label: "Any age", days: 0 },
+  { label: "30+ days", days: 30 },
+  { label: "90+ days", days: 90 },
+  { label: "1+ year", days: 365 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Device items whose hash matches an item on the NAS, oldest first
+export function findVerifiedBackups(
+  catalog: MediaItem[],
+  minAgeDays = 0,
+  now = Date.now()
+): MediaItem[] {
+  const serverHashes = new Set(
+    catalog
+      .filter((m) => m.id.startsWith(SERVER_ID_PREFIX) && m.hash)
+      .map((m) => m.hash)
+  );
+  const cutoff = now - minAgeDays * DAY_MS;
+
+  return catalog
+    .filter(
+      (m) =>
+        m.id.startsWith(DEVICE_ID_PREFIX) &&
+        !!m.hash &&
+        serverHashes.has(m.hash) &&
+        new Date(m.createdAt).getTime() <= cutoff
+    )
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function totalBytes(items: MediaItem[]): number {
+  return items.reduce((sum, m) => sum + (m.size ?? 0), 0);
+}
+
+const MEASURE_CONCURRENCY = 4;
+
+// Sizes for items hashed before sizes were recorded. Resolves with only the
+// items it could measure.
+export async function measureItems(items: MediaItem[]): Promise<MediaItem[]> {
+  const todo = items.filter((m) => m.size == null);
+  const out: MediaItem[] = [];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < todo.length) {
+      const item = todo[next++];
+      try {
+        const info = await LegacyFileSystem.getInfoAsync(
+          await resolveLocalUri(item)
+        );
+        if (info.exists) out.push({ ...item, size: info.size });
+      } catch (e) {
+        console.warn("Could not measure", item.id, e);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: MEASURE_CONCURRENCY }, worker));
+  return out;
+}
+
+// Each batch is one system confirmation on iOS / Android 11+
+const DELETE_BATCH_SIZE = 100;
+
+// Deletes in batches and resolves with the ids that were removed. Stops at
+// the first batch the user declines. `onBatch` hears about each batch as
+// soon as it's gone, so callers can drop it from the catalog even if a
+// later batch fails.
+export async function deleteInBatches(
+  items: MediaItem[],
+  onBatch?: (ids: string[], done: number, total: number) => void
+): Promise<string[]> {
+  const deleted: string[] = [];
+  for (let i = 0; i < items.length; i += DELETE_BATCH_SIZE) {
+    const batch = items.slice(i, i + DELETE_BATCH_SIZE);
+    if (!(await deleteDeviceAssets(batch))) break;
+    const ids = batch.map((m) => m.id);
+    deleted.push(...ids);
+    onBatch?.(ids, deleted.length, items.length);
+  }
+  return deleted;
+}
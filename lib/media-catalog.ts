@@ -0,0 +1,208 @@
+// lib/media-catalog.ts
+// On-device catalog of MediaItem records and manual albums, persisted per
+// server profile. The stored snapshot carries a schema version; older
+// snapshots are upgraded through MIGRATIONS on load.
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as LegacyFileSystem from "expo-file-system/legacy";
+import { ManualAlbum, MediaItem } from "./media";
+
+export const CATALOG_VERSION = 2;
+
+export type CatalogSnapshot = {
+  version: number;
+  items: MediaItem[];
+  manualAlbums: ManualAlbum[];
+  // Server sync cursor matching `items`; stored together so the two can't
+  // drift apart
+  syncCursor: string | null;
+  updatedAt: string;
+};
+
+const STORAGE_CATALOG_KEY = "pp_media_catalog";
+
+const catalogKeyFor = (profileId: string) =>
+  `${STORAGE_CATALOG_KEY}:${profileId}`;
+
+// On iOS/Android the catalog is a JSON file: Android's AsyncStorage holds
+// about 6 MB in all and 2 MB per value, which a large library outgrows.
+// Web has no document directory and keeps using AsyncStorage.
+const CATALOG_DIR = LegacyFileSystem.documentDirectory
+  ? `${LegacyFileSystem.documentDirectory}catalog/`
+  : null;
+
+const catalogFileFor = (dir: string, profileId: string) =>
+  `${dir}${encodeURIComponent(profileId)}.json`;
+
+// Profiles whose catalog from before the move to files has been removed
+const legacyCleared = new Set<string>();
+
+// Saves run one at a time (they share the temporary file) and loads wait
+// for them, so switching back to a profile reads its latest save
+let pendingWrites: Promise<void> = Promise.resolve();
+
+type StoredSnapshot = { [key: string]: unknown; version: number };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// MIGRATIONS[n] upgrades a version-n snapshot to version n + 1.
+// Add an entry here (and bump CATALOG_VERSION) whenever the stored
+// MediaItem / ManualAlbum shape changes.
+const MIGRATIONS: Record<
+  number,
+  (snapshot: StoredSnapshot) => StoredSnapshot
+> = {
+  // Items no longer keep their raw EXIF; `metadata` holds what's used
+  1: (snapshot) => ({
+    ...snapshot,
+    items: Array.isArray(snapshot.items)
+      ? snapshot.items.map((item: unknown) => {
+          if (!isRecord(item)) return item;
+          const { exif, ...rest } = item;
+          return rest;
+        })
+      : [],
+  }),
+};
+
+// Entries that don't have the shape the app relies on are dropped on load
+function isStoredItem(value: unknown): value is MediaItem {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.uri === "string" &&
+    typeof value.createdAt === "string" &&
+    (value.type === "photo" || value.type === "video") &&
+    (value.source === "device" || value.source === "server")
+  );
+}
+
+function isStoredAlbum(value: unknown): value is ManualAlbum {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.title === "string" &&
+    typeof value.createdAt === "string" &&
+    Array.isArray(value.mediaIds) &&
+    value.mediaIds.every((id) => typeof id === "string")
+  );
+}
+
+export function emptyCatalog(): CatalogSnapshot {
+  return {
+    version: CATALOG_VERSION,
+    items: [],
+    manualAlbums: [],
+    syncCursor: null,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export function migrateCatalog(raw: unknown): CatalogSnapshot {
+  if (!isRecord(raw) || typeof raw.version !== "number") {
+    return emptyCatalog();
+  }
+
+  let snapshot: StoredSnapshot = { ...raw, version: raw.version };
+  while (snapshot.version < CATALOG_VERSION) {
+    const migrate = MIGRATIONS[snapshot.version];
+    if (!migrate) {
+      console.warn(
+        `No catalog migration from version ${snapshot.version}, starting fresh`
+      );
+      return emptyCatalog();
+    }
+    snapshot = { ...migrate(snapshot), version: snapshot.version + 1 };
+  }
+
+  if (snapshot.version > CATALOG_VERSION) {
+    // Written by a newer app build; don't guess at its shape
+    console.warn(`Catalog version ${snapshot.version} is newer than supported`);
+    return emptyCatalog();
+  }
+
+  return {
+    version: CATALOG_VERSION,
+    items: Array.isArray(snapshot.items)
+      ? snapshot.items.filter(isStoredItem)
+      : [],
+    manualAlbums: Array.isArray(snapshot.manualAlbums)
+      ? snapshot.manualAlbums.filter(isStoredAlbum)
+      : [],
+    syncCursor:
+      typeof snapshot.syncCursor === "string" ? snapshot.syncCursor : null,
+    updatedAt:
+      typeof snapshot.updatedAt === "string"
+        ? snapshot.updatedAt
+        : new Date().toISOString(),
+  };
+}
+
+async function readStoredCatalog(profileId: string): Promise<string | null> {
+  if (!CATALOG_DIR) return AsyncStorage.getItem(catalogKeyFor(profileId));
+
+  const file = catalogFileFor(CATALOG_DIR, profileId);
+  // The temporary file is only left on its own by a save that was cut off
+  // between removing the old file and moving the new one in
+  for (const path of [file, `${file}.tmp`]) {
+    const info = await LegacyFileSystem.getInfoAsync(path);
+    if (info.exists) return LegacyFileSystem.readAsStringAsync(path);
+  }
+  // Saved before the catalog moved out of AsyncStorage
+  return AsyncStorage.getItem(catalogKeyFor(profileId));
+}
+
+async function writeStoredCatalog(
+  profileId: string,
+  json: string
+): Promise<void> {
+  if (!CATALOG_DIR) {
+    await AsyncStorage.setItem(catalogKeyFor(profileId), json);
+    return;
+  }
+
+  const file = catalogFileFor(CATALOG_DIR, profileId);
+  const tmp = `${file}.tmp`;
+  await LegacyFileSystem.makeDirectoryAsync(CATALOG_DIR, {
+    intermediates: true,
+  });
+  // Written in full before it replaces the old file, so a crash mid-write
+  // can't leave half a catalog behind
+  await LegacyFileSystem.writeAsStringAsync(tmp, json);
+  await LegacyFileSystem.deleteAsync(file, { idempotent: true });
+  await LegacyFileSystem.moveAsync({ from: tmp, to: file });
+
+  if (!legacyCleared.has(profileId)) {
+    await AsyncStorage.removeItem(catalogKeyFor(profileId));
+    legacyCleared.add(profileId);
+  }
+}
+
+export async function loadCatalog(profileId: string): Promise<CatalogSnapshot> {
+  await pendingWrites;
+  const stored = await readStoredCatalog(profileId);
+  if (!stored) return emptyCatalog();
+
+  return migrateCatalog(JSON.parse(stored));
+}
+
+export async function saveCatalog(
+  profileId: string,
+  items: MediaItem[],
+  manualAlbums: ManualAlbum[],
+  syncCursor: string | null
+): Promise<void> {
+  const snapshot: CatalogSnapshot = {
+    version: CATALOG_VERSION,
+    items,
+    manualAlbums,
+    syncCursor,
+    updatedAt: new Date().toISOString(),
+  };
+  const write = pendingWrites.then(() =>
+    writeStoredCatalog(profileId, JSON.stringify(snapshot))
+  );
+  pendingWrites = write.catch(() => undefined);
+  await write;
+}
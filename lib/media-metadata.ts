@@ -0,0 +1,170 @@
+// lib/media-metadata.ts
+// Structured capture metadata (camera, exposure, location) pulled out of the
+// raw EXIF the media library hands us. This is what gets sent to the NAS
+// with each upload and read back when syncing, so NAS items carry the same
+// details as the device items they came from.
+
+export type MediaMetadata = {
+  make?: string;
+  model?: string;
+  lens?: string;
+  exposureTime?: number; // seconds
+  fNumber?: number;
+  focalLength?: number; // mm
+  iso?: number;
+  latitude?: number;
+  longitude?: number;
+  altitude?: number; // metres above sea level
+  orientation?: number; // EXIF orientation, 1-8
+  offsetTime?: string; // UTC offset of the capture time, e.g. "+02:00"
+};
+
+const STRING_FIELDS = ["make", "model", "lens", "offsetTime"] as const;
+const NUMBER_FIELDS = [
+  "exposureTime",
+  "fNumber",
+  "focalLength",
+  "iso",
+  "latitude",
+  "longitude",
+  "altitude",
+  "orientation",
+] as const;
+
+type Dict = Record<string, unknown>;
+
+const asDict = (value: unknown): Dict | undefined =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Dict)
+    : undefined;
+
+// EXIF numbers arrive as numbers, "a/b" rationals, or (for ISO) arrays
+function toNumber(value: unknown): number | undefined {
+  if (Array.isArray(value)) return toNumber(value[0]);
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  const [num, den] = value.split("/");
+  const n = den === undefined ? Number(num) : Number(num) / Number(den);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const text = value.replace(/\0/g, "").trim();
+  return text || undefined;
+}
+
+// Android reports coordinates as "deg/1,min/1,sec/100"
+function toDegrees(value: unknown, ref: unknown): number | undefined {
+  let degrees: number | undefined;
+  if (typeof value === "string" && value.includes(",")) {
+    const [d, m = 0, s = 0] = value.split(",").map((p) => toNumber(p) ?? NaN);
+    degrees = d + m / 60 + s / 3600;
+    if (!Number.isFinite(degrees)) return undefined;
+  } else {
+    degrees = toNumber(value);
+  }
+  if (degrees === undefined) return undefined;
+  return ref === "S" || ref === "W" ? -Math.abs(degrees) : degrees;
+}
+
+// Reads both layouts: iOS nests tags in "{Exif}" / "{TIFF}" / "{GPS}"
+// dictionaries, Android lists them flat under their EXIF tag names.
+// `location` is the coordinate the media library itself reports, which is
+// preferred when present.
+export function extractMetadata(
+  exif: unknown,
+  location?: { latitude: number; longitude: number } | null
+): MediaMetadata | undefined {
+  const root = asDict(exif) ?? {};
+  const exifDict = asDict(root["{Exif}"]) ?? root;
+  const tiff = asDict(root["{TIFF}"]) ?? root;
+  const gps = asDict(root["{GPS}"]);
+  const aux = asDict(root["{ExifAux}"]);
+
+  const metadata: MediaMetadata = {
+    make: toText(tiff.Make),
+    model: toText(tiff.Model),
+    lens: toText(exifDict.LensModel) ?? toText(aux?.LensModel),
+    exposureTime: toNumber(exifDict.ExposureTime),
+    fNumber: toNumber(exifDict.FNumber),
+    focalLength: toNumber(exifDict.FocalLength),
+    iso: toNumber(
+      exifDict.ISOSpeedRatings ?? exifDict.PhotographicSensitivity
+    ),
+    orientation: toNumber(root.Orientation ?? tiff.Orientation),
+    offsetTime: toText(exifDict.OffsetTimeOriginal ?? exifDict.OffsetTime),
+  };
+
+  if (location) {
+    metadata.latitude = location.latitude;
+    metadata.longitude = location.longitude;
+  } else if (gps) {
+    metadata.latitude = toDegrees(gps.Latitude, gps.LatitudeRef);
+    metadata.longitude = toDegrees(gps.Longitude, gps.LongitudeRef);
+  } else {
+    metadata.latitude = toDegrees(root.GPSLatitude, root.GPSLatitudeRef);
+    metadata.longitude = toDegrees(root.GPSLongitude, root.GPSLongitudeRef);
+  }
+  const altitude = toNumber(gps ? gps.Altitude : root.GPSAltitude);
+  const belowSeaLevel = Number(gps ? gps.AltitudeRef : root.GPSAltitudeRef) === 1;
+  metadata.altitude =
+    altitude !== undefined && belowSeaLevel ? -altitude : altitude;
+
+  return sanitizeMetadata(metadata);
+}
+
+// Keeps only well-formed fields; undefined when nothing is left. Used on
+// server responses too, where unknown or mistyped fields are dropped
+// rather than failing the whole listing.
+export function sanitizeMetadata(raw: unknown): MediaMetadata | undefined {
+  const obj = asDict(raw);
+  if (!obj) return undefined;
+
+  const metadata: MediaMetadata = {};
+  for (const key of STRING_FIELDS) {
+    const value = toText(obj[key]);
+    if (value) metadata[key] = value;
+  }
+  for (const key of NUMBER_FIELDS) {
+    const value = obj[key];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      metadata[key] = value;
+    }
+  }
+  if (metadata.latitude !== undefined && Math.abs(metadata.latitude) > 90) {
+    delete metadata.latitude;
+  }
+  if (metadata.longitude !== undefined && Math.abs(metadata.longitude) > 180) {
+    delete metadata.longitude;
+  }
+  return Object.keys(metadata).length ? metadata : undefined;
+}
+
+// "Apple iPhone 15 · f/1.8 · 1/120 s · ISO 50"
+export function describeCamera(metadata?: MediaMetadata): string | null {
+  if (!metadata) return null;
+  const parts: string[] = [];
+
+  const { make, model } = metadata;
+  // Models often repeat the make ("Canon EOS R6")
+  if (model) {
+    parts.push(
+      make && !model.toLowerCase().startsWith(make.toLowerCase())
+        ? `${make} ${model}`
+        : model
+    );
+  } else if (make) {
+    parts.push(make);
+  }
+  if (metadata.fNumber) parts.push(`f/${metadata.fNumber.toFixed(1)}`);
+  if (metadata.exposureTime) {
+    parts.push(
+      metadata.exposureTime >= 1
+        ? `${metadata.exposureTime} s`
+        : `1/${Math.round(1 / metadata.exposureTime)} s`
+    );
+  }
+  if (metadata.iso) parts.push(`ISO ${metadata.iso}`);
+  return parts.length ? parts.join(" · ") : null;
+}
@@ -0,0 +1,334 @@
+// lib/media.ts
+// Media model shared by the library, the local catalog and the sync code.
+
+import { MediaMetadata } from "./media-metadata";
+import { NasMediaRecord } from "./nas-api";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type MediaType = "photo" | "video";
+export type MediaSource = "device" | "server";
+
+// Which rendition to load: grids want thumbnails, the viewer a preview
+// first and then the original
+export type MediaSize = "thumbnail" | "preview" | "original";
+
+export type MediaItem = {
+  id: string;
+  uri: string; // the original
+  thumbnailUri?: string; // small rendition for grids (NAS items)
+  previewUri?: string; // screen-sized rendition (NAS items)
+  blurhash?: string; // placeholders shown while an image loads
+  thumbhash?: string;
+  createdAt: string;
+  modifiedAt?: string; // device items: last edit, used to spot changed files
+  type: MediaType;
+  source: MediaSource;
+  width?: number;
+  height?: number;
+  metadata?: MediaMetadata; // camera, exposure and location, from EXIF
+  favorite?: boolean;
+  hash?: string; // content checksum (MD5 hex), once known
+  size?: number; // device items: file size in bytes, measured with the hash
+  fileName?: string; // original name, e.g. "IMG_0042.HEIC"
+  mimeType?: string; // of the original file, when known
+};
+
+export type ManualAlbum = {
+  id: string;
+  title: string;
+  createdAt: string;
+  mediaIds: string[];
+  coverMediaId?: string;
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+// MIME types by extension. Anything not listed is treated as a photo with
+// a generic type, which the server can still store.
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  heic: "image/heic",
+  heif: "image/heif",
+  avif: "image/avif",
+  bmp: "image/bmp",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  dng: "image/x-adobe-dng",
+  cr2: "image/x-canon-cr2",
+  cr3: "image/x-canon-cr3",
+  nef: "image/x-nikon-nef",
+  arw: "image/x-sony-arw",
+  raf: "image/x-fuji-raf",
+  orf: "image/x-olympus-orf",
+  rw2: "image/x-panasonic-rw2",
+};
+
+const VIDEO_TYPES: Record<string, string> = {
+  mp4: "video/mp4",
+  m4v: "video/x-m4v",
+  mov: "video/quicktime",
+  avi: "video/x-msvideo",
+  mkv: "video/x-matroska",
+  webm: "video/webm",
+  "3gp": "video/3gpp",
+  "3g2": "video/3gpp2",
+  mts: "video/mp2t",
+  m2ts: "video/mp2t",
+  mpg: "video/mpeg",
+  mpeg: "video/mpeg",
+  wmv: "video/x-ms-wmv",
+};
+
+// Lower-case extension of a file name or URL, ignoring any query string
+export function extensionOf(nameOrUrl: string): string | null {
+  if (nameOrUrl.startsWith("data:")) return null;
+  const path = nameOrUrl.split(/[?#]/)[0];
+  const match = path.match(/\.([a-z0-9]{1,5})$/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+export function mimeTypeFromName(nameOrUrl: string): string | null {
+  const ext = extensionOf(nameOrUrl);
+  if (!ext) return null;
+  return IMAGE_TYPES[ext] ?? VIDEO_TYPES[ext] ?? null;
+}
+
+export function detectTypeFromName(nameOrUrl: string): MediaType {
+  // Inline data the demo server hands out carries its type up front
+  if (nameOrUrl.startsWith("data:video/")) return "video";
+  const ext = extensionOf(nameOrUrl);
+  return ext && ext in VIDEO_TYPES ? "video" : "photo";
+}
+
+export function detectTypeFromMime(mimeType: string): MediaType {
+  return mimeType.toLowerCase().startsWith("video/") ? "video" : "photo";
+}
+
+// Falls back to the next larger rendition the item has
+export function mediaUri(item: MediaItem, size: MediaSize): string {
+  if (size === "thumbnail") {
+    return item.thumbnailUri ?? item.previewUri ?? item.uri;
+  }
+  if (size === "preview") return item.previewUri ?? item.uri;
+  return item.uri;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB", "TB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+// "0:42", "12:05", "1:02:33"
+export function formatDuration(seconds: number): string {
+  const total = Math.max(Math.floor(seconds), 0);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+export const SERVER_ID_PREFIX = "server-";
+export const DEVICE_ID_PREFIX = "device-";
+
+// Fallback identity for items whose content hash isn't known yet
+function buildDedupKey(item: MediaItem): string {
+  // Use createdAt (to the second) + resolution.
+  // Device + server copies share this if they represent the same asset.
+  const timePart = item.createdAt.slice(0, 19); // "YYYY-MM-DDTHH:MM:SS"
+  const sizePart =
+    item.width && item.height ? `${item.width}x${item.height}` : "";
+
+  return `${timePart}|${sizePart}`;
+}
+
+// Collapses device/server copies of the same asset, keeping the item
+// `prefer` ranks highest. Items with hashes only match on the hash, so burst
+// shots stay apart; items without one fall back to buildDedupKey.
+export function dedupeMedia(
+  items: MediaItem[],
+  prefer: (item: MediaItem) => number
+): MediaItem[] {
+  type Group = { first: number; items: MediaItem[] };
+  const groups: Group[] = [];
+  const byHash = new Map<string, Group>();
+  const byKey = new Map<string, Group>();
+
+  const add = (group: Group | undefined, item: MediaItem, index: number) => {
+    if (group) {
+      group.items.push(item);
+      return group;
+    }
+    const created: Group = { first: index, items: [item] };
+    groups.push(created);
+    return created;
+  };
+
+  items.forEach((item, index) => {
+    if (!item.hash) return;
+    const group = add(byHash.get(item.hash), item, index);
+    byHash.set(item.hash, group);
+    const key = buildDedupKey(item);
+    if (!byKey.has(key)) byKey.set(key, group);
+  });
+
+  items.forEach((item, index) => {
+    if (item.hash) return;
+    const key = buildDedupKey(item);
+    byKey.set(key, add(byKey.get(key), item, index));
+  });
+
+  return groups
+    .sort((a, b) => a.first - b.first)
+    .map((g) =>
+      g.items.reduce((best, item) =>
+        prefer(item) > prefer(best) ? item : best
+      )
+    );
+}
+
+// Same rule as dedupeMedia: hashes decide when both are known
+export function isSameAsset(a: MediaItem, b: MediaItem): boolean {
+  if (a.hash && b.hash) return a.hash === b.hash;
+  return buildDedupKey(a) === buildDedupKey(b);
+}
+
+// What the NAS (or the phone) already holds, for "is this item on the other
+// side?" checks
+export type ServerIndex = {
+  hashes: Set<string>;
+  keys: Set<string>; // heuristic keys of every indexed item
+  unhashedKeys: Set<string>; // ...of indexed items without a hash
+};
+
+function buildIndex(items: MediaItem[], prefix: string): ServerIndex {
+  const index: ServerIndex = {
+    hashes: new Set(),
+    keys: new Set(),
+    unhashedKeys: new Set(),
+  };
+  for (const item of items) {
+    if (!item.id.startsWith(prefix)) continue;
+    const key = buildDedupKey(item);
+    index.keys.add(key);
+    if (item.hash) index.hashes.add(item.hash);
+    else index.unhashedKeys.add(key);
+  }
+  return index;
+}
+
+export function buildServerIndex(items: MediaItem[]): ServerIndex {
+  return buildIndex(items, SERVER_ID_PREFIX);
+}
+
+export function buildDeviceIndex(items: MediaItem[]): ServerIndex {
+  return buildIndex(items, DEVICE_ID_PREFIX);
+}
+
+// Same rule as isSameAsset: hashes decide when both sides have one
+export function isInIndex(item: MediaItem, index: ServerIndex): boolean {
+  const key = buildDedupKey(item);
+  if (!item.hash) return index.keys.has(key);
+  return index.hashes.has(item.hash) || index.unhashedKeys.has(key);
+}
+
+// Device items that are already on the NAS, either because we uploaded them
+// (source flipped to "server") or because a server copy matches them.
+export function isBackedUp(item: MediaItem, index: ServerIndex): boolean {
+  if (item.source === "server") return true;
+  return isInIndex(item, index);
+}
+
+export function serverRecordToMediaItem(record: NasMediaRecord): MediaItem {
+  return {
+    id: `${SERVER_ID_PREFIX}${record.id}`,
+    uri: record.url,
+    createdAt: record.createdAt,
+    type: record.mimeType
+      ? detectTypeFromMime(record.mimeType)
+      : detectTypeFromName(record.fileName || record.id || record.url),
+    source: "server",
+    width: record.width,
+    height: record.height,
+    hash: record.checksum,
+    fileName: record.fileName,
+    mimeType: record.mimeType,
+    metadata: record.metadata,
+    thumbnailUri: record.thumbnailUrl,
+    previewUri: record.previewUrl,
+    blurhash: record.blurhash,
+    thumbhash: record.thumbhash,
+  };
+}
+
+// Replaces our copy of the server's library with a fresh listing. Items the
+// server no longer has are dropped; local-only fields (favorite) are kept.
+export function reconcileServerItems(
+  prev: MediaItem[],
+  serverItems: MediaItem[]
+): MediaItem[] {
+  const fresh = new Map(serverItems.map((i) => [i.id, i]));
+  const seen = new Set<string>();
+
+  const next: MediaItem[] = [];
+  for (const item of prev) {
+    if (!item.id.startsWith(SERVER_ID_PREFIX)) {
+      next.push(item);
+      continue;
+    }
+    const update = fresh.get(item.id);
+    if (!update) continue; // deleted on the server
+    seen.add(item.id);
+    next.push({ ...update, favorite: item.favorite });
+  }
+
+  for (const item of serverItems) {
+    if (!seen.has(item.id)) next.push(item);
+  }
+  return next;
+}
+
+// Applies an incremental sync: updates and additions are upserted, deleted
+// server items dropped. Local-only fields (favorite) are kept.
+export function applyServerChanges(
+  prev: MediaItem[],
+  changed: MediaItem[],
+  deletedIds: string[]
+): MediaItem[] {
+  if (!changed.length && !deletedIds.length) return prev;
+  const fresh = new Map(changed.map((i) => [i.id, i]));
+  const deleted = new Set(deletedIds);
+  const seen = new Set<string>();
+
+  const next: MediaItem[] = [];
+  for (const item of prev) {
+    if (deleted.has(item.id)) continue;
+    const update = fresh.get(item.id);
+    if (!update) {
+      next.push(item);
+      continue;
+    }
+    seen.add(item.id);
+    next.push({ ...update, favorite: item.favorite });
+  }
+
+  for (const item of changed) {
+    if (!seen.has(item.id) && !deleted.has(item.id)) next.push(item);
+  }
+  return next;
+}
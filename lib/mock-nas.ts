@@ -0,0 +1,655 @@
+// lib/mock-nas.ts
+// In-process stand-in for the NAS backend, used by the "Demo server" profile.
+// It speaks the same HTTP API as the real server through a fetch-compatible
+// function, so the app exercises its normal client code paths end to end.
+
+import * as LegacyFileSystem from "expo-file-system/legacy";
+import { extensionOf } from "./media";
+import { MediaMetadata, sanitizeMetadata } from "./media-metadata";
+import {
+  expectObject,
+  Json,
+  NasApiError,
+  optionalNumber,
+  optionalString,
+} from "./nas-api";
+
+export const DEMO_BASE_URL = "demo://local";
+
+export function isDemoBaseUrl(baseUrl: string): boolean {
+  return baseUrl.startsWith("demo://");
+}
+
+// -----------------------------------------------------------------------------
+// Options (latency + error injection)
+// -----------------------------------------------------------------------------
+
+export type MockNasOptions = {
+  minLatencyMs: number;
+  maxLatencyMs: number;
+  failureRate: number; // 0..1, chance a non-auth request answers 500
+  accessTokenTtlMs: number; // lower it to exercise token refresh
+  chunkedUploads: boolean; // turn off to exercise the single-request path
+};
+
+const DEFAULT_OPTIONS: MockNasOptions = {
+  minLatencyMs: 150,
+  maxLatencyMs: 600,
+  failureRate: 0,
+  accessTokenTtlMs: 15 * 60 * 1000,
+  chunkedUploads: true,
+};
+
+let options: MockNasOptions = { ...DEFAULT_OPTIONS };
+
+export function configureMockNas(partial: Partial<MockNasOptions>) {
+  options = { ...options, ...partial };
+}
+
+// Network conditions the demo server can be set to from Settings, to try
+// out retries, back-off and progress without a real NAS
+export type MockNasConditions = "normal" | "slow" | "flaky";
+
+export const MOCK_NAS_CONDITIONS: MockNasConditions[] = [
+  "normal",
+  "slow",
+  "flaky",
+];
+
+export const MOCK_NAS_PRESETS: Record<
+  MockNasConditions,
+  Pick<MockNasOptions, "minLatencyMs" | "maxLatencyMs" | "failureRate">
+> = {
+  normal: { minLatencyMs: 150, maxLatencyMs: 600, failureRate: 0 },
+  slow: { minLatencyMs: 1500, maxLatencyMs: 4000, failureRate: 0 },
+  flaky: { minLatencyMs: 300, maxLatencyMs: 2500, failureRate: 0.2 },
+};
+
+// -----------------------------------------------------------------------------
+// In-memory state
+// -----------------------------------------------------------------------------
+
+type MockUser = {
+  id: string;
+  email: string;
+  password: string;
+};
+
+type MockMedia = {
+  id: string;
+  url: string;
+  createdAt: string;
+  width?: number;
+  height?: number;
+  checksum?: string;
+  fileName?: string;
+  mimeType?: string;
+  metadata?: MediaMetadata;
+  thumbnailUrl?: string;
+  previewUrl?: string;
+};
+
+type MockUploadSession = {
+  id: string;
+  userId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  chunkSize: number;
+  takenAt?: string;
+  width?: number;
+  height?: number;
+  checksum?: string;
+  metadata?: MediaMetadata;
+  chunks: string[]; // base64, in order
+};
+
+// One entry per add / delete, for GET /media/changes
+type MockChange = {
+  seq: number;
+  id: string;
+  deleted: boolean;
+};
+
+const MAX_CHUNK_SIZE = 8 * 1024 * 1024;
+
+// Files assembled from chunked uploads. Web has no cache directory; there
+// they stay inline as data: URLs.
+const UPLOADS_DIR = LegacyFileSystem.cacheDirectory
+  ? `${LegacyFileSystem.cacheDirectory}demo-nas/`
+  : null;
+
+const DEMO_USER: MockUser = {
+  id: "demo-user",
+  email: "alex@example.com",
+  password: "password123",
+};
+
+const SAMPLE_VIDEO_URL =
+  "https://interactive-examples.mdn.mozilla.net/media/cc0-videos/flower.mp4";
+
+// Stable fake MD5-looking checksum for fixtures
+function fakeChecksum(seed: string) {
+  let h = 0;
+  for (const ch of seed) h = (h * 31 + ch.charCodeAt(0)) >>> 0;
+  return h.toString(16).padStart(8, "0").repeat(4);
+}
+
+function hoursAgo(n: number) {
+  return new Date(Date.now() - n * 60 * 60 * 1000).toISOString();
+}
+
+// A few months of photos with the odd video, newest first
+function makeFixtures(): MockMedia[] {
+  const items: MockMedia[] = [];
+  for (let i = 0; i < 36; i++) {
+    const isVideo = i % 9 === 4;
+    const landscape = i % 3 !== 0;
+    // Spread over ~120 days, in bursts of three shots a few minutes apart
+    const hours = Math.floor(i / 3) * 80 + (i % 3) * 0.05;
+
+    const id = isVideo ? `clip-${i}.mp4` : `img-${i}.jpg`;
+    // Photos come in three sizes like a real server's renditions
+    const photo = (long: number) => {
+      const short = Math.round((long * 2) / 3);
+      const size = landscape ? `${long}/${short}` : `${short}/${long}`;
+      return `https://picsum.photos/id/${10 + i * 3}/${size}`;
+    };
+    items.push({
+      id,
+      url: isVideo ? SAMPLE_VIDEO_URL : photo(1200),
+      thumbnailUrl: isVideo ? undefined : photo(300),
+      previewUrl: isVideo ? undefined : photo(900),
+      createdAt: hoursAgo(hours),
+      width: isVideo ? 1920 : landscape ? 1200 : 800,
+      height: isVideo ? 1080 : landscape ? 800 : 1200,
+      checksum: fakeChecksum(id),
+    });
+  }
+  return items;
+}
+
+let users: MockUser[] = [DEMO_USER];
+let mediaByUser: Record<string, MockMedia[]> = {
+  [DEMO_USER.id]: makeFixtures(),
+};
+let uploadSessions: Record<string, MockUploadSession> = {};
+let idCounter = 0;
+
+// Sync cursors are "<epoch>.<seq>". The epoch changes whenever the mock
+// state is rebuilt (including app restarts), so old cursors get a 410.
+let changeSeq = 0;
+let syncEpoch = Date.now().toString(36);
+let changesByUser: Record<string, MockChange[]> = {
+  [DEMO_USER.id]: initialChanges(mediaByUser[DEMO_USER.id]),
+};
+
+function initialChanges(list: MockMedia[]): MockChange[] {
+  // Oldest first, so a fresh full sync lists them in that order
+  return [...list]
+    .reverse()
+    .map((m) => ({ seq: ++changeSeq, id: m.id, deleted: false }));
+}
+
+function logChange(userId: string, id: string, deleted: boolean) {
+  changesByUser[userId] = [
+    ...(changesByUser[userId] ?? []),
+    { seq: ++changeSeq, id, deleted },
+  ];
+}
+
+export function resetMockNas() {
+  users = [DEMO_USER];
+  uploadSessions = {};
+  mediaByUser = { [DEMO_USER.id]: makeFixtures() };
+  changeSeq = 0;
+  syncEpoch = Date.now().toString(36);
+  changesByUser = { [DEMO_USER.id]: initialChanges(mediaByUser[DEMO_USER.id]) };
+  options = { ...DEFAULT_OPTIONS };
+  if (UPLOADS_DIR) {
+    LegacyFileSystem.deleteAsync(UPLOADS_DIR, { idempotent: true }).catch(
+      (e) => console.warn("Failed to clear demo uploads", e)
+    );
+  }
+}
+
+// Tokens are self-describing so a session survives an app restart even
+// though the rest of the mock state does not
+function issueTokens(user: MockUser) {
+  const expiresAt = Date.now() + options.accessTokenTtlMs;
+  return {
+    token: `demo-access.${user.id}.${expiresAt}`,
+    refreshToken: `demo-refresh.${user.id}`,
+  };
+}
+
+function userFromAccessToken(token: string): MockUser | null {
+  const [kind, userId, expiresAt] = token.split(".");
+  if (kind !== "demo-access" || Number(expiresAt) < Date.now()) return null;
+  return users.find((u) => u.id === userId) ?? null;
+}
+
+function userFromRefreshToken(token: string): MockUser | null {
+  const [kind, userId] = token.split(".");
+  if (kind !== "demo-refresh") return null;
+  return users.find((u) => u.id === userId) ?? null;
+}
+
+// -----------------------------------------------------------------------------
+// Request plumbing
+// -----------------------------------------------------------------------------
+
+type FormPart =
+  | { fieldName: string; string: string }
+  | { fieldName: string; uri: string; name?: string; type?: string };
+
+// React Native's FormData only exposes getParts(); web has entries()
+function readFormParts(body: FormData): FormPart[] {
+  const rn = body as unknown as { getParts?: () => FormPart[] };
+  if (typeof rn.getParts === "function") return rn.getParts();
+
+  const parts: FormPart[] = [];
+  body.forEach((value, fieldName) => {
+    if (typeof value === "string") {
+      parts.push({ fieldName, string: value });
+    } else {
+      const file = value as File;
+      parts.push({ fieldName, uri: "", name: file.name, type: file.type });
+    }
+  });
+  return parts;
+}
+
+function json(status: number, data: unknown): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Rejects like fetch does when the request is aborted mid-wait
+function wait(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new Error("Aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) abort();
+    else signal?.addEventListener("abort", abort);
+  });
+}
+
+function latency() {
+  const { minLatencyMs, maxLatencyMs } = options;
+  return minLatencyMs + Math.random() * (maxLatencyMs - minLatencyMs);
+}
+
+function parseJsonBody(body: unknown): unknown {
+  if (typeof body !== "string") return null;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
+}
+
+// Checks a JSON body with the same validators the client uses on
+// responses; anything malformed is answered with a 400
+function readBody<T>(
+  init: RequestInit | undefined,
+  read: (body: Json) => T
+): T | Response {
+  try {
+    return read(expectObject(parseJsonBody(init?.body), "body"));
+  } catch (e) {
+    if (e instanceof NasApiError) {
+      return json(400, { error: "Malformed request body" });
+    }
+    throw e;
+  }
+}
+
+function authenticate(init: RequestInit | undefined): MockUser | null {
+  const headers = (init?.headers ?? {}) as Record<string, string>;
+  const header = headers.Authorization ?? headers.authorization ?? "";
+  const token = header.replace(/^Bearer\s+/i, "");
+  return token ? userFromAccessToken(token) : null;
+}
+
+function handleAuth(path: string, init: RequestInit | undefined): Response {
+  const body = readBody(init, (b) => ({
+    email: optionalString(b, "email", "body"),
+    password: optionalString(b, "password", "body"),
+    refreshToken: optionalString(b, "refreshToken", "body"),
+  }));
+  if (body instanceof Response) return body;
+  const { email, password, refreshToken } = body;
+
+  if (path === "/auth/refresh") {
+    const user = userFromRefreshToken(refreshToken ?? "");
+    if (!user) return json(401, { error: "Invalid refresh token" });
+    return json(200, issueTokens(user));
+  }
+
+  if (!email || !password) {
+    return json(400, { error: "Email and password are required" });
+  }
+  const normalized = email.toLowerCase();
+  const existing = users.find((u) => u.email === normalized);
+
+  if (path === "/auth/register") {
+    if (existing) return json(409, { error: "Email already registered" });
+    const user: MockUser = {
+      id: `user-${++idCounter}`,
+      email: normalized,
+      password,
+    };
+    users.push(user);
+    mediaByUser[user.id] = [];
+    return json(201, {
+      user: { id: user.id, email: user.email },
+      ...issueTokens(user),
+    });
+  }
+
+  if (!existing || existing.password !== password) {
+    return json(401, { error: "Invalid email or password" });
+  }
+  return json(200, {
+    user: { id: existing.id, email: existing.email },
+    ...issueTokens(existing),
+  });
+}
+
+function parseMetadataField(value?: string): MediaMetadata | undefined {
+  if (!value) return undefined;
+  try {
+    return sanitizeMetadata(JSON.parse(value));
+  } catch {
+    return undefined;
+  }
+}
+
+function handleUpload(user: MockUser, body: unknown): Response {
+  if (!(body instanceof FormData)) {
+    return json(400, { error: "Expected multipart form data" });
+  }
+
+  const parts = readFormParts(body);
+  const field = (name: string) => {
+    const part = parts.find((p) => p.fieldName === name);
+    return part && "string" in part ? part.string : undefined;
+  };
+  const file = parts.find((p) => p.fieldName === "file" && "uri" in p);
+  if (!file || !("uri" in file)) {
+    return json(400, { error: "No file uploaded" });
+  }
+
+  const takenAt = field("takenAt");
+  const width = field("width");
+  const height = field("height");
+
+  return addRecord(user.id, {
+    id: `${Date.now()}-${++idCounter}-${file.name ?? "upload"}`,
+    url: file.uri,
+    createdAt: takenAt ?? new Date().toISOString(),
+    width: width ? Number(width) : undefined,
+    height: height ? Number(height) : undefined,
+    checksum: field("checksum"),
+    fileName: field("fileName") ?? file.name,
+    mimeType: field("mimeType") ?? file.type,
+    metadata: parseMetadataField(field("metadata")),
+  });
+}
+
+function sessionJson(session: MockUploadSession) {
+  return {
+    id: session.id,
+    chunkSize: session.chunkSize,
+    receivedChunks: session.chunks.length,
+  };
+}
+
+function addRecord(userId: string, record: MockMedia): Response {
+  const list = mediaByUser[userId] ?? [];
+  const duplicate =
+    record.checksum && list.find((m) => m.checksum === record.checksum);
+  if (duplicate) return json(200, duplicate);
+  mediaByUser[userId] = [record, ...list];
+  logChange(userId, record.id, false);
+  return json(201, record);
+}
+
+// Latest change per item after the cursor, in sequence order, paged
+function handleMediaChanges(user: MockUser, query: URLSearchParams): Response {
+  const limit = Math.max(1, Number(query.get("limit")) || 500);
+  const cursor = query.get("cursor");
+
+  let since = 0;
+  if (cursor) {
+    const [epoch, seq] = cursor.split(".");
+    if (epoch !== syncEpoch || !Number.isFinite(Number(seq))) {
+      return json(410, { error: "Sync cursor expired, do a full sync" });
+    }
+    since = Number(seq);
+  }
+
+  const latest = new Map<string, MockChange>();
+  for (const change of changesByUser[user.id] ?? []) {
+    if (change.seq > since) latest.set(change.id, change);
+  }
+  const pending = [...latest.values()]
+    // A full sync has nothing to delete
+    .filter((c) => cursor || !c.deleted)
+    .sort((a, b) => a.seq - b.seq);
+  const page = pending.slice(0, limit);
+  const records = new Map(
+    (mediaByUser[user.id] ?? []).map((m) => [m.id, m] as const)
+  );
+  const lastSeq = page.length
+    ? page[page.length - 1].seq
+    : Math.max(since, changeSeq);
+
+  return json(200, {
+    items: page
+      .filter((c) => !c.deleted)
+      .map((c) => records.get(c.id))
+      .filter(Boolean),
+    deleted: page.filter((c) => c.deleted).map((c) => c.id),
+    cursor: `${syncEpoch}.${lastSeq}`,
+    hasMore: pending.length > page.length,
+  });
+}
+
+// Writes the joined chunks to a file, so items (and the catalog that
+// stores them) carry a file:// URI instead of the whole file inline
+async function storeAssembledFile(
+  id: string,
+  session: MockUploadSession
+): Promise<string> {
+  const base64 = session.chunks.join("");
+  if (!UPLOADS_DIR) return `data:${session.mimeType};base64,${base64}`;
+
+  await LegacyFileSystem.makeDirectoryAsync(UPLOADS_DIR, {
+    intermediates: true,
+  });
+  const ext = extensionOf(session.fileName) ?? "bin";
+  const path = `${UPLOADS_DIR}${id.replace(/[^a-z0-9_-]/gi, "_")}.${ext}`;
+  await LegacyFileSystem.writeAsStringAsync(path, base64, {
+    encoding: LegacyFileSystem.EncodingType.Base64,
+  });
+  return path;
+}
+
+async function handleChunkedUpload(
+  user: MockUser,
+  path: string,
+  method: string,
+  init: RequestInit | undefined
+): Promise<Response> {
+  if (!options.chunkedUploads) {
+    return json(404, { error: `No route for ${method} ${path}` });
+  }
+
+  if (path === "/uploads" && method === "POST") {
+    const body = readBody(init, (b) => ({
+      fileName: optionalString(b, "fileName", "body"),
+      mimeType: optionalString(b, "mimeType", "body"),
+      size: optionalNumber(b, "size", "body"),
+      chunkSize: optionalNumber(b, "chunkSize", "body"),
+      takenAt: optionalString(b, "takenAt", "body"),
+      width: optionalNumber(b, "width", "body"),
+      height: optionalNumber(b, "height", "body"),
+      checksum: optionalString(b, "checksum", "body"),
+      metadata: sanitizeMetadata(b.metadata),
+    }));
+    if (body instanceof Response) return body;
+    const { fileName, size } = body;
+    if (!fileName || !size || size <= 0) {
+      return json(400, { error: "fileName and size are required" });
+    }
+    // Chunks are kept as base64 and joined on finalize, which only lines
+    // up when every chunk but the last is a multiple of 3 bytes
+    const requested = Math.min(
+      body.chunkSize || MAX_CHUNK_SIZE,
+      MAX_CHUNK_SIZE
+    );
+    const session: MockUploadSession = {
+      id: `upload-${Date.now()}-${++idCounter}`,
+      userId: user.id,
+      fileName,
+      mimeType: body.mimeType ?? "application/octet-stream",
+      size,
+      chunkSize: Math.max(3, requested - (requested % 3)),
+      takenAt: body.takenAt,
+      width: body.width,
+      height: body.height,
+      checksum: body.checksum,
+      metadata: body.metadata,
+      chunks: [],
+    };
+    uploadSessions[session.id] = session;
+    return json(201, sessionJson(session));
+  }
+
+  const match = path.match(/^\/uploads\/([^/]+)(\/chunks\/(\d+)|\/finalize)?$/);
+  const session = match && uploadSessions[decodeURIComponent(match[1])];
+  if (!match || !session || session.userId !== user.id) {
+    return json(404, { error: "Upload session not found" });
+  }
+
+  if (!match[2] && method === "GET") {
+    return json(200, sessionJson(session));
+  }
+
+  if (match[3] !== undefined && method === "PUT") {
+    const index = Number(match[3]);
+    const data = readBody(init, (b) => optionalString(b, "data", "body"));
+    if (data instanceof Response) return data;
+    if (!data) return json(400, { error: "Chunk data is required" });
+    // Re-sent chunks are acknowledged; skipping ahead is not allowed
+    if (index > session.chunks.length) {
+      return json(409, { error: `Expected chunk ${session.chunks.length}` });
+    }
+    if (index === session.chunks.length) session.chunks.push(data);
+    return json(200, sessionJson(session));
+  }
+
+  if (match[2] === "/finalize" && method === "POST") {
+    const expected = Math.ceil(session.size / session.chunkSize);
+    if (session.chunks.length < expected) {
+      return json(409, { error: "Upload is missing chunks" });
+    }
+    // A real server hashes the assembled file; the mock can only check
+    // that the client agrees with what it declared up front
+    const checksum = readBody(init, (b) =>
+      optionalString(b, "checksum", "body")
+    );
+    if (checksum instanceof Response) return checksum;
+    if (checksum && session.checksum && checksum !== session.checksum) {
+      delete uploadSessions[session.id];
+      return json(409, { error: "Checksum mismatch" });
+    }
+    delete uploadSessions[session.id];
+    const id = `${Date.now()}-${++idCounter}-${session.fileName}`;
+    return addRecord(user.id, {
+      id,
+      url: await storeAssembledFile(id, session),
+      createdAt: session.takenAt ?? new Date().toISOString(),
+      width: session.width,
+      height: session.height,
+      checksum: session.checksum,
+      fileName: session.fileName,
+      mimeType: session.mimeType,
+      metadata: session.metadata,
+    });
+  }
+
+  return json(404, { error: `No route for ${method} ${path}` });
+}
+
+// fetch-compatible entry point
+export async function mockNasFetch(
+  input: string,
+  init?: RequestInit
+): Promise<Response> {
+  await wait(latency(), init?.signal);
+
+  const url = input.replace(/^demo:\/\/[^/]*/, "") || "/";
+  const [path, search = ""] = url.split("?");
+  const method = (init?.method ?? "GET").toUpperCase();
+
+  if (path.startsWith("/auth/") && method === "POST") {
+    return handleAuth(path, init);
+  }
+
+  const user = authenticate(init);
+  if (!user) return json(401, { error: "Unauthorized" });
+
+  if (Math.random() < options.failureRate) {
+    return json(500, { error: "Simulated server error" });
+  }
+
+  if (path === "/capabilities" && method === "GET") {
+    return json(200, {
+      chunkedUpload: options.chunkedUploads
+        ? { maxChunkSize: MAX_CHUNK_SIZE }
+        : null,
+      mediaChanges: true,
+    });
+  }
+
+  if (path === "/media" && method === "GET") {
+    return json(200, mediaByUser[user.id] ?? []);
+  }
+
+  if (path === "/media/changes" && method === "GET") {
+    return handleMediaChanges(user, new URLSearchParams(search));
+  }
+
+  if (path.startsWith("/uploads")) {
+    return handleChunkedUpload(user, path, method, init);
+  }
+
+  if (path === "/upload" && method === "POST") {
+    return handleUpload(user, init?.body);
+  }
+
+  const deleteMatch = path.match(/^\/media\/([^/]+)$/);
+  if (deleteMatch && method === "DELETE") {
+    const id = decodeURIComponent(deleteMatch[1]);
+    const list = mediaByUser[user.id] ?? [];
+    if (!list.some((m) => m.id === id)) {
+      return json(404, { error: "Media not found" });
+    }
+    mediaByUser[user.id] = list.filter((m) => m.id !== id);
+    logChange(user.id, id, true);
+    return json(200, { ok: true });
+  }
+
+  return json(404, { error: `No route for ${method} ${path}` });
+}
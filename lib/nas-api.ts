@@ -0,0 +1,605 @@
+// lib/nas-api.ts
+// Typed client for the NAS backend. Every screen goes through this instead of
+// calling fetch directly, so auth headers, response validation and error
+// shapes live in one place.
+
+import { MediaMetadata, sanitizeMetadata } from "./media-metadata";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type NasUser = {
+  id: string;
+  email: string;
+};
+
+export type NasAuthResponse = {
+  user: NasUser;
+  token: string; // short-lived access token
+  refreshToken?: string; // older servers don't issue one
+};
+
+export type NasRefreshResponse = {
+  token: string;
+  refreshToken?: string; // present when the server rotates refresh tokens
+};
+
+export type NasMediaRecord = {
+  id: string;
+  url: string;
+  createdAt: string; // ISO string
+  width?: number;
+  height?: number;
+  checksum?: string; // MD5 hex of the original, if the server knows it
+  fileName?: string; // name the file was uploaded with
+  mimeType?: string;
+  metadata?: MediaMetadata; // as sent with the upload
+  // Smaller renditions the server generated, and a tiny placeholder hash
+  thumbnailUrl?: string; // grid-sized
+  previewUrl?: string; // screen-sized
+  blurhash?: string;
+  thumbhash?: string;
+};
+
+export type NasUploadFile = {
+  uri: string;
+  name: string;
+  type: string; // MIME type
+};
+
+export type NasUploadRequest = {
+  file: NasUploadFile;
+  takenAt: string;
+  width?: number;
+  height?: number;
+  checksum?: string;
+  metadata?: MediaMetadata;
+};
+
+// What optional features the server supports (GET /capabilities)
+export type NasCapabilities = {
+  chunkedUpload: { maxChunkSize?: number } | null;
+  mediaChanges: boolean; // GET /media/changes for incremental sync
+};
+
+// Metadata sent when opening a chunked upload session
+export type NasUploadSessionRequest = {
+  fileName: string;
+  mimeType: string;
+  size: number; // bytes
+  takenAt: string;
+  width?: number;
+  height?: number;
+  checksum?: string;
+  metadata?: MediaMetadata;
+  chunkSize?: number; // preferred; the server has the final say
+};
+
+export type NasUploadSession = {
+  id: string;
+  chunkSize: number; // bytes per chunk; the last one may be shorter
+  receivedChunks: number; // chunks 0..receivedChunks-1 are stored
+};
+
+// One page of GET /media/changes. Without a cursor the server lists every
+// item (and no deletions); with one, only what changed after it.
+export type NasMediaChanges = {
+  items: NasMediaRecord[]; // added or updated
+  deleted: string[]; // ids removed since the cursor
+  cursor: string; // pass back to continue from here
+  hasMore: boolean;
+};
+
+export type NasErrorKind =
+  | "network" // request never reached the server / no response
+  | "unauthorized" // 401, token missing or rejected
+  | "http" // any other non-2xx status
+  | "invalid-response" // server answered with an unexpected payload
+  | "cancelled"; // the caller aborted the request
+
+export class NasApiError extends Error {
+  kind: NasErrorKind;
+  status?: number;
+  retryAfterMs?: number; // how long the server asked us to wait (Retry-After)
+
+  constructor(
+    kind: NasErrorKind,
+    message: string,
+    status?: number,
+    retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "NasApiError";
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+export type NasClientOptions = {
+  baseUrl: string;
+  fetchImpl?: FetchLike; // defaults to global fetch (the demo server swaps it)
+  getToken?: () => string | null;
+  // Called on a 401 with the token that was rejected. Resolves true once a
+  // fresh access token is available, false if the session can't be renewed.
+  // Rejects when renewing couldn't be tried (network or server error); the
+  // request then fails with that error and the session is kept.
+  refreshSession?: (rejectedToken: string) => Promise<boolean>;
+  // Called when a 401 could not be recovered from by refreshing
+  onSessionExpired?: () => void;
+};
+
+type RequestOptions = {
+  method?: "GET" | "POST" | "PUT" | "DELETE";
+  body?: unknown; // JSON-encoded unless it is FormData
+  auth?: boolean; // attach bearer token (default true)
+  signal?: AbortSignal;
+};
+
+// -----------------------------------------------------------------------------
+// Validation helpers (the demo server checks request bodies with them too)
+// -----------------------------------------------------------------------------
+
+export type Json = Record<string, unknown>;
+
+function invalid(what: string): NasApiError {
+  return new NasApiError(
+    "invalid-response",
+    `The server sent an unexpected response (${what}).`
+  );
+}
+
+export function expectObject(value: unknown, what: string): Json {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw invalid(`${what} is not an object`);
+  }
+  return value as Json;
+}
+
+function expectString(obj: Json, key: string, what: string): string {
+  const value = obj[key];
+  if (typeof value !== "string" || value.length === 0) {
+    throw invalid(`${what}.${key} is missing`);
+  }
+  return value;
+}
+
+export function optionalString(obj: Json, key: string, what: string) {
+  const value = obj[key];
+  if (value == null) return undefined;
+  if (typeof value !== "string") throw invalid(`${what}.${key} is not a string`);
+  return value;
+}
+
+export function optionalNumber(obj: Json, key: string, what: string) {
+  const value = obj[key];
+  if (value == null) return undefined;
+  // Some backends send numeric form fields back as strings
+  const n = typeof value === "string" ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isFinite(n)) {
+    throw invalid(`${what}.${key} is not a number`);
+  }
+  return n;
+}
+
+function parseUser(value: unknown): NasUser {
+  const obj = expectObject(value, "user");
+  const id = obj.id;
+  if (typeof id !== "string" && typeof id !== "number") {
+    throw invalid("user.id is missing");
+  }
+  return { id: String(id), email: expectString(obj, "email", "user") };
+}
+
+export function parseAuthResponse(value: unknown): NasAuthResponse {
+  const obj = expectObject(value, "auth response");
+  return {
+    user: parseUser(obj.user),
+    token: expectString(obj, "token", "auth response"),
+    refreshToken: optionalString(obj, "refreshToken", "auth response"),
+  };
+}
+
+export function parseRefreshResponse(value: unknown): NasRefreshResponse {
+  const obj = expectObject(value, "refresh response");
+  return {
+    token: expectString(obj, "token", "refresh response"),
+    refreshToken: optionalString(obj, "refreshToken", "refresh response"),
+  };
+}
+
+export function parseMediaRecord(value: unknown, index = 0): NasMediaRecord {
+  const what = `media[${index}]`;
+  const obj = expectObject(value, what);
+
+  const createdAtRaw = expectString(obj, "createdAt", what);
+  const created = new Date(createdAtRaw);
+  if (Number.isNaN(created.getTime())) {
+    throw invalid(`${what}.createdAt is not a date`);
+  }
+
+  return {
+    id: expectString(obj, "id", what),
+    url: expectString(obj, "url", what),
+    createdAt: created.toISOString(),
+    width: optionalNumber(obj, "width", what),
+    height: optionalNumber(obj, "height", what),
+    checksum: optionalString(obj, "checksum", what)?.toLowerCase(),
+    fileName: optionalString(obj, "fileName", what),
+    mimeType: optionalString(obj, "mimeType", what),
+    metadata: sanitizeMetadata(obj.metadata),
+    thumbnailUrl: optionalString(obj, "thumbnailUrl", what),
+    previewUrl: optionalString(obj, "previewUrl", what),
+    blurhash: optionalString(obj, "blurhash", what),
+    thumbhash: optionalString(obj, "thumbhash", what),
+  };
+}
+
+export function parseCapabilities(value: unknown): NasCapabilities {
+  const obj = expectObject(value, "capabilities");
+  const mediaChanges = obj.mediaChanges === true;
+  const chunked = obj.chunkedUpload;
+  if (!chunked) return { chunkedUpload: null, mediaChanges };
+  if (chunked === true) return { chunkedUpload: {}, mediaChanges };
+  const chunkedObj = expectObject(chunked, "capabilities.chunkedUpload");
+  return {
+    chunkedUpload: {
+      maxChunkSize: optionalNumber(
+        chunkedObj,
+        "maxChunkSize",
+        "capabilities.chunkedUpload"
+      ),
+    },
+    mediaChanges,
+  };
+}
+
+export function parseUploadSession(value: unknown): NasUploadSession {
+  const what = "upload session";
+  const obj = expectObject(value, what);
+  const chunkSize = optionalNumber(obj, "chunkSize", what);
+  if (!chunkSize || chunkSize <= 0) throw invalid(`${what}.chunkSize is missing`);
+  return {
+    id: expectString(obj, "id", what),
+    chunkSize,
+    receivedChunks: optionalNumber(obj, "receivedChunks", what) ?? 0,
+  };
+}
+
+export function parseMediaList(value: unknown): NasMediaRecord[] {
+  if (!Array.isArray(value)) throw invalid("media list is not an array");
+  return value.map((v, i) => parseMediaRecord(v, i));
+}
+
+export function parseMediaChanges(value: unknown): NasMediaChanges {
+  const what = "media changes";
+  const obj = expectObject(value, what);
+  const deleted = obj.deleted ?? [];
+  if (!Array.isArray(deleted) || deleted.some((id) => typeof id !== "string")) {
+    throw invalid(`${what}.deleted is not a list of ids`);
+  }
+  return {
+    items: parseMediaList(obj.items ?? []),
+    deleted,
+    cursor: expectString(obj, "cursor", what),
+    hasMore: obj.hasMore === true,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Client
+// -----------------------------------------------------------------------------
+
+// React Native's FormData takes files as { uri, name, type } descriptors,
+// which the DOM typings for append() don't know about
+type ReactNativeFilePart = { uri: string; name: string; type: string };
+
+type AppendFilePart = (name: string, value: ReactNativeFilePart) => void;
+
+function appendFilePart(
+  formData: FormData,
+  name: string,
+  file: ReactNativeFilePart
+) {
+  (formData.append as unknown as AppendFilePart).call(formData, name, file);
+}
+
+async function readJson(res: Response): Promise<unknown> {
+  const text = await res.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Keep the raw text so error messages can still show it
+    return text;
+  }
+}
+
+function messageFrom(data: unknown, fallback: string): string {
+  if (typeof data === "string" && data.trim()) return data.trim();
+  if (data && typeof data === "object") {
+    const obj = data as Json;
+    if (typeof obj.error === "string") return obj.error;
+    if (typeof obj.message === "string") return obj.message;
+  }
+  return fallback;
+}
+
+// A Retry-After header that asks for more than this is treated as a mistake
+const MAX_RETRY_AFTER_MS = 60 * 60 * 1000;
+
+// Reads Retry-After, which holds either a number of seconds or an HTTP date
+export function retryAfterMsFrom(
+  value: string | null,
+  now = Date.now()
+): number | undefined {
+  if (!value?.trim()) return undefined;
+  const seconds = Number(value);
+  const ms = Number.isFinite(seconds)
+    ? seconds * 1000
+    : Date.parse(value) - now;
+  if (Number.isNaN(ms)) return undefined;
+  return Math.min(Math.max(0, ms), MAX_RETRY_AFTER_MS);
+}
+
+export function createNasClient({
+  baseUrl,
+  fetchImpl = fetch,
+  getToken,
+  refreshSession,
+  onSessionExpired,
+}: NasClientOptions) {
+  const send = async (
+    path: string,
+    method: string,
+    body: unknown,
+    token: string | null,
+    signal?: AbortSignal
+  ) => {
+    const headers: Record<string, string> = {};
+    if (token) headers.Authorization = `Bearer ${token}`;
+
+    let payload: BodyInit | undefined;
+    if (body instanceof FormData) {
+      payload = body;
+    } else if (body !== undefined) {
+      headers["Content-Type"] = "application/json";
+      payload = JSON.stringify(body);
+    }
+
+    let res: Response;
+    try {
+      res = await fetchImpl(`${baseUrl}${path}`, {
+        method,
+        headers,
+        body: payload,
+        signal,
+      });
+    } catch {
+      if (signal?.aborted) {
+        throw new NasApiError("cancelled", "Request cancelled.");
+      }
+      throw new NasApiError(
+        "network",
+        `Could not reach the server at ${baseUrl}.`
+      );
+    }
+
+    return { res, data: await readJson(res) };
+  };
+
+  const request = async (
+    path: string,
+    { method = "GET", body, auth = true, signal }: RequestOptions = {}
+  ): Promise<unknown> => {
+    if (signal?.aborted) {
+      throw new NasApiError("cancelled", "Request cancelled.");
+    }
+    let token: string | null = null;
+    if (auth) {
+      token = getToken?.() ?? null;
+      if (!token) {
+        throw new NasApiError("unauthorized", "Please sign in first.");
+      }
+    }
+
+    let { res, data } = await send(path, method, body, token, signal);
+
+    // Expired access token: refresh once and replay the original request
+    if (res.status === 401 && auth && token) {
+      const refreshed = refreshSession ? await refreshSession(token) : false;
+      const nextToken = refreshed ? getToken?.() ?? null : null;
+
+      if (nextToken) {
+        ({ res, data } = await send(path, method, body, nextToken, signal));
+      }
+
+      if (!nextToken || res.status === 401) {
+        onSessionExpired?.();
+        throw new NasApiError(
+          "unauthorized",
+          "Your session has expired. Please sign in again.",
+          401
+        );
+      }
+    }
+
+    if (res.status === 401) {
+      throw new NasApiError(
+        "unauthorized",
+        messageFrom(data, "Your session is no longer valid."),
+        res.status
+      );
+    }
+    if (!res.ok) {
+      throw new NasApiError(
+        "http",
+        messageFrom(data, `Request failed (${res.status}).`),
+        res.status,
+        retryAfterMsFrom(res.headers.get("Retry-After"))
+      );
+    }
+
+    return data;
+  };
+
+  // Asked once per client; a server without the endpoint simply doesn't
+  // support any of the optional features
+  let capabilities: Promise<NasCapabilities> | null = null;
+
+  const getCapabilities = () => {
+    capabilities ??= request("/capabilities")
+      .then(parseCapabilities)
+      .catch((err) => {
+        if (
+          err instanceof NasApiError &&
+          err.kind === "http" &&
+          [404, 405, 501].includes(err.status ?? 0)
+        ) {
+          return { chunkedUpload: null, mediaChanges: false };
+        }
+        capabilities = null; // try again next time
+        throw err;
+      });
+    return capabilities;
+  };
+
+  // Headers for fetching a file URL the server handed out. The token is
+  // only sent to this server's origin (scheme, host and port), never to
+  // another host or port, nor to a URL that can't be parsed.
+  const sameOrigin = (url: string) => {
+    try {
+      const origin = new URL(url).origin;
+      // Opaque origins (file:, data:, demo:) all read "null"
+      return origin !== "null" && origin === new URL(baseUrl).origin;
+    } catch {
+      return false;
+    }
+  };
+
+  const fileHeaders = (url: string): Record<string, string> => {
+    const token = getToken?.() ?? null;
+    if (!token || !sameOrigin(url)) return {};
+    return { Authorization: `Bearer ${token}` };
+  };
+
+  return {
+    baseUrl,
+    request,
+    getCapabilities,
+    fileHeaders,
+
+    login: async (email: string, password: string) =>
+      parseAuthResponse(
+        await request("/auth/login", {
+          method: "POST",
+          body: { email, password },
+          auth: false,
+        })
+      ),
+
+    register: async (email: string, password: string) =>
+      parseAuthResponse(
+        await request("/auth/register", {
+          method: "POST",
+          body: { email, password },
+          auth: false,
+        })
+      ),
+
+    refresh: async (refreshToken: string) =>
+      parseRefreshResponse(
+        await request("/auth/refresh", {
+          method: "POST",
+          body: { refreshToken },
+          auth: false,
+        })
+      ),
+
+    listMedia: async () => parseMediaList(await request("/media")),
+
+    // A 410 means the cursor is too old (or unknown) and a full sync is due
+    listMediaChanges: async (cursor: string | null, limit = 500) => {
+      const query = new URLSearchParams({ limit: String(limit) });
+      if (cursor) query.set("cursor", cursor);
+      return parseMediaChanges(await request(`/media/changes?${query}`));
+    },
+
+    upload: async (
+      { file, takenAt, width, height, checksum, metadata }: NasUploadRequest,
+      signal?: AbortSignal
+    ) => {
+      const formData = new FormData();
+      formData.append("takenAt", takenAt);
+      if (width != null) formData.append("width", String(width));
+      if (height != null) formData.append("height", String(height));
+      if (checksum) formData.append("checksum", checksum);
+      // Also in the file part, but not every server keeps the part's name
+      formData.append("fileName", file.name);
+      formData.append("mimeType", file.type);
+      if (metadata) formData.append("metadata", JSON.stringify(metadata));
+      appendFilePart(formData, "file", file);
+
+      await request("/upload", { method: "POST", body: formData, signal });
+    },
+
+    // Chunked upload protocol: open a session, PUT numbered chunks, then
+    // finalize. The server checks the assembled file against `checksum`.
+    createUploadSession: async (
+      input: NasUploadSessionRequest,
+      signal?: AbortSignal
+    ) =>
+      parseUploadSession(
+        await request("/uploads", { method: "POST", body: input, signal })
+      ),
+
+    getUploadSession: async (sessionId: string, signal?: AbortSignal) =>
+      parseUploadSession(
+        await request(`/uploads/${encodeURIComponent(sessionId)}`, { signal })
+      ),
+
+    uploadChunk: async (
+      sessionId: string,
+      index: number,
+      base64: string,
+      signal?: AbortSignal
+    ) =>
+      parseUploadSession(
+        await request(
+          `/uploads/${encodeURIComponent(sessionId)}/chunks/${index}`,
+          { method: "PUT", body: { data: base64 }, signal }
+        )
+      ),
+
+    finalizeUpload: async (
+      sessionId: string,
+      checksum?: string,
+      signal?: AbortSignal
+    ) =>
+      parseMediaRecord(
+        await request(`/uploads/${encodeURIComponent(sessionId)}/finalize`, {
+          method: "POST",
+          body: { checksum },
+          signal,
+        })
+      ),
+
+    deleteMedia: async (serverId: string) => {
+      await request(`/media/${encodeURIComponent(serverId)}`, {
+        method: "DELETE",
+      });
+    },
+  };
+}
+
+export type NasClient = ReturnType<typeof createNasClient>;
+
+// Human-readable message for any error thrown by the client
+export function describeNasError(err: unknown): string {
+  if (err instanceof NasApiError) return err.message;
+  if (err instanceof Error && err.message) return err.message;
+  return "Something went wrong talking to the server.";
+}
@@ -0,0 +1,84 @@
+// lib/server-sync.ts
+// Pulls the NAS media list into the catalog. Servers with GET /media/changes
+// are synced incrementally from a cursor stored with the catalog; others
+// (and a forced full resync) list everything.
+
+import { MediaItem, serverRecordToMediaItem, SERVER_ID_PREFIX } from "./media";
+import { NasApiError, NasClient } from "./nas-api";
+
+export type ServerChanges = {
+  // true: `items` is the whole server library and replaces our copy
+  full: boolean;
+  items: MediaItem[];
+  deletedIds: string[]; // catalog ids
+  cursor: string | null; // null when the server can't sync incrementally
+  // The server dropped our cursor (reset, restored, or restarted demo), so
+  // a full listing was taken instead. What it lacks may never have been
+  // deleted on purpose.
+  reset?: boolean;
+};
+
+const CHANGES_PAGE_SIZE = 500;
+
+async function fetchPages(
+  api: NasClient,
+  cursor: string | null
+): Promise<ServerChanges> {
+  // Later pages win: an item can be added on one page and deleted on the next
+  const items = new Map<string, MediaItem>();
+  const deletedIds = new Set<string>();
+  let next = cursor;
+
+  while (true) {
+    const page = await api.listMediaChanges(next, CHANGES_PAGE_SIZE);
+    for (const record of page.items) {
+      const item = serverRecordToMediaItem(record);
+      items.set(item.id, item);
+      deletedIds.delete(item.id);
+    }
+    for (const id of page.deleted) {
+      items.delete(`${SERVER_ID_PREFIX}${id}`);
+      deletedIds.add(`${SERVER_ID_PREFIX}${id}`);
+    }
+    next = page.cursor;
+    if (!page.hasMore) break;
+  }
+
+  return {
+    full: cursor === null,
+    items: [...items.values()],
+    deletedIds: [...deletedIds],
+    cursor: next,
+  };
+}
+
+export async function fetchServerChanges(
+  api: NasClient,
+  cursor: string | null
+): Promise<ServerChanges> {
+  const capabilities = await api.getCapabilities();
+  if (!capabilities.mediaChanges) {
+    const records = await api.listMedia();
+    return {
+      full: true,
+      items: records.map(serverRecordToMediaItem),
+      deletedIds: [],
+      cursor: null,
+    };
+  }
+
+  try {
+    return await fetchPages(api, cursor);
+  } catch (err) {
+    // The server forgot our cursor (or it's from before a reset)
+    if (
+      cursor !== null &&
+      err instanceof NasApiError &&
+      err.kind === "http" &&
+      err.status === 410
+    ) {
+      return { ...(await fetchPages(api, null)), reset: true };
+    }
+    throw err;
+  }
+}
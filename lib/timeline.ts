@@ -0,0 +1,300 @@
+// lib/timeline.ts
+// Splits the library into day / month / year sections of fixed-height grid
+// rows for the virtualized timeline. Rows have a known height, so the list
+// can compute every offset up front instead of measuring what it renders.
+
+import { MediaItem } from "./media";
+
+export type TimelineGrouping = "day" | "month" | "year";
+
+export const TIMELINE_GROUPINGS: TimelineGrouping[] = ["day", "month", "year"];
+
+export type TimelineRow = {
+  key: string;
+  items: MediaItem[]; // up to `columns` items
+  firstIndex: number; // index of items[0] in the whole timeline
+};
+
+export type TimelineSection = {
+  key: string;
+  title: string;
+  count: number;
+  date: string; // ISO; start of the day / month / year
+  data: TimelineRow[];
+};
+
+export type Timeline = {
+  items: MediaItem[]; // newest first; row indices point into this
+  sections: TimelineSection[];
+};
+
+function sectionStart(date: Date, grouping: TimelineGrouping): Date {
+  if (grouping === "year") return new Date(date.getFullYear(), 0, 1);
+  if (grouping === "month") {
+    return new Date(date.getFullYear(), date.getMonth(), 1);
+  }
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "Today", "Mon, 14 Oct", "October 2026", "2026"
+export function sectionTitle(
+  start: Date,
+  grouping: TimelineGrouping,
+  now = new Date()
+): string {
+  if (grouping === "year") return String(start.getFullYear());
+  if (grouping === "month") {
+    return start.toLocaleDateString(undefined, {
+      month: "long",
+      year: "numeric",
+    });
+  }
+
+  const today = sectionStart(now, "day").getTime();
+  // Rounded, so a daylight-saving change doesn't shift "Yesterday"
+  const daysAgo = Math.round((today - start.getTime()) / DAY_MS);
+  if (daysAgo === 0) return "Today";
+  if (daysAgo === 1) return "Yesterday";
+  return start.toLocaleDateString(undefined, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: start.getFullYear() === now.getFullYear() ? undefined : "numeric",
+  });
+}
+
+export function buildTimeline(
+  items: MediaItem[],
+  grouping: TimelineGrouping,
+  columns: number,
+  now = new Date()
+): Timeline {
+  const sorted = [...items].sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt)
+  );
+
+  const sections: TimelineSection[] = [];
+  let current: { start: Date; first: number; items: MediaItem[] } | null =
+    null;
+
+  const close = () => {
+    if (!current) return;
+    const { start, first, items: sectionItems } = current;
+    const rows: TimelineRow[] = [];
+    for (let i = 0; i < sectionItems.length; i += columns) {
+      rows.push({
+        key: sectionItems[i].id,
+        items: sectionItems.slice(i, i + columns),
+        firstIndex: first + i,
+      });
+    }
+    sections.push({
+      key: start.toISOString(),
+      title: sectionTitle(start, grouping, now),
+      count: sectionItems.length,
+      date: start.toISOString(),
+      data: rows,
+    });
+  };
+
+  sorted.forEach((item, index) => {
+    const start = sectionStart(new Date(item.createdAt), grouping);
+    if (!current || current.start.getTime() !== start.getTime()) {
+      close();
+      current = { start, first: index, items: [] };
+    }
+    current.items.push(item);
+  });
+  close();
+
+  return { items: sorted, sections };
+}
+
+// -----------------------------------------------------------------------------
+// Layout
+// -----------------------------------------------------------------------------
+
+export type TimelineMetrics = {
+  listHeaderHeight: number; // everything above the first section
+  sectionHeaderHeight: number;
+  rowHeight: number;
+};
+
+export type ItemLayout = {
+  length: number;
+  offset: number;
+  index: number;
+  row?: TimelineRow; // unset for section headers and footers
+};
+
+// Offsets for SectionList's flattened indices: each section contributes its
+// header, one entry per row, then a (zero-height) footer.
+export function timelineLayout(
+  sections: TimelineSection[],
+  metrics: TimelineMetrics
+): ItemLayout[] {
+  const layout: ItemLayout[] = [];
+  let offset = metrics.listHeaderHeight;
+  const push = (length: number, row?: TimelineRow) => {
+    layout.push({ length, offset, index: layout.length, row });
+    offset += length;
+  };
+
+  for (const section of sections) {
+    push(metrics.sectionHeaderHeight);
+    for (const row of section.data) push(metrics.rowHeight, row);
+    push(0);
+  }
+  return layout;
+}
+
+// Flattened index of a row, counting the headers and footers before it
+export function layoutIndexOf(
+  sections: TimelineSection[],
+  sectionIndex: number,
+  rowIndex: number
+): number {
+  let index = 0;
+  for (let i = 0; i < sectionIndex; i++) index += sections[i].data.length + 2;
+  return index + 1 + rowIndex;
+}
+
+// Row at content offset y; when y is on a section header, the row below it
+export function rowAtOffset(
+  layout: ItemLayout[],
+  y: number
+): ItemLayout | null {
+  let lo = 0;
+  let hi = layout.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (layout[mid].offset <= y) lo = mid;
+    else hi = mid - 1;
+  }
+  for (let i = lo; i < layout.length; i++) {
+    if (layout[i].row) return layout[i];
+  }
+  return null;
+}
+
+// -----------------------------------------------------------------------------
+// Navigation
+// -----------------------------------------------------------------------------
+
+export type TimelineMonth = {
+  key: string; // "2019-03"
+  year: number;
+  month: number; // 0-11
+  count: number;
+  firstIndex: number; // newest item of the month in timeline.items
+};
+
+// Months that have items, newest first. Independent of the grouping, so the
+// scrubber and "Jump to date" behave the same in day, month and year view.
+export function timelineMonths(items: MediaItem[]): TimelineMonth[] {
+  const months: TimelineMonth[] = [];
+  items.forEach((item, index) => {
+    const d = new Date(item.createdAt);
+    const year = d.getFullYear();
+    const month = d.getMonth();
+    const last = months[months.length - 1];
+    if (last && last.year === year && last.month === month) {
+      last.count++;
+      return;
+    }
+    months.push({
+      key: `${year}-${String(month + 1).padStart(2, "0")}`,
+      year,
+      month,
+      count: 1,
+      firstIndex: index,
+    });
+  });
+  return months;
+}
+
+// "March 2019"
+export function monthLabel(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, {
+    month: "long",
+    year: "numeric",
+  });
+}
+
+export type ScrubberMark = {
+  key: string;
+  label: string;
+  fraction: number; // position on the track, 0 (newest) to 1
+};
+
+// Marks sit at their share of the item count rather than of the date range,
+// so a busy month gets more of the track than a quiet year. Years are used
+// once the library spans more than two of them, months otherwise; a mark
+// closer than `minGap` to the previous one is dropped.
+export function scrubberMarks(
+  months: TimelineMonth[],
+  total: number,
+  minGap: number
+): ScrubberMark[] {
+  if (!total) return [];
+  const byYear = new Set(months.map((m) => m.year)).size > 2;
+
+  const marks: ScrubberMark[] = [];
+  let lastYear: number | null = null;
+  let lastFraction = -Infinity;
+  for (const m of months) {
+    if (byYear && m.year === lastYear) continue;
+    lastYear = m.year;
+
+    const fraction = m.firstIndex / total;
+    if (fraction - lastFraction < minGap) continue;
+    lastFraction = fraction;
+    marks.push({
+      key: m.key,
+      label: byYear
+        ? String(m.year)
+        : new Date(m.year, m.month, 1).toLocaleDateString(undefined, {
+            month: "short",
+          }),
+      fraction,
+    });
+  }
+  return marks;
+}
+
+// Last entry whose first index is <= index (entries are in timeline order)
+function lastStartingBefore<T>(
+  entries: T[],
+  index: number,
+  firstIndexOf: (entry: T) => number
+): number {
+  let lo = 0;
+  let hi = entries.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (firstIndexOf(entries[mid]) <= index) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+// Section and row holding timeline.items[index]
+export function locateItem(
+  sections: TimelineSection[],
+  index: number
+): { sectionIndex: number; rowIndex: number } | null {
+  if (!sections.length) return null;
+  const sectionIndex = lastStartingBefore(
+    sections,
+    index,
+    (s) => s.data[0].firstIndex
+  );
+  const rowIndex = lastStartingBefore(
+    sections[sectionIndex].data,
+    index,
+    (row) => row.firstIndex
+  );
+  return { sectionIndex, rowIndex };
+}
@@ -0,0 +1,334 @@
+// lib/upload-queue.ts
+// Persistent upload queue, stored in AsyncStorage per server profile so a
+// batch survives leaving the screen, a network blip or the app being killed.
+// The worker that drains it lives in app/upload-queue-context.tsx.
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { formatBytes, MediaItem } from "./media";
+import { NasApiError } from "./nas-api";
+import { ChunkedUploadState } from "./upload";
+
+export type UploadJobStatus = "queued" | "uploading" | "failed" | "done";
+
+export type UploadJob = {
+  // Catalog id of the device item being uploaded. The item itself is read
+  // from the catalog when the upload starts, so jobs stay small to store.
+  id: string;
+  status: UploadJobStatus;
+  attempts: number;
+  error?: string; // last failure, kept while a retry is pending
+  nextAttemptAt?: number; // epoch ms; a queued job waits until then
+  queuedAt: string;
+  finishedAt?: string;
+  bytesSent?: number; // progress of the current (or last) attempt
+  bytesTotal?: number;
+  session?: ChunkedUploadState; // open chunked upload to resume from
+  overridePolicy?: boolean; // user chose to upload despite Wi-Fi/battery rules
+};
+
+// The fields the retry helpers below need; the download queue shares them
+export type RetryableJob = {
+  id: string;
+  status: string;
+  attempts: number;
+  error?: string;
+  nextAttemptAt?: number;
+  finishedAt?: string;
+};
+
+export type UploadQueueSnapshot = {
+  version: number;
+  jobs: UploadJob[];
+  paused: boolean;
+};
+
+export const UPLOAD_QUEUE_VERSION = 2;
+
+// After this many attempts a job stays failed until retried by hand
+export const MAX_UPLOAD_ATTEMPTS = 5;
+
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+const STORAGE_UPLOAD_QUEUE_KEY = "pp_upload_queue";
+
+const uploadQueueKeyFor = (profileId: string) =>
+  `${STORAGE_UPLOAD_QUEUE_KEY}:${profileId}`;
+
+// -----------------------------------------------------------------------------
+// Queue operations (pure, so the context can use them inside setState)
+// -----------------------------------------------------------------------------
+
+export function isActiveJob(job: UploadJob) {
+  return job.status === "queued" || job.status === "uploading";
+}
+
+// Adds new jobs for items not already waiting; failed and finished jobs
+// for the same item are replaced by a fresh one. An override also applies to
+// matching jobs that were already waiting.
+export function enqueueJobs(
+  jobs: UploadJob[],
+  items: MediaItem[],
+  overridePolicy = false
+): UploadJob[] {
+  const ids = new Set(items.map((m) => m.id));
+  const active = new Set(jobs.filter(isActiveJob).map((j) => j.id));
+  const fresh = items.filter((m) => !active.has(m.id));
+  if (!fresh.length && !overridePolicy) return jobs;
+
+  const replaced = new Set(fresh.map((m) => m.id));
+  const now = new Date().toISOString();
+  return [
+    ...jobs
+      .filter((j) => !replaced.has(j.id))
+      .map((j) =>
+        overridePolicy && ids.has(j.id) ? { ...j, overridePolicy } : j
+      ),
+    ...fresh.map<UploadJob>((item) => ({
+      id: item.id,
+      status: "queued",
+      attempts: 0,
+      queuedAt: now,
+      overridePolicy: overridePolicy || undefined,
+    })),
+  ];
+}
+
+export function updateJob<J extends RetryableJob>(
+  jobs: J[],
+  id: string,
+  patch: Partial<J>
+): J[] {
+  return jobs.map((j) => (j.id === id ? { ...j, ...patch } : j));
+}
+
+// Oldest queued job whose back-off has elapsed, skipping ones a worker
+// has already claimed and ones `eligible` rejects
+export function nextRunnableJob<J extends RetryableJob>(
+  jobs: J[],
+  now: number,
+  claimed: Set<string> = new Set(),
+  eligible: (job: J) => boolean = () => true
+): J | undefined {
+  return jobs.find(
+    (j) =>
+      j.status === "queued" &&
+      !claimed.has(j.id) &&
+      (j.nextAttemptAt ?? 0) <= now &&
+      eligible(j)
+  );
+}
+
+// Earliest time a backed-off job becomes runnable, if any
+export function nextWakeTime(jobs: RetryableJob[]): number | null {
+  let wake: number | null = null;
+  for (const j of jobs) {
+    if (j.status !== "queued" || j.nextAttemptAt == null) continue;
+    if (wake === null || j.nextAttemptAt < wake) wake = j.nextAttemptAt;
+  }
+  return wake;
+}
+
+// Exponential back-off with a little jitter so retries don't line up
+export function retryDelayMs(attempts: number): number {
+  const base = RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+  return Math.min(base, RETRY_MAX_DELAY_MS) + Math.random() * 1000;
+}
+
+// Network trouble, rate limiting and server-side errors are worth retrying;
+// a rejected session or any other 4xx won't get better on its own
+export function isRetryableUploadError(err: unknown): boolean {
+  if (!(err instanceof NasApiError)) return true;
+  if (err.kind === "network") return true;
+  if (err.kind === "http") {
+    const status = err.status ?? 500;
+    return status === 429 || status >= 500;
+  }
+  return false;
+}
+
+// How long the server asked us to hold off before trying again, if it said
+export function retryAfterMs(err: unknown): number | undefined {
+  return err instanceof NasApiError ? err.retryAfterMs : undefined;
+}
+
+// Applies a failed attempt: back off and retry, or give up. The next attempt
+// waits at least as long as the server asked for.
+export function failJob<J extends RetryableJob>(
+  jobs: J[],
+  id: string,
+  error: string,
+  retryable: boolean,
+  minDelayMs = 0
+): J[] {
+  return jobs.map((j) => {
+    if (j.id !== id) return j;
+    const attempts = j.attempts + 1;
+    if (retryable && attempts < MAX_UPLOAD_ATTEMPTS) {
+      return {
+        ...j,
+        status: "queued",
+        attempts,
+        error,
+        nextAttemptAt:
+          Date.now() + Math.max(retryDelayMs(attempts), minDelayMs),
+      };
+    }
+    return {
+      ...j,
+      status: "failed",
+      attempts,
+      error,
+      nextAttemptAt: undefined,
+      finishedAt: new Date().toISOString(),
+    };
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Adaptive concurrency
+// -----------------------------------------------------------------------------
+
+// How many workers may run right now. Server errors halve the limit and
+// pause new uploads for a growing cool-down; each success adds one worker
+// back, up to the configured concurrency.
+export type UploadThrottle = {
+  limit: number;
+  errorStreak: number;
+  coolDownUntil: number; // epoch ms; no new uploads start before this
+};
+
+export function initialThrottle(concurrency: number): UploadThrottle {
+  return { limit: concurrency, errorStreak: 0, coolDownUntil: 0 };
+}
+
+export function throttleAfterSuccess(
+  throttle: UploadThrottle,
+  concurrency: number
+): UploadThrottle {
+  const limit = Math.min(throttle.limit + 1, concurrency);
+  if (limit === throttle.limit && throttle.errorStreak === 0) return throttle;
+  return { ...throttle, limit, errorStreak: 0 };
+}
+
+export function throttleAfterError(
+  throttle: UploadThrottle,
+  minDelayMs = 0
+): UploadThrottle {
+  const errorStreak = throttle.errorStreak + 1;
+  return {
+    limit: Math.max(1, Math.floor(throttle.limit / 2)),
+    errorStreak,
+    coolDownUntil:
+      Date.now() + Math.max(retryDelayMs(errorStreak), minDelayMs),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Throughput
+// -----------------------------------------------------------------------------
+
+export type ThroughputSample = { at: number; bytes: number };
+
+export const THROUGHPUT_WINDOW_MS = 10 * 1000;
+
+// Bytes per second over the samples in the window (bytes is a running
+// total, so only the first and last sample matter)
+export function bytesPerSecond(samples: ThroughputSample[], now: number) {
+  const recent = samples.filter((s) => now - s.at <= THROUGHPUT_WINDOW_MS);
+  if (recent.length < 2) return 0;
+  const first = recent[0];
+  const last = recent[recent.length - 1];
+  const seconds = (now - first.at) / 1000;
+  return seconds > 0 ? (last.bytes - first.bytes) / seconds : 0;
+}
+
+// Bytes still to send. Jobs that haven't started yet don't know their size,
+// so they count as the average of the ones that have.
+export function remainingBytes(jobs: UploadJob[]): number {
+  let knownBytes = 0;
+  let knownJobs = 0;
+  for (const j of jobs) {
+    if (!j.bytesTotal) continue;
+    knownBytes += j.bytesTotal;
+    knownJobs++;
+  }
+  const average = knownJobs ? knownBytes / knownJobs : 0;
+
+  let remaining = 0;
+  for (const j of jobs) {
+    if (!isActiveJob(j)) continue;
+    remaining += j.bytesTotal
+      ? j.bytesTotal - (j.bytesSent ?? 0)
+      : average;
+  }
+  return remaining;
+}
+
+// "2.4 MB/s · about 3 min left"
+export function describeThroughput(
+  bytesPerSecond: number,
+  etaSeconds: number | null
+): string | null {
+  if (bytesPerSecond <= 0) return null;
+  const rate = `${formatBytes(Math.round(bytesPerSecond))}/s`;
+  if (etaSeconds === null) return rate;
+  if (etaSeconds < 60) return `${rate} · less than a minute left`;
+  const minutes = Math.round(etaSeconds / 60);
+  if (minutes < 60) return `${rate} · about ${minutes} min left`;
+  const hours = Math.floor(minutes / 60);
+  return `${rate} · about ${hours} h ${minutes % 60} min left`;
+}
+
+// -----------------------------------------------------------------------------
+// Persistence
+// -----------------------------------------------------------------------------
+
+export function emptyUploadQueue(): UploadQueueSnapshot {
+  return { version: UPLOAD_QUEUE_VERSION, jobs: [], paused: false };
+}
+
+export async function loadUploadQueue(
+  profileId: string
+): Promise<UploadQueueSnapshot> {
+  const stored = await AsyncStorage.getItem(uploadQueueKeyFor(profileId));
+  if (!stored) return emptyUploadQueue();
+
+  const raw = JSON.parse(stored);
+  // Version 1 only differs in also storing a snapshot of each job's item
+  if (
+    !raw ||
+    (raw.version !== 1 && raw.version !== UPLOAD_QUEUE_VERSION) ||
+    !Array.isArray(raw.jobs)
+  ) {
+    return emptyUploadQueue();
+  }
+
+  return {
+    version: UPLOAD_QUEUE_VERSION,
+    // A job that was mid-upload when the app died goes back in line (its
+    // chunked session, if any, resumes); finished jobs are dropped
+    jobs: (raw.jobs as (UploadJob & { item?: unknown })[])
+      .filter((j) => j.status !== "done")
+      .map(({ item, ...j }) =>
+        j.status === "uploading" ? { ...j, status: "queued" } : j
+      ),
+    paused: raw.paused === true,
+  };
+}
+
+export async function saveUploadQueue(
+  profileId: string,
+  jobs: UploadJob[],
+  paused: boolean
+): Promise<void> {
+  const snapshot: UploadQueueSnapshot = {
+    version: UPLOAD_QUEUE_VERSION,
+    jobs,
+    paused,
+  };
+  await AsyncStorage.setItem(
+    uploadQueueKeyFor(profileId),
+    JSON.stringify(snapshot)
+  );
+}
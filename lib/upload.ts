@@ -0,0 +1,220 @@
+// lib/upload.ts
+// Sends a device MediaItem to the NAS. Large files go through the chunked
+// upload protocol when the server supports it, so a dropped connection
+// only costs the chunk in flight.
+
+import * as LegacyFileSystem from "expo-file-system/legacy";
+import { loadAssetDetails, resolveLocalUri } from "./device-library";
+import { extensionOf, MediaItem, mimeTypeFromName } from "./media";
+import {
+  NasApiError,
+  NasClient,
+  NasUploadFile,
+  NasUploadSession,
+} from "./nas-api";
+
+// Files up to this size go in a single request even when chunking is on
+const CHUNKED_UPLOAD_THRESHOLD = 8 * 1024 * 1024;
+const DEFAULT_CHUNK_SIZE = 4 * 1024 * 1024;
+
+export type UploadProgress = {
+  bytesSent: number;
+  bytesTotal: number;
+};
+
+// Enough to pick a chunked upload back up after a restart
+export type ChunkedUploadState = {
+  sessionId: string;
+  chunkSize: number;
+  size: number;
+};
+
+export type UploadOptions = {
+  resume?: ChunkedUploadState; // session from an earlier attempt
+  // Called when a session is opened (to be saved) and with undefined once
+  // it is finished or no longer usable
+  onSession?: (state: ChunkedUploadState | undefined) => void;
+  onProgress?: (progress: UploadProgress) => void;
+  // Aborts the request in flight and stops before the next chunk; the
+  // upload then rejects with a "cancelled" NasApiError
+  signal?: AbortSignal;
+};
+
+function baseName(uri: string): string {
+  const last = uri.split(/[?#]/)[0].split("/").pop() ?? "";
+  try {
+    return decodeURIComponent(last);
+  } catch {
+    return last;
+  }
+}
+
+// Names the upload after the original asset. The readable file can be in a
+// different format than the asset's name says (iOS hands out edited HEIC
+// photos as JPEG), so the extension follows the file actually sent.
+function describeFile(item: MediaItem, uri: string): NasUploadFile {
+  const localName = baseName(uri);
+  let name = item.fileName || localName || `${item.type}-${item.id}`;
+
+  const actualExt = extensionOf(localName);
+  if (
+    actualExt &&
+    mimeTypeFromName(localName) &&
+    extensionOf(name) !== actualExt
+  ) {
+    name = `${name.replace(/\.[^.]*$/, "")}.${actualExt}`;
+  }
+
+  return {
+    uri,
+    name,
+    type:
+      mimeTypeFromName(name) ?? item.mimeType ?? "application/octet-stream",
+  };
+}
+
+async function fileSize(uri: string): Promise<number | undefined> {
+  try {
+    const info = await LegacyFileSystem.getInfoAsync(uri);
+    return info.exists ? info.size : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const isHttpStatus = (err: unknown, ...statuses: number[]) =>
+  err instanceof NasApiError &&
+  err.kind === "http" &&
+  statuses.includes(err.status ?? 0);
+
+function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new NasApiError("cancelled", "Upload cancelled.");
+  }
+}
+
+// Throws NasApiError on failure
+export async function uploadMediaItem(
+  api: NasClient,
+  item: MediaItem,
+  options: UploadOptions = {}
+): Promise<void> {
+  // Items scanned before metadata was collected read it from the asset now
+  const details = item.metadata ? null : await loadAssetDetails(item);
+  const localUri = details?.localUri ?? (await resolveLocalUri(item));
+  const source: MediaItem = {
+    ...item,
+    metadata: item.metadata ?? details?.metadata,
+  };
+
+  const file = describeFile(source, localUri);
+  const size = await fileSize(file.uri);
+  const capabilities = await api.getCapabilities();
+  throwIfCancelled(options.signal);
+
+  if (capabilities.chunkedUpload && size && size > CHUNKED_UPLOAD_THRESHOLD) {
+    const maxChunkSize = capabilities.chunkedUpload.maxChunkSize;
+    await uploadChunked(api, source, file, size, {
+      ...options,
+      chunkSize: maxChunkSize
+        ? Math.min(DEFAULT_CHUNK_SIZE, maxChunkSize)
+        : DEFAULT_CHUNK_SIZE,
+    });
+    return;
+  }
+
+  const bytesTotal = size ?? 0;
+  options.onProgress?.({ bytesSent: 0, bytesTotal });
+  await api.upload(
+    {
+      file,
+      // 👇 send original metadata to server
+      takenAt: source.createdAt,
+      width: source.width,
+      height: source.height,
+      checksum: source.hash,
+      metadata: source.metadata,
+    },
+    options.signal
+  );
+  options.onProgress?.({ bytesSent: bytesTotal, bytesTotal });
+}
+
+async function uploadChunked(
+  api: NasClient,
+  item: MediaItem,
+  file: NasUploadFile,
+  size: number,
+  { resume, onSession, onProgress, signal, chunkSize }: UploadOptions & {
+    chunkSize: number;
+  }
+): Promise<void> {
+  let session: NasUploadSession | null = null;
+
+  // Ask the server how far the earlier attempt got; an unknown or expired
+  // session means starting over
+  if (resume && resume.size === size) {
+    try {
+      session = await api.getUploadSession(resume.sessionId, signal);
+    } catch (err) {
+      if (!isHttpStatus(err, 404, 410)) throw err;
+      onSession?.(undefined);
+    }
+  }
+
+  if (!session) {
+    session = await api.createUploadSession(
+      {
+        fileName: file.name,
+        mimeType: file.type,
+        size,
+        takenAt: item.createdAt,
+        width: item.width,
+        height: item.height,
+        checksum: item.hash,
+        metadata: item.metadata,
+        chunkSize,
+      },
+      signal
+    );
+    onSession?.({ sessionId: session.id, chunkSize: session.chunkSize, size });
+  }
+
+  const { id: sessionId, chunkSize: sessionChunkSize } = session;
+  const chunkCount = Math.ceil(size / sessionChunkSize);
+  const sent = (chunks: number) => Math.min(chunks * sessionChunkSize, size);
+
+  let received = session.receivedChunks;
+  onProgress?.({ bytesSent: sent(received), bytesTotal: size });
+
+  // A cancelled upload keeps its session, so resuming picks it back up
+  while (received < chunkCount) {
+    throwIfCancelled(signal);
+    const position = received * sessionChunkSize;
+    const data = await LegacyFileSystem.readAsStringAsync(file.uri, {
+      encoding: LegacyFileSystem.EncodingType.Base64,
+      position,
+      length: Math.min(sessionChunkSize, size - position),
+    });
+    const ack = await api.uploadChunk(sessionId, received, data, signal);
+    // The server's count is authoritative, but never go backwards
+    received = Math.max(received + 1, ack.receivedChunks);
+    onProgress?.({ bytesSent: sent(received), bytesTotal: size });
+  }
+
+  try {
+    await api.finalizeUpload(sessionId, item.hash, signal);
+  } catch (err) {
+    // Assembled file didn't match; the next attempt needs a fresh session
+    if (isHttpStatus(err, 404, 409, 410)) onSession?.(undefined);
+    throw err;
+  }
+  onSession?.(undefined);
+}
+
+// Marks an uploaded item as living on the NAS
+export function markUploaded(items: MediaItem[], id: string): MediaItem[] {
+  return items.map((m) =>
+    m.id === id ? { ...m, source: "server" as const } : m
+  );
+}